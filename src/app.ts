@@ -10,16 +10,82 @@ import fs from 'fs';
 dotenv.config();
 
 import { createTopics, logger } from './config/kafka';
-import { connect, disconnect } from './services/eventService';
+import { connect, disconnect, getEventBusName, getConsumerStats } from './services/eventService';
 import { initialize as initializeWorkflowEngine } from './services/workflowEngine';
+import { initialize as initializeExperiments } from './services/experimentService';
+import { initialize as initializeWebhooks } from './services/webhookService';
+import { getActiveJourneys, stopWatchingJourneys } from './services/journeyRegistry';
+import { stop as stopScheduler } from './services/scheduler';
+import emailService from './services/emailService';
 import {
     signup,
     productPageVisit,
     getAllCustomers,
     getCustomer,
     getWorkflowStatus,
-    simulateTimePassage
+    getScheduledJobs,
+    simulateTimePassage,
+    purchase,
+    getPurchases,
+    importCustomers,
+    getCustomerImports,
+    getCustomerImport,
+    exportCustomerData,
+    deleteCustomer
 } from './controllers/customerController';
+import { getJourneys, getJourney, reloadJourneys } from './controllers/journeyController';
+import { redeemDiscount, getCustomerDiscounts } from './controllers/discountController';
+import {
+    getTemplates,
+    getTemplate,
+    getTemplateVersion,
+    createTemplate,
+    updateTemplate,
+    publishTemplate,
+    deleteTemplate,
+    previewTemplate
+} from './controllers/templateController';
+import {
+    getDeadLetters,
+    getDeadLetter,
+    redriveDeadLetter,
+    redriveDeadLetters,
+    discardDeadLetter,
+    getSuppressions,
+    addSuppression,
+    removeSuppression
+} from './controllers/adminController';
+import { showUnsubscribe, unsubscribe } from './controllers/unsubscribeController';
+import { trackOpen, trackClick } from './controllers/trackingController';
+import { getRevenue, getJourneyFunnel, getExperiments, getExperimentResults } from './controllers/analyticsController';
+import {
+    getSegments,
+    getSegment,
+    createSegment,
+    updateSegment,
+    deleteSegment,
+    getSegmentMembers,
+    getBroadcasts,
+    getBroadcast,
+    createBroadcast
+} from './controllers/segmentController';
+import {
+    getWebhooks,
+    getWebhook,
+    createWebhook,
+    updateWebhook,
+    deleteWebhook,
+    getWebhookDeliveries
+} from './controllers/webhookController';
+import {
+    track,
+    identify,
+    getEventSchemas,
+    getEventSchema,
+    createEventSchema,
+    updateEventSchema,
+    deleteEventSchema
+} from './controllers/ingestionController';
 
 const app = express();
 const PORT: number = parseInt(process.env.PORT || '3000', 10);
@@ -49,11 +115,82 @@ app.get('/health', (req: Request, res: Response) => {
 
 
 app.post('/api/customers/signup', signup);
+app.post('/api/customers/import', importCustomers);
+app.get('/api/customers/imports', getCustomerImports);
+app.get('/api/customers/imports/:importId', getCustomerImport);
 app.post('/api/customers/:customerId/visit', productPageVisit);
 app.get('/api/customers', getAllCustomers);
 app.get('/api/customers/:customerId', getCustomer);
+app.delete('/api/customers/:customerId', deleteCustomer);
+app.get('/api/customers/:customerId/export', exportCustomerData);
 app.get('/api/customers/:customerId/workflow', getWorkflowStatus);
+app.get('/api/customers/:customerId/jobs', getScheduledJobs);
 app.post('/api/customers/:customerId/simulate-time', simulateTimePassage);
+app.get('/api/customers/:customerId/discounts', getCustomerDiscounts);
+app.post('/api/customers/:customerId/purchase', purchase);
+app.get('/api/customers/:customerId/purchases', getPurchases);
+
+app.post('/api/track', track);
+app.post('/api/identify', identify);
+app.get('/api/event-schemas', getEventSchemas);
+app.post('/api/event-schemas', createEventSchema);
+app.get('/api/event-schemas/:eventName', getEventSchema);
+app.put('/api/event-schemas/:eventName', updateEventSchema);
+app.delete('/api/event-schemas/:eventName', deleteEventSchema);
+
+app.post('/api/discounts/:code/redeem', redeemDiscount);
+
+app.get('/api/analytics/revenue', getRevenue);
+app.get('/api/analytics/journeys/:journeyId/funnel', getJourneyFunnel);
+app.get('/api/experiments', getExperiments);
+app.get('/api/experiments/:experimentId/results', getExperimentResults);
+
+app.get('/api/journeys', getJourneys);
+app.get('/api/journeys/:journeyId', getJourney);
+app.post('/api/journeys/reload', reloadJourneys);
+
+app.get('/api/templates', getTemplates);
+app.post('/api/templates', createTemplate);
+app.get('/api/templates/:templateId', getTemplate);
+app.put('/api/templates/:templateId', updateTemplate);
+app.delete('/api/templates/:templateId', deleteTemplate);
+app.get('/api/templates/:templateId/versions/:version', getTemplateVersion);
+app.post('/api/templates/:templateId/publish', publishTemplate);
+app.post('/api/templates/:templateId/preview', previewTemplate);
+
+app.get('/api/segments', getSegments);
+app.post('/api/segments', createSegment);
+app.get('/api/segments/:segmentId', getSegment);
+app.put('/api/segments/:segmentId', updateSegment);
+app.delete('/api/segments/:segmentId', deleteSegment);
+app.get('/api/segments/:segmentId/members', getSegmentMembers);
+
+app.get('/api/broadcasts', getBroadcasts);
+app.post('/api/broadcasts', createBroadcast);
+app.get('/api/broadcasts/:broadcastId', getBroadcast);
+
+app.get('/api/webhooks', getWebhooks);
+app.post('/api/webhooks', createWebhook);
+app.get('/api/webhooks/:webhookId', getWebhook);
+app.put('/api/webhooks/:webhookId', updateWebhook);
+app.delete('/api/webhooks/:webhookId', deleteWebhook);
+app.get('/api/webhooks/:webhookId/deliveries', getWebhookDeliveries);
+
+app.get('/api/admin/dlq', getDeadLetters);
+app.post('/api/admin/dlq/redrive', redriveDeadLetters);
+app.get('/api/admin/dlq/:deadLetterId', getDeadLetter);
+app.post('/api/admin/dlq/:deadLetterId/redrive', redriveDeadLetter);
+app.delete('/api/admin/dlq/:deadLetterId', discardDeadLetter);
+
+app.get('/api/admin/suppressions', getSuppressions);
+app.post('/api/admin/suppressions', addSuppression);
+app.delete('/api/admin/suppressions/:email', removeSuppression);
+
+app.get('/unsubscribe/:token', showUnsubscribe);
+app.post('/unsubscribe/:token', unsubscribe);
+
+app.get('/email/open/:token', trackOpen);
+app.get('/email/click/:token', trackClick);
 
 app.get('/api/system/info', (req: Request, res: Response) => {
     res.json({
@@ -65,30 +202,22 @@ app.get('/api/system/info', (req: Request, res: Response) => {
             environment: process.env.NODE_ENV || 'development',
             uptime: process.uptime(),
             memory: process.memoryUsage(),
+            eventBus: getEventBusName(),
+            consumer: getConsumerStats(),
+            emailTransport: emailService.getTransportName(),
             timestamp: new Date().toISOString()
         },
-        workflow: {
-            steps: [
-                {
-                    id: 1,
-                    name: 'Welcome Email',
-                    description: 'Send welcome email immediately after signup',
-                    trigger: 'Customer signup'
-                },
-                {
-                    id: 2,
-                    name: 'Discount Code',
-                    description: 'Send discount code after product page visit',
-                    trigger: 'Product page visit'
-                },
-                {
-                    id: 3,
-                    name: 'Reminder Email',
-                    description: 'Send reminder if no activity after 7 days (30 seconds in demo)',
-                    trigger: 'Customer inactivity'
-                }
-            ]
-        }
+        journeys: getActiveJourneys().map(journey => ({
+            id: journey.id,
+            name: journey.name,
+            description: journey.description,
+            steps: journey.steps.map(step => ({
+                id: step.id,
+                name: step.name,
+                description: step.description,
+                trigger: step.trigger
+            }))
+        }))
     });
 });
 
@@ -103,11 +232,70 @@ app.use((req: Request, res: Response) => {
         error: 'Endpoint not found',
         availableEndpoints: {
             'POST /api/customers/signup': 'Create new customer',
+            'POST /api/customers/import': 'Import customers from a CSV or NDJSON file',
+            'GET /api/customers/imports': 'List customer imports',
+            'GET /api/customers/imports/:id': 'Customer import progress and row errors',
             'POST /api/customers/:id/visit': 'Record product page visit',
             'GET /api/customers': 'Get all customers',
             'GET /api/customers/:id': 'Get customer by ID',
+            'DELETE /api/customers/:id': 'Erase a customer and all their data (GDPR)',
+            'GET /api/customers/:id/export': 'Export all data stored about a customer',
             'GET /api/customers/:id/workflow': 'Get workflow status',
+            'GET /api/customers/:id/jobs': 'Get pending scheduled jobs',
             'POST /api/customers/:id/simulate-time': 'Fast-forward time (demo)',
+            'GET /api/customers/:id/discounts': 'List discount codes issued to a customer',
+            'POST /api/customers/:id/purchase': 'Record a completed purchase',
+            'GET /api/customers/:id/purchases': 'List purchases with email attribution',
+            'POST /api/track': 'Track one event or a batch of behavioral events',
+            'POST /api/identify': 'Update a customer\'s traits',
+            'GET /api/event-schemas': 'List registered event schemas',
+            'POST /api/event-schemas': 'Register an event schema',
+            'GET /api/event-schemas/:name': 'Get an event schema',
+            'PUT /api/event-schemas/:name': 'Replace an event schema',
+            'DELETE /api/event-schemas/:name': 'Delete an event schema',
+            'POST /api/discounts/:code/redeem': 'Redeem a discount code',
+            'GET /api/analytics/revenue': 'Attributed revenue per journey step',
+            'GET /api/analytics/journeys/:id/funnel': 'Journey funnel across all customers',
+            'GET /api/experiments': 'List experiments on journey steps',
+            'GET /api/experiments/:id/results': 'Per-variant results with significance',
+            'GET /api/journeys': 'List journey definitions',
+            'GET /api/journeys/:id': 'Get journey definition',
+            'POST /api/journeys/reload': 'Reload journey definitions from disk',
+            'GET /api/templates': 'List email templates',
+            'POST /api/templates': 'Create an email template',
+            'GET /api/templates/:id': 'Get an email template with all versions',
+            'PUT /api/templates/:id': 'Add a new template version',
+            'DELETE /api/templates/:id': 'Delete an email template',
+            'GET /api/templates/:id/versions/:version': 'Get a template version',
+            'POST /api/templates/:id/publish': 'Publish a template version',
+            'POST /api/templates/:id/preview': 'Render a template without sending',
+            'GET /api/segments': 'List customer segments',
+            'POST /api/segments': 'Create a segment from rules',
+            'GET /api/segments/:id': 'Get a segment',
+            'PUT /api/segments/:id': 'Replace a segment\'s rules',
+            'DELETE /api/segments/:id': 'Delete a segment',
+            'GET /api/segments/:id/members': 'Evaluate segment membership',
+            'GET /api/broadcasts': 'List broadcasts',
+            'POST /api/broadcasts': 'Send a template to a segment',
+            'GET /api/broadcasts/:id': 'Get broadcast progress',
+            'GET /api/webhooks': 'List webhook subscriptions with their health',
+            'POST /api/webhooks': 'Subscribe a URL to event types',
+            'GET /api/webhooks/:id': 'Get a webhook subscription with its health',
+            'PUT /api/webhooks/:id': 'Replace a webhook subscription',
+            'DELETE /api/webhooks/:id': 'Delete a webhook subscription',
+            'GET /api/webhooks/:id/deliveries': 'Webhook delivery log',
+            'GET /api/admin/dlq': 'List dead-lettered messages',
+            'GET /api/admin/dlq/:id': 'Get a dead-lettered message',
+            'POST /api/admin/dlq/:id/redrive': 'Republish a dead-lettered message',
+            'POST /api/admin/dlq/redrive': 'Republish all dead-lettered messages',
+            'DELETE /api/admin/dlq/:id': 'Discard a dead-lettered message',
+            'GET /api/admin/suppressions': 'List suppressed email addresses',
+            'POST /api/admin/suppressions': 'Suppress an email address',
+            'DELETE /api/admin/suppressions/:email': 'Lift a suppression',
+            'GET /unsubscribe/:token': 'Unsubscribe confirmation page',
+            'POST /unsubscribe/:token': 'Unsubscribe (also RFC 8058 one-click)',
+            'GET /email/open/:token': 'Open-tracking pixel',
+            'GET /email/click/:token': 'Click-tracking redirect',
             'GET /api/system/info': 'Get system information',
             'GET /health': 'Health check',
             'GET /': 'Demo interface'
@@ -129,6 +317,8 @@ process.on('SIGINT', async () => {
     logger.info('Received SIGINT, shutting down gracefully...');
 
     try {
+        stopWatchingJourneys();
+        stopScheduler();
         await disconnect();
         logger.info('Event service disconnected');
 
@@ -147,18 +337,28 @@ async function startServer(): Promise<void> {
             fs.mkdirSync('logs');
         }
 
-        try {
-            await connect();
-        } catch (kafkaError) {
-            logger.warn('Kafka not available, using in-memory event processing:', (kafkaError as Error).message);
+        await connect();
+
+        // the retry and dead-letter topics must exist before a failed message is routed to them
+        if (getEventBusName() === 'kafka') {
+            try {
+                await createTopics();
+            } catch (topicError) {
+                logger.warn('Could not create Kafka topics; they must already exist or the brokers must auto-create them:', (topicError as Error).message);
+            }
         }
 
+        // registers its retry job handler before the scheduler starts with the workflow engine
+        await initializeWebhooks();
+
         try {
             await initializeWorkflowEngine();
         } catch (workflowError) {
             logger.warn('Workflow engine using fallback mode:', (workflowError as Error).message);
         }
 
+        await initializeExperiments();
+
         app.listen(PORT, () => {
             logger.info(`Server running on http://localhost:${PORT}`);
             logger.info(`Health check: http://localhost:${PORT}/health`);
@@ -0,0 +1,33 @@
+import { SendResult } from '../email/index';
+
+export interface OutboundSms {
+    to: string;
+    body: string;
+}
+
+export interface OutboundPush {
+    // device tokens
+    to: string[];
+    title: string;
+    body: string;
+    url?: string;
+}
+
+export interface OutboundWebhook {
+    url: string;
+    payload: Record<string, any>;
+    headers?: Record<string, string>;
+}
+
+/**
+ * Delivers one kind of message. Failures come back as a SendResult, like
+ * email transports, rather than as exceptions.
+ */
+export interface MessageTransport<M> {
+    readonly name: string;
+    send(message: M): Promise<SendResult>;
+}
+
+export type SmsTransport = MessageTransport<OutboundSms>;
+export type PushTransport = MessageTransport<OutboundPush>;
+export type WebhookTransport = MessageTransport<OutboundWebhook>;
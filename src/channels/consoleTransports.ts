@@ -0,0 +1,65 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SendResult } from '../email/index';
+import { OutboundPush, OutboundSms, OutboundWebhook, PushTransport, SmsTransport, WebhookTransport } from './channelTransport';
+
+// the same simulated network delay as the console email transport
+const simulateDelay = async (): Promise<void> => {
+    const delay = Math.random() * 2000 + 500;
+    await new Promise(resolve => setTimeout(resolve, delay));
+};
+
+/**
+ * Prints text messages to stdout instead of handing them to an SMS gateway
+ */
+export class ConsoleSmsTransport implements SmsTransport {
+    readonly name = 'console-sms';
+
+    async send(sms: OutboundSms): Promise<SendResult> {
+        await simulateDelay();
+
+        console.log('\n=== SMS ===');
+        console.log(`To: ${sms.to}`);
+        console.log(`Body: ${sms.body}`);
+        console.log('===========\n');
+
+        return { ok: true, provider: this.name, messageId: `console-${uuidv4()}` };
+    }
+}
+
+/**
+ * Prints push notifications to stdout instead of sending them to devices
+ */
+export class ConsolePushTransport implements PushTransport {
+    readonly name = 'console-push';
+
+    async send(push: OutboundPush): Promise<SendResult> {
+        await simulateDelay();
+
+        console.log('\n=== PUSH ===');
+        console.log(`Devices: ${push.to.join(', ')}`);
+        console.log(`Title: ${push.title}`);
+        console.log(`Body: ${push.body}`);
+        if (push.url) {
+            console.log(`Opens: ${push.url}`);
+        }
+        console.log('============\n');
+
+        return { ok: true, provider: this.name, messageId: `console-${uuidv4()}` };
+    }
+}
+
+/**
+ * Prints webhook payloads to stdout; used while no webhook URL is configured
+ */
+export class ConsoleWebhookTransport implements WebhookTransport {
+    readonly name = 'console-webhook';
+
+    async send(webhook: OutboundWebhook): Promise<SendResult> {
+        console.log('\n=== WEBHOOK ===');
+        console.log(`POST ${webhook.url || '(WEBHOOK_CHANNEL_URL not set)'}`);
+        console.log(JSON.stringify(webhook.payload, null, 2));
+        console.log('===============\n');
+
+        return { ok: true, provider: this.name, messageId: `console-${uuidv4()}` };
+    }
+}
@@ -0,0 +1,27 @@
+import { SendResult, httpError, networkError, requestSignal } from '../email/index';
+import { OutboundWebhook, WebhookTransport } from './channelTransport';
+
+/**
+ * POSTs the payload as JSON. Any 2xx response counts as delivered.
+ */
+export class HttpWebhookTransport implements WebhookTransport {
+    readonly name = 'http-webhook';
+
+    async send(webhook: OutboundWebhook): Promise<SendResult> {
+        try {
+            const response = await fetch(webhook.url, {
+                method: 'POST',
+                headers: { ...webhook.headers, 'Content-Type': 'application/json' },
+                body: JSON.stringify(webhook.payload),
+                signal: requestSignal()
+            });
+
+            if (!response.ok) {
+                return httpError(this.name, response.status, await response.text());
+            }
+            return { ok: true, provider: this.name, messageId: response.headers.get('x-request-id') || '' };
+        } catch (error) {
+            return networkError(this.name, error);
+        }
+    }
+}
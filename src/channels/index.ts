@@ -0,0 +1,27 @@
+import { PushTransport, SmsTransport, WebhookTransport } from './channelTransport';
+import { ConsolePushTransport, ConsoleSmsTransport, ConsoleWebhookTransport } from './consoleTransports';
+import { HttpWebhookTransport } from './httpWebhookTransport';
+
+export { MessageTransport, OutboundSms, OutboundPush, OutboundWebhook, SmsTransport, PushTransport, WebhookTransport } from './channelTransport';
+export { ConsoleSmsTransport, ConsolePushTransport, ConsoleWebhookTransport } from './consoleTransports';
+export { HttpWebhookTransport } from './httpWebhookTransport';
+
+export const getWebhookUrl = (): string => {
+    return process.env.WEBHOOK_CHANNEL_URL || '';
+};
+
+// no SMS gateway or push provider is integrated yet; messages go to the console
+export const createSmsTransport = (): SmsTransport => {
+    return new ConsoleSmsTransport();
+};
+
+export const createPushTransport = (): PushTransport => {
+    return new ConsolePushTransport();
+};
+
+/**
+ * POSTs to WEBHOOK_CHANNEL_URL when it is set, otherwise prints the payload
+ */
+export const createWebhookTransport = (): WebhookTransport => {
+    return getWebhookUrl() ? new HttpWebhookTransport() : new ConsoleWebhookTransport();
+};
@@ -1,10 +1,13 @@
 import { Kafka, Producer, Consumer, Admin } from 'kafkajs';
 import winston from 'winston';
 import { KafkaTopics } from '../types';
+import { retryTopic, deadLetterTopic } from '../events/retryPolicy';
 
 // Configure logger
 const logger: winston.Logger = winston.createLogger({
     level: 'info',
+    // jest sets NODE_ENV=test; test runs only report results
+    silent: process.env.NODE_ENV === 'test',
     format: winston.format.combine(
         winston.format.timestamp(),
         winston.format.printf(({ timestamp, level, message }: winston.Logform.TransformableInfo) => {
@@ -41,7 +44,10 @@ export async function createTopics(): Promise<void> {
     try {
         await admin.connect();
 
-        const topicConfigs = Object.values(topics).map(topic => ({
+        // every topic gets a retry topic for delayed redelivery and a dead-letter topic
+        const topicNames = Object.values(topics).flatMap(topic => [topic, retryTopic(topic), deadLetterTopic(topic)]);
+
+        const topicConfigs = topicNames.map(topic => ({
             topic,
             numPartitions: 3,
             replicationFactor: 1
@@ -72,17 +78,21 @@ const producer: Producer = kafka.producer({
     transactionTimeout: 30000
 });
 
-// Consumer instance
-const consumer: Consumer = kafka.consumer({
-    groupId: process.env.KAFKA_GROUP_ID || 'customer-journey-workflow',
-    sessionTimeout: 30000,
-    heartbeatInterval: 3000
-});
+const defaultGroupId: string = process.env.KAFKA_GROUP_ID || 'customer-journey-workflow';
+
+// Consumer factory; each subscription gets its own consumer
+export function createConsumer(groupId: string = defaultGroupId): Consumer {
+    return kafka.consumer({
+        groupId,
+        sessionTimeout: 30000,
+        heartbeatInterval: 3000
+    });
+}
 
 export {
     kafka,
     producer,
-    consumer,
+    defaultGroupId,
     topics,
     logger
 };
@@ -0,0 +1,2 @@
+// base URL of this service as seen from an email client; used for unsubscribe and tracking links
+export const publicBaseUrl: string = (process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`).replace(/\/$/, '');
@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import {
+    listDeadLetters,
+    getDeadLetter as getDeadLetterById,
+    redriveDeadLetter as redriveDeadLetterById,
+    redriveAllDeadLetters,
+    discardDeadLetter as discardDeadLetterById
+} from '../services/deadLetterService';
+import { listSuppressions, addSuppression as addSuppressionEntry, removeSuppression as removeSuppressionEntry } from '../services/consentService';
+
+const getStatusCode = (error: string): number => {
+    if (error.includes('not found')) return 404;
+    if (error.includes('required') || error.includes('Invalid')) return 400;
+    return 500;
+};
+
+export const getDeadLetters = async (req: Request, res: Response): Promise<void> => {
+    const topic = typeof req.query.topic === 'string' ? req.query.topic : undefined;
+    const result = await listDeadLetters(topic);
+    const statusCode = result.success ? 200 : 500;
+    res.status(statusCode).json(result);
+};
+
+export const getDeadLetter = async (req: Request, res: Response): Promise<void> => {
+    const { deadLetterId } = req.params;
+    const result = await getDeadLetterById(deadLetterId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const redriveDeadLetter = async (req: Request, res: Response): Promise<void> => {
+    const { deadLetterId } = req.params;
+    const result = await redriveDeadLetterById(deadLetterId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const redriveDeadLetters = async (req: Request, res: Response): Promise<void> => {
+    const topic = typeof req.query.topic === 'string' ? req.query.topic : undefined;
+    const result = await redriveAllDeadLetters(topic);
+    const statusCode = result.success ? 200 : 500;
+    res.status(statusCode).json(result);
+};
+
+export const discardDeadLetter = async (req: Request, res: Response): Promise<void> => {
+    const { deadLetterId } = req.params;
+    const result = await discardDeadLetterById(deadLetterId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const getSuppressions = async (req: Request, res: Response): Promise<void> => {
+    const result = await listSuppressions();
+    const statusCode = result.success ? 200 : 500;
+    res.status(statusCode).json(result);
+};
+
+export const addSuppression = async (req: Request, res: Response): Promise<void> => {
+    const result = await addSuppressionEntry(req.body);
+    const statusCode = result.success ? 201 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const removeSuppression = async (req: Request, res: Response): Promise<void> => {
+    const { email } = req.params;
+    const result = await removeSuppressionEntry(email);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
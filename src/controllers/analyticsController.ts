@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import { getRevenueReport } from '../services/conversionService';
+import { getJourneyFunnel as buildJourneyFunnel } from '../services/funnelService';
+import { listExperiments, getExperimentResults as buildExperimentResults } from '../services/experimentService';
+import { FunnelQuery } from '../types';
+
+const getStatusCode = (error: string): number => {
+    if (error.includes('not found')) return 404;
+    if (error.startsWith('Internal server error')) return 500;
+    return 400;
+};
+
+// only string query values are passed on; repeated parameters are ignored
+const stringParam = (value: unknown): string | undefined => {
+    return typeof value === 'string' ? value : undefined;
+};
+
+export const getRevenue = async (req: Request, res: Response): Promise<void> => {
+    const journeyId = stringParam(req.query.journeyId);
+    const result = await getRevenueReport(journeyId);
+    const statusCode = result.success ? 200 : 500;
+    res.status(statusCode).json(result);
+};
+
+export const getJourneyFunnel = async (req: Request, res: Response): Promise<void> => {
+    const { journeyId } = req.params;
+    const query: FunnelQuery = {};
+    for (const key of ['from', 'to', 'segment'] as const) {
+        const value = stringParam(req.query[key]);
+        if (value !== undefined) {
+            query[key] = value;
+        }
+    }
+
+    const result = await buildJourneyFunnel(journeyId, query);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const getExperiments = async (req: Request, res: Response): Promise<void> => {
+    const result = await listExperiments();
+    res.status(200).json(result);
+};
+
+export const getExperimentResults = async (req: Request, res: Response): Promise<void> => {
+    const { experimentId } = req.params;
+    const result = await buildExperimentResults(experimentId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
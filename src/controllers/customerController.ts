@@ -5,19 +5,26 @@ import {
     getAllCustomers as getAllCustomersService,
     getCustomerById,
     getCustomerWorkflowStatus,
-    simulateTimePassage as simulateCustomerTimePassage
+    getCustomerScheduledJobs,
+    simulateTimePassage as simulateCustomerTimePassage,
+    recordPurchase,
+    getCustomerPurchases
 } from '../services/customerService';
+import { exportCustomer, eraseCustomer } from '../services/privacyService';
+import { startCustomerImport, listCustomerImports, getCustomerImport as getCustomerImportById } from '../services/customerImportService';
 import { logger } from '../config/kafka';
 import { ApiResponse } from '../types';
 
 const getStatusCode = (error: string): number => {
-    if (error === 'Customer not found') return 404;
-    if (error.includes('required') || error.includes('Invalid')) return 400;
-    return 500;
+    if (error === 'Customer not found' || error === 'Customer import not found') return 404;
+    if (error.includes('already')) return 409;
+    if (error.startsWith('Internal server error')) return 500;
+    return 400;
 };
 
 export const signup = async (req: Request, res: Response): Promise<void> => {
-    const result = await createCustomer(req.body);
+    // clients can pass the browser's time zone in a header instead of the body
+    const result = await createCustomer(req.body, req.get('X-Timezone'));
     const statusCode = result.success ? 201 : getStatusCode(result.error || '');
     res.status(statusCode).json(result);
 };
@@ -49,6 +56,13 @@ export const getWorkflowStatus = async (req: Request, res: Response): Promise<vo
     res.status(statusCode).json(result);
 };
 
+export const getScheduledJobs = async (req: Request, res: Response): Promise<void> => {
+    const { customerId } = req.params;
+    const result = await getCustomerScheduledJobs(customerId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
 export const simulateTimePassage = async (req: Request, res: Response): Promise<void> => {
     try {
         const { customerId } = req.params;
@@ -63,3 +77,55 @@ export const simulateTimePassage = async (req: Request, res: Response): Promise<
         } as ApiResponse);
     }
 };
+
+export const purchase = async (req: Request, res: Response): Promise<void> => {
+    const { customerId } = req.params;
+    const result = await recordPurchase(customerId, req.body);
+    const statusCode = result.success ? 201 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const getPurchases = async (req: Request, res: Response): Promise<void> => {
+    const { customerId } = req.params;
+    const result = await getCustomerPurchases(customerId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const exportCustomerData = async (req: Request, res: Response): Promise<void> => {
+    const { customerId } = req.params;
+    const result = await exportCustomer(customerId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const deleteCustomer = async (req: Request, res: Response): Promise<void> => {
+    const { customerId } = req.params;
+    const result = await eraseCustomer(customerId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+// the request body is the file itself, read as a stream
+export const importCustomers = async (req: Request, res: Response): Promise<void> => {
+    const result = await startCustomerImport(req, {
+        format: typeof req.query.format === 'string' ? req.query.format : undefined,
+        contentType: req.get('Content-Type'),
+        suppressTriggers: typeof req.query.suppressTriggers === 'string' ? req.query.suppressTriggers : undefined
+    });
+    const statusCode = result.success ? 202 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const getCustomerImports = async (req: Request, res: Response): Promise<void> => {
+    const result = await listCustomerImports();
+    const statusCode = result.success ? 200 : 500;
+    res.status(statusCode).json(result);
+};
+
+export const getCustomerImport = async (req: Request, res: Response): Promise<void> => {
+    const { importId } = req.params;
+    const result = await getCustomerImportById(importId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
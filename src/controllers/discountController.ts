@@ -0,0 +1,24 @@
+import { Request, Response } from 'express';
+import { redeemDiscountCode, getCustomerDiscounts as getDiscountsForCustomer } from '../services/discountService';
+
+const getStatusCode = (error: string): number => {
+    if (error.includes('not found')) return 404;
+    if (error.includes('already been redeemed')) return 409;
+    if (error.includes('expired')) return 410;
+    if (error.startsWith('Internal server error')) return 500;
+    return 400;
+};
+
+export const redeemDiscount = async (req: Request, res: Response): Promise<void> => {
+    const { code } = req.params;
+    const result = await redeemDiscountCode(code, req.body || {});
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const getCustomerDiscounts = async (req: Request, res: Response): Promise<void> => {
+    const { customerId } = req.params;
+    const result = await getDiscountsForCustomer(customerId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
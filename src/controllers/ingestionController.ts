@@ -0,0 +1,63 @@
+import { Request, Response } from 'express';
+import {
+    trackEvents,
+    identifyCustomer,
+    listEventSchemas,
+    getEventSchema as getEventSchemaByName,
+    createEventSchema as registerEventSchema,
+    updateEventSchema as replaceEventSchema,
+    deleteEventSchema as removeEventSchema
+} from '../services/ingestionService';
+
+const getStatusCode = (error: string): number => {
+    if (error.includes('not found')) return 404;
+    if (error.includes('already exists') || error.includes('in use')) return 409;
+    if (error.startsWith('Internal server error')) return 500;
+    return 400;
+};
+
+// events are processed asynchronously, so accepted ones get a 202
+export const track = async (req: Request, res: Response): Promise<void> => {
+    const result = await trackEvents(req.body);
+    const statusCode = result.success ? 202 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const identify = async (req: Request, res: Response): Promise<void> => {
+    const result = await identifyCustomer(req.body);
+    const statusCode = result.success ? 202 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const getEventSchemas = async (req: Request, res: Response): Promise<void> => {
+    const result = await listEventSchemas();
+    const statusCode = result.success ? 200 : 500;
+    res.status(statusCode).json(result);
+};
+
+export const getEventSchema = async (req: Request, res: Response): Promise<void> => {
+    const { eventName } = req.params;
+    const result = await getEventSchemaByName(eventName);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const createEventSchema = async (req: Request, res: Response): Promise<void> => {
+    const result = await registerEventSchema(req.body);
+    const statusCode = result.success ? 201 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const updateEventSchema = async (req: Request, res: Response): Promise<void> => {
+    const { eventName } = req.params;
+    const result = await replaceEventSchema(eventName, req.body);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const deleteEventSchema = async (req: Request, res: Response): Promise<void> => {
+    const { eventName } = req.params;
+    const result = await removeEventSchema(eventName);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
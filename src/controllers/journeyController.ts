@@ -0,0 +1,53 @@
+import { Request, Response } from 'express';
+import { getAllJourneys, getJourney as getJourneyDefinition, reloadJourneys as reloadJourneyDefinitions } from '../services/journeyRegistry';
+import { logger } from '../config/kafka';
+import { ApiResponse, JourneyDefinition } from '../types';
+
+export const getJourneys = async (req: Request, res: Response): Promise<void> => {
+    const journeys = getAllJourneys();
+    res.status(200).json({
+        success: true,
+        data: {
+            count: journeys.length,
+            journeys
+        }
+    } as ApiResponse<{ count: number; journeys: JourneyDefinition[] }>);
+};
+
+export const getJourney = async (req: Request, res: Response): Promise<void> => {
+    const { journeyId } = req.params;
+    const journey = getJourneyDefinition(journeyId);
+
+    if (!journey) {
+        res.status(404).json({
+            success: false,
+            error: 'Journey not found'
+        } as ApiResponse);
+        return;
+    }
+
+    res.status(200).json({
+        success: true,
+        data: journey
+    } as ApiResponse<JourneyDefinition>);
+};
+
+export const reloadJourneys = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const journeys = await reloadJourneyDefinitions();
+        res.status(200).json({
+            success: true,
+            message: `Reloaded ${journeys.length} journey definition(s)`,
+            data: {
+                count: journeys.length,
+                journeys
+            }
+        } as ApiResponse<{ count: number; journeys: JourneyDefinition[] }>);
+    } catch (error) {
+        logger.error('Journey reload error:', error);
+        res.status(400).json({
+            success: false,
+            error: (error as Error).message
+        } as ApiResponse);
+    }
+};
@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import {
+    listSegments,
+    getSegment as getSegmentById,
+    createSegment as createSavedSegment,
+    updateSegment as updateSavedSegment,
+    deleteSegment as deleteSavedSegment,
+    getSegmentMembers as evaluateSegmentMembers
+} from '../services/segmentService';
+import { createBroadcast as startBroadcast, listBroadcasts, getBroadcast as getBroadcastById } from '../services/broadcastService';
+
+const getStatusCode = (error: string): number => {
+    if (error.includes('not found')) return 404;
+    if (error.includes('already exists') || error.includes('in use')) return 409;
+    if (error.startsWith('Internal server error')) return 500;
+    return 400;
+};
+
+export const getSegments = async (req: Request, res: Response): Promise<void> => {
+    const result = await listSegments();
+    const statusCode = result.success ? 200 : 500;
+    res.status(statusCode).json(result);
+};
+
+export const getSegment = async (req: Request, res: Response): Promise<void> => {
+    const { segmentId } = req.params;
+    const result = await getSegmentById(segmentId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const createSegment = async (req: Request, res: Response): Promise<void> => {
+    const result = await createSavedSegment(req.body);
+    const statusCode = result.success ? 201 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const updateSegment = async (req: Request, res: Response): Promise<void> => {
+    const { segmentId } = req.params;
+    const result = await updateSavedSegment(segmentId, req.body);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const deleteSegment = async (req: Request, res: Response): Promise<void> => {
+    const { segmentId } = req.params;
+    const result = await deleteSavedSegment(segmentId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const getSegmentMembers = async (req: Request, res: Response): Promise<void> => {
+    const { segmentId } = req.params;
+    const result = await evaluateSegmentMembers(segmentId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const getBroadcasts = async (req: Request, res: Response): Promise<void> => {
+    const result = await listBroadcasts();
+    const statusCode = result.success ? 200 : 500;
+    res.status(statusCode).json(result);
+};
+
+export const getBroadcast = async (req: Request, res: Response): Promise<void> => {
+    const { broadcastId } = req.params;
+    const result = await getBroadcastById(broadcastId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+// the broadcast keeps sending after the response, hence 202
+export const createBroadcast = async (req: Request, res: Response): Promise<void> => {
+    const result = await startBroadcast(req.body);
+    const statusCode = result.success ? 202 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
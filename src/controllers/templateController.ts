@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import {
+    listTemplates,
+    getTemplate as getTemplateById,
+    getTemplateVersion as getTemplateVersionById,
+    createTemplate as createManagedTemplate,
+    updateTemplate as updateManagedTemplate,
+    publishTemplate as publishTemplateVersion,
+    deleteTemplate as deleteManagedTemplate,
+    previewTemplate as previewManagedTemplate
+} from '../services/templateService';
+
+const getStatusCode = (error: string): number => {
+    if (error.includes('not found')) return 404;
+    if (error.includes('already exists') || error.includes('in use')) return 409;
+    if (error.startsWith('Internal server error')) return 500;
+    return 400;
+};
+
+export const getTemplates = async (req: Request, res: Response): Promise<void> => {
+    const result = await listTemplates();
+    const statusCode = result.success ? 200 : 500;
+    res.status(statusCode).json(result);
+};
+
+export const getTemplate = async (req: Request, res: Response): Promise<void> => {
+    const { templateId } = req.params;
+    const result = await getTemplateById(templateId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const getTemplateVersion = async (req: Request, res: Response): Promise<void> => {
+    const { templateId, version } = req.params;
+    const result = await getTemplateVersionById(templateId, Number(version));
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const createTemplate = async (req: Request, res: Response): Promise<void> => {
+    const result = await createManagedTemplate(req.body);
+    const statusCode = result.success ? 201 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const updateTemplate = async (req: Request, res: Response): Promise<void> => {
+    const { templateId } = req.params;
+    const result = await updateManagedTemplate(templateId, req.body);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const publishTemplate = async (req: Request, res: Response): Promise<void> => {
+    const { templateId } = req.params;
+    const version = req.body && req.body.version;
+    const result = await publishTemplateVersion(templateId, Number(version));
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const deleteTemplate = async (req: Request, res: Response): Promise<void> => {
+    const { templateId } = req.params;
+    const result = await deleteManagedTemplate(templateId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const previewTemplate = async (req: Request, res: Response): Promise<void> => {
+    const { templateId } = req.params;
+    const result = await previewManagedTemplate(templateId, req.body || {});
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
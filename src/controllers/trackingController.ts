@@ -0,0 +1,28 @@
+import { Request, Response } from 'express';
+import { TRACKING_PIXEL, recordOpen, recordClick } from '../services/trackingService';
+
+export const trackOpen = async (req: Request, res: Response): Promise<void> => {
+    const { token } = req.params;
+    await recordOpen(token, req.get('user-agent'));
+
+    // never cached, so every open reaches the server; webmail clients load it cross-origin
+    res.set({
+        'Content-Type': 'image/gif',
+        'Cross-Origin-Resource-Policy': 'cross-origin',
+        'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+        'Pragma': 'no-cache'
+    });
+    res.status(200).send(TRACKING_PIXEL);
+};
+
+export const trackClick = async (req: Request, res: Response): Promise<void> => {
+    const { token } = req.params;
+    const result = await recordClick(token, req.get('user-agent'));
+
+    if (!result.success || !result.data) {
+        res.status(400).json(result);
+        return;
+    }
+
+    res.redirect(302, result.data.url);
+};
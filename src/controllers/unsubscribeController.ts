@@ -0,0 +1,68 @@
+import { Request, Response } from 'express';
+import { getUnsubscribeStatus, unsubscribe as unsubscribeByToken } from '../services/consentService';
+
+const escapeHtml = (value: string): string => {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+};
+
+const page = (title: string, body: string): string => `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${title}</title></head>
+<body style="font-family: sans-serif; max-width: 480px; margin: 60px auto;">
+<h2>${title}</h2>
+${body}
+</body>
+</html>`;
+
+/**
+ * Shows a confirmation page. Unsubscribing only happens on POST, so link
+ * scanners that prefetch URLs in emails cannot unsubscribe anyone.
+ */
+export const showUnsubscribe = async (req: Request, res: Response): Promise<void> => {
+    const { token } = req.params;
+    const result = await getUnsubscribeStatus(token);
+
+    if (!result.success || !result.data) {
+        res.status(400).send(page('Invalid link', '<p>This unsubscribe link is invalid or has been altered.</p>'));
+        return;
+    }
+
+    const email = escapeHtml(result.data.email);
+    if (result.data.unsubscribed) {
+        res.status(200).send(page('Already unsubscribed', `<p>${email} will not receive any more emails from us.</p>`));
+        return;
+    }
+
+    res.status(200).send(page('Unsubscribe', `<p>Stop sending emails to ${email}?</p>
+<form method="post" action="/unsubscribe/${encodeURIComponent(token)}"><button type="submit">Unsubscribe</button></form>`));
+};
+
+/**
+ * Unsubscribes from the confirmation form or a mail client's one-click
+ * request (RFC 8058 `List-Unsubscribe=One-Click` body)
+ */
+export const unsubscribe = async (req: Request, res: Response): Promise<void> => {
+    const { token } = req.params;
+    const source = req.body && req.body['List-Unsubscribe'] === 'One-Click' ? 'one-click' : 'link';
+    const result = await unsubscribeByToken(token, source);
+
+    if (!result.success || !result.data) {
+        const statusCode = result.error === 'Invalid unsubscribe link' ? 400 : 500;
+        res.status(statusCode).format({
+            html: () => res.send(page('Unsubscribe failed', `<p>${escapeHtml(result.error || 'Something went wrong')}</p>`)),
+            default: () => res.json(result)
+        });
+        return;
+    }
+
+    const email = escapeHtml(result.data.email);
+    res.status(200).format({
+        html: () => res.send(page('Unsubscribed', `<p>${email} has been unsubscribed and will not receive any more emails from us.</p>`)),
+        default: () => res.json(result)
+    });
+};
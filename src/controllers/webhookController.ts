@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+import {
+    listWebhooks,
+    getWebhook as getWebhookById,
+    createWebhook as createSubscription,
+    updateWebhook as updateSubscription,
+    deleteWebhook as deleteSubscription,
+    getWebhookDeliveries as listDeliveries
+} from '../services/webhookService';
+
+const getStatusCode = (error: string): number => {
+    if (error.includes('not found')) return 404;
+    if (error.startsWith('Internal server error')) return 500;
+    return 400;
+};
+
+export const getWebhooks = async (req: Request, res: Response): Promise<void> => {
+    const result = await listWebhooks();
+    const statusCode = result.success ? 200 : 500;
+    res.status(statusCode).json(result);
+};
+
+export const getWebhook = async (req: Request, res: Response): Promise<void> => {
+    const { webhookId } = req.params;
+    const result = await getWebhookById(webhookId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const createWebhook = async (req: Request, res: Response): Promise<void> => {
+    const result = await createSubscription(req.body);
+    const statusCode = result.success ? 201 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const updateWebhook = async (req: Request, res: Response): Promise<void> => {
+    const { webhookId } = req.params;
+    const result = await updateSubscription(webhookId, req.body);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const deleteWebhook = async (req: Request, res: Response): Promise<void> => {
+    const { webhookId } = req.params;
+    const result = await deleteSubscription(webhookId);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
+
+export const getWebhookDeliveries = async (req: Request, res: Response): Promise<void> => {
+    const { webhookId } = req.params;
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    const limit = typeof req.query.limit === 'string' ? Number(req.query.limit) : undefined;
+    const result = await listDeliveries(webhookId, status, limit);
+    const statusCode = result.success ? 200 : getStatusCode(result.error || '');
+    res.status(statusCode).json(result);
+};
@@ -0,0 +1,28 @@
+import { v4 as uuidv4 } from 'uuid';
+import { EmailTransport, OutboundEmail, SendResult } from './emailTransport';
+
+/**
+ * Prints emails to stdout instead of delivering them (the default in development)
+ */
+export class ConsoleTransport implements EmailTransport {
+    readonly name = 'console';
+
+    async send(email: OutboundEmail): Promise<SendResult> {
+        // Simulate network delay for email sending
+        const delay = Math.random() * 2000 + 500; // 0.5-2.5 seconds
+        await new Promise(resolve => setTimeout(resolve, delay));
+
+        console.log('\n=== EMAIL ===');
+        console.log(`From: ${email.from}`);
+        console.log(`To: ${email.to}`);
+        console.log(`Subject: ${email.subject}`);
+        Object.entries(email.headers || {}).forEach(([name, value]) => console.log(`${name}: ${value}`));
+        console.log('Content:', email.html);
+        if (email.text) {
+            console.log('Plain text:', email.text);
+        }
+        console.log('=============\n');
+
+        return { ok: true, provider: this.name, messageId: `console-${uuidv4()}` };
+    }
+}
@@ -0,0 +1,64 @@
+export interface OutboundEmail {
+    to: string;
+    from: string;
+    subject: string;
+    html: string;
+    text?: string;
+    headers?: Record<string, string>;
+}
+
+export type TransportErrorCode = 'CONFIGURATION' | 'NETWORK' | 'REJECTED' | 'RATE_LIMITED' | 'PROVIDER_ERROR';
+
+export interface TransportError {
+    code: TransportErrorCode;
+    message: string;
+    retryable: boolean;
+    status?: number;
+}
+
+export type SendResult =
+    | { ok: true; provider: string; messageId: string }
+    | { ok: false; provider: string; error: TransportError };
+
+export interface EmailTransport {
+    readonly name: string;
+    send(email: OutboundEmail): Promise<SendResult>;
+}
+
+const requestTimeout: number = parseInt(process.env.TRANSPORT_TIMEOUT_MS || '10000', 10);
+
+// bounds a provider API call, so a hung connection fails the send instead of stalling it
+export const requestSignal = (): AbortSignal => AbortSignal.timeout(requestTimeout);
+
+/**
+ * Maps an HTTP status from a provider API onto a transport error
+ */
+export const httpError = (provider: string, status: number, body: string): SendResult => {
+    let code: TransportErrorCode = 'PROVIDER_ERROR';
+    if (status === 401 || status === 403) code = 'CONFIGURATION';
+    else if (status === 429) code = 'RATE_LIMITED';
+    else if (status >= 400 && status < 500) code = 'REJECTED';
+
+    return {
+        ok: false,
+        provider,
+        error: {
+            code,
+            message: `${provider} responded with ${status}: ${body.slice(0, 500)}`,
+            retryable: status === 429 || status >= 500,
+            status
+        }
+    };
+};
+
+export const networkError = (provider: string, error: unknown): SendResult => ({
+    ok: false,
+    provider,
+    error: {
+        code: 'NETWORK',
+        message: (error as Error).name === 'TimeoutError'
+            ? `${provider} did not respond within ${requestTimeout}ms`
+            : (error as Error).message || String(error),
+        retryable: true
+    }
+});
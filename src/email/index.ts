@@ -0,0 +1,83 @@
+import { logger } from '../config/kafka';
+import { environmentValidator } from '../validation/index';
+import { EmailTransport, OutboundEmail, SendResult } from './emailTransport';
+import { ConsoleTransport } from './consoleTransport';
+import { SmtpTransport } from './smtpTransport';
+import { SendgridTransport } from './sendgridTransport';
+import { MailgunTransport } from './mailgunTransport';
+import { SesTransport } from './sesTransport';
+
+export { EmailTransport, OutboundEmail, SendResult, TransportError, TransportErrorCode, httpError, networkError, requestSignal } from './emailTransport';
+export { ConsoleTransport } from './consoleTransport';
+export { SmtpTransport, SmtpConfig } from './smtpTransport';
+export { SendgridTransport } from './sendgridTransport';
+export { MailgunTransport } from './mailgunTransport';
+export { SesTransport } from './sesTransport';
+export { loadTemplates, renderTemplate, renderSms, renderPush, renderWebhook, validateTemplate } from './templateEngine';
+
+/**
+ * Stands in for a transport whose configuration failed validation, so every
+ * send reports the problem instead of silently falling back to the console.
+ */
+class UnconfiguredTransport implements EmailTransport {
+    constructor(readonly name: string, private reason: string) {}
+
+    async send(email: OutboundEmail): Promise<SendResult> {
+        return {
+            ok: false,
+            provider: this.name,
+            error: { code: 'CONFIGURATION', message: this.reason, retryable: false }
+        };
+    }
+}
+
+export const getFromAddress = (): string => {
+    return process.env.EMAIL_FROM || 'no-reply@example.com';
+};
+
+/**
+ * Picks the transport from EMAIL_SERVICE_ENABLED / EMAIL_PROVIDER and the provider's env vars
+ */
+export const createEmailTransport = (): EmailTransport => {
+    if (process.env.EMAIL_SERVICE_ENABLED !== 'true') {
+        return new ConsoleTransport();
+    }
+
+    const provider = process.env.EMAIL_PROVIDER || 'smtp';
+    const config = {
+        provider,
+        apiKey: process.env.EMAIL_API_KEY || undefined,
+        apiSecret: process.env.EMAIL_API_SECRET || undefined,
+        domain: process.env.EMAIL_DOMAIN || undefined,
+        region: process.env.EMAIL_REGION || undefined,
+        fromEmail: getFromAddress(),
+        smtpConfig: provider === 'smtp' ? {
+            host: process.env.SMTP_HOST || undefined,
+            port: parseInt(process.env.SMTP_PORT || '587', 10),
+            secure: process.env.SMTP_SECURE === 'true',
+            ...(process.env.SMTP_USER ? { auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' } } : {})
+        } : undefined
+    };
+
+    const validation = environmentValidator.validateEmailConfig(config);
+    if (!validation.isValid) {
+        logger.error(`Invalid email configuration for ${provider}: ${validation.error}`);
+        return new UnconfiguredTransport(provider, `Invalid email configuration: ${validation.error}`);
+    }
+
+    switch (provider) {
+        case 'sendgrid':
+            return new SendgridTransport(config.apiKey!);
+        case 'mailgun':
+            return new MailgunTransport(config.apiKey!, config.domain!, config.region);
+        case 'ses':
+            return new SesTransport(config.apiKey!, config.apiSecret!, config.region);
+        default:
+            return new SmtpTransport({
+                host: config.smtpConfig!.host!,
+                port: config.smtpConfig!.port,
+                secure: config.smtpConfig!.secure,
+                auth: config.smtpConfig!.auth
+            });
+    }
+};
@@ -0,0 +1,43 @@
+import { EmailTransport, OutboundEmail, SendResult, httpError, networkError, requestSignal } from './emailTransport';
+
+export class MailgunTransport implements EmailTransport {
+    readonly name = 'mailgun';
+    private baseUrl: string;
+
+    constructor(private apiKey: string, private domain: string, region: string = 'us') {
+        this.baseUrl = region === 'eu' ? 'https://api.eu.mailgun.net' : 'https://api.mailgun.net';
+    }
+
+    async send(email: OutboundEmail): Promise<SendResult> {
+        const form = new URLSearchParams({
+            from: email.from,
+            to: email.to,
+            subject: email.subject,
+            html: email.html
+        });
+        if (email.text) {
+            form.append('text', email.text);
+        }
+        Object.entries(email.headers || {}).forEach(([name, value]) => form.append(`h:${name}`, value));
+
+        try {
+            const response = await fetch(`${this.baseUrl}/v3/${this.domain}/messages`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Basic ${Buffer.from(`api:${this.apiKey}`).toString('base64')}`,
+                    'Content-Type': 'application/x-www-form-urlencoded'
+                },
+                body: form.toString(),
+                signal: requestSignal()
+            });
+
+            if (!response.ok) {
+                return httpError(this.name, response.status, await response.text());
+            }
+            const body = await response.json() as { id?: string };
+            return { ok: true, provider: this.name, messageId: body.id || '' };
+        } catch (error) {
+            return networkError(this.name, error);
+        }
+    }
+}
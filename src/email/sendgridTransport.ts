@@ -0,0 +1,41 @@
+import { EmailTransport, OutboundEmail, SendResult, httpError, networkError, requestSignal } from './emailTransport';
+
+const SENDGRID_URL = 'https://api.sendgrid.com/v3/mail/send';
+
+export class SendgridTransport implements EmailTransport {
+    readonly name = 'sendgrid';
+
+    constructor(private apiKey: string) {}
+
+    async send(email: OutboundEmail): Promise<SendResult> {
+        const content = [{ type: 'text/html', value: email.html }];
+        if (email.text) {
+            content.unshift({ type: 'text/plain', value: email.text });
+        }
+
+        try {
+            const response = await fetch(SENDGRID_URL, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${this.apiKey}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    personalizations: [{ to: [{ email: email.to }] }],
+                    from: { email: email.from },
+                    subject: email.subject,
+                    content,
+                    headers: email.headers
+                }),
+                signal: requestSignal()
+            });
+
+            if (!response.ok) {
+                return httpError(this.name, response.status, await response.text());
+            }
+            return { ok: true, provider: this.name, messageId: response.headers.get('x-message-id') || '' };
+        } catch (error) {
+            return networkError(this.name, error);
+        }
+    }
+}
@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import { EmailTransport, OutboundEmail, SendResult, httpError, networkError, requestSignal } from './emailTransport';
+
+const SES_PATH = '/v2/email/outbound-emails';
+
+const hmac = (key: crypto.BinaryLike, data: string): Buffer => crypto.createHmac('sha256', key).update(data).digest();
+const sha256 = (data: string): string => crypto.createHash('sha256').update(data).digest('hex');
+
+/**
+ * Sends through the SES v2 HTTP API, signing requests with AWS Signature Version 4
+ */
+export class SesTransport implements EmailTransport {
+    readonly name = 'ses';
+    private host: string;
+
+    constructor(private accessKeyId: string, private secretAccessKey: string, private region: string = 'us-east-1') {
+        this.host = `email.${region}.amazonaws.com`;
+    }
+
+    async send(email: OutboundEmail): Promise<SendResult> {
+        const body = JSON.stringify({
+            FromEmailAddress: email.from,
+            Destination: { ToAddresses: [email.to] },
+            Content: {
+                Simple: {
+                    Subject: { Data: email.subject, Charset: 'UTF-8' },
+                    Body: {
+                        Html: { Data: email.html, Charset: 'UTF-8' },
+                        ...(email.text ? { Text: { Data: email.text, Charset: 'UTF-8' } } : {})
+                    },
+                    Headers: Object.entries(email.headers || {}).map(([Name, Value]) => ({ Name, Value }))
+                }
+            }
+        });
+
+        try {
+            const response = await fetch(`https://${this.host}${SES_PATH}`, {
+                method: 'POST',
+                headers: this.signedHeaders(body),
+                body,
+                signal: requestSignal()
+            });
+
+            if (!response.ok) {
+                return httpError(this.name, response.status, await response.text());
+            }
+            const result = await response.json() as { MessageId?: string };
+            return { ok: true, provider: this.name, messageId: result.MessageId || '' };
+        } catch (error) {
+            return networkError(this.name, error);
+        }
+    }
+
+    private signedHeaders(body: string): Record<string, string> {
+        const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const dateStamp = amzDate.slice(0, 8);
+        const scope = `${dateStamp}/${this.region}/ses/aws4_request`;
+        const signedHeaderNames = 'content-type;host;x-amz-date';
+
+        const canonicalRequest = [
+            'POST',
+            SES_PATH,
+            '',
+            `content-type:application/json\nhost:${this.host}\nx-amz-date:${amzDate}\n`,
+            signedHeaderNames,
+            sha256(body)
+        ].join('\n');
+
+        const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+        const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.secretAccessKey}`, dateStamp), this.region), 'ses'), 'aws4_request');
+        const signature = hmac(signingKey, stringToSign).toString('hex');
+
+        return {
+            'Content-Type': 'application/json',
+            'X-Amz-Date': amzDate,
+            'Authorization': `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames}, Signature=${signature}`
+        };
+    }
+}
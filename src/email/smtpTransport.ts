@@ -0,0 +1,58 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { EmailTransport, OutboundEmail, SendResult, networkError } from './emailTransport';
+
+export interface SmtpConfig {
+    host: string;
+    port: number;
+    secure?: boolean;
+    auth?: {
+        user: string;
+        pass: string;
+    };
+}
+
+/**
+ * Delivers over SMTP; point SMTP_HOST/SMTP_PORT at a catcher such as MailHog for local testing
+ */
+export class SmtpTransport implements EmailTransport {
+    readonly name = 'smtp';
+    private transporter: Transporter;
+
+    constructor(config: SmtpConfig) {
+        this.transporter = nodemailer.createTransport(config);
+    }
+
+    async send(email: OutboundEmail): Promise<SendResult> {
+        try {
+            const info = await this.transporter.sendMail(email);
+
+            if (info.rejected && info.rejected.length > 0) {
+                return {
+                    ok: false,
+                    provider: this.name,
+                    error: {
+                        code: 'REJECTED',
+                        message: `SMTP server rejected recipient(s): ${info.rejected.join(', ')}`,
+                        retryable: false
+                    }
+                };
+            }
+            return { ok: true, provider: this.name, messageId: info.messageId };
+        } catch (error: any) {
+            // 5xx SMTP replies are permanent, everything else (4xx, connection errors) may succeed later
+            if (typeof error.responseCode === 'number') {
+                return {
+                    ok: false,
+                    provider: this.name,
+                    error: {
+                        code: error.responseCode >= 500 ? 'REJECTED' : 'PROVIDER_ERROR',
+                        message: error.message,
+                        retryable: error.responseCode < 500,
+                        status: error.responseCode
+                    }
+                };
+            }
+            return networkError(this.name, error);
+        }
+    }
+}
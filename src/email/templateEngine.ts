@@ -0,0 +1,201 @@
+import fs from 'fs';
+import path from 'path';
+import Handlebars from 'handlebars';
+import { workflowValidator, ValidationResult } from '../validation/index';
+import { htmlToText } from '../utils/htmlToText';
+import { CustomerData, EmailTemplate, PushTemplate, RenderedEmail } from '../types';
+
+const templatesDir: string = process.env.EMAIL_TEMPLATES_DIR || path.join(__dirname, '../../templates');
+
+interface CompiledTemplate {
+    subject: HandlebarsTemplateDelegate;
+    html: HandlebarsTemplateDelegate;
+    text?: HandlebarsTemplateDelegate;
+    sms?: HandlebarsTemplateDelegate;
+    push?: { title: HandlebarsTemplateDelegate; body: HandlebarsTemplateDelegate; url?: HandlebarsTemplateDelegate };
+}
+
+const handlebars = Handlebars.create();
+const compiled: WeakMap<EmailTemplate, CompiledTemplate> = new WeakMap();
+
+// only the HTML part is HTML; everything else must not be entity-escaped
+const compilePlain = (source: string): HandlebarsTemplateDelegate => {
+    return handlebars.compile(source, { noEscape: true });
+};
+
+const compileTemplate = (template: EmailTemplate): CompiledTemplate => {
+    let result = compiled.get(template);
+    if (!result) {
+        result = {
+            subject: handlebars.compile(template.subject, { noEscape: true, strict: false }),
+            html: handlebars.compile(template.html),
+            text: template.text ? compilePlain(template.text) : undefined,
+            sms: template.sms ? compilePlain(template.sms) : undefined,
+            push: template.push ? {
+                title: compilePlain(template.push.title),
+                body: compilePlain(template.push.body),
+                url: template.push.url ? compilePlain(template.push.url) : undefined
+            } : undefined
+        };
+        compiled.set(template, result);
+    }
+    return result;
+};
+
+/**
+ * Validates a template's fields and checks that every part parses as Handlebars
+ */
+export const validateTemplate = (template: EmailTemplate): ValidationResult => {
+    const validation = workflowValidator.validateEmailTemplate(template);
+    if (!validation.isValid) {
+        return validation;
+    }
+
+    const parts: Array<[string, string | undefined]> = [
+        ['subject', template.subject],
+        ['html', template.html],
+        ['text', template.text],
+        ['sms', template.sms],
+        ['push title', template.push?.title],
+        ['push body', template.push?.body],
+        ['push url', template.push?.url],
+        ...collectStrings(template.webhook || {}).map((source): [string, string] => ['webhook', source])
+    ];
+
+    for (const [part, source] of parts) {
+        if (!source) {
+            continue;
+        }
+        try {
+            handlebars.precompile(source);
+        } catch (error) {
+            return { isValid: false, error: `Invalid ${part} template: ${(error as Error).message}` };
+        }
+    }
+    return { isValid: true };
+};
+
+const collectStrings = (value: any): string[] => {
+    if (typeof value === 'string') {
+        return [value];
+    }
+    if (value && typeof value === 'object') {
+        return Object.values(value).flatMap(collectStrings);
+    }
+    return [];
+};
+
+const buildContext = (template: EmailTemplate, customer: CustomerData, data: Record<string, any>) => ({
+    customer,
+    data: { ...template.defaults, ...data }
+});
+
+/**
+ * Renders all parts of a template. HTML output is auto-escaped; when the
+ * template has no authored plain-text part one is generated from the HTML.
+ */
+export const renderTemplate = (template: EmailTemplate, customer: CustomerData, data: Record<string, any> = {}): RenderedEmail => {
+    const parts = compileTemplate(template);
+    const context = buildContext(template, customer, data);
+
+    const html = parts.html(context).trim();
+    return {
+        subject: parts.subject(context).trim(),
+        html,
+        text: parts.text ? parts.text(context).trim() : htmlToText(html)
+    };
+};
+
+/**
+ * Renders the SMS part of a template; undefined when the template has none
+ */
+export const renderSms = (template: EmailTemplate, customer: CustomerData, data: Record<string, any> = {}): string | undefined => {
+    const sms = compileTemplate(template).sms;
+    return sms ? sms(buildContext(template, customer, data)).trim() : undefined;
+};
+
+/**
+ * Renders the push part of a template; undefined when the template has none
+ */
+export const renderPush = (template: EmailTemplate, customer: CustomerData, data: Record<string, any> = {}): PushTemplate | undefined => {
+    const push = compileTemplate(template).push;
+    if (!push) {
+        return undefined;
+    }
+
+    const context = buildContext(template, customer, data);
+    const url = push.url ? push.url(context).trim() : '';
+    return {
+        title: push.title(context).trim(),
+        body: push.body(context).trim(),
+        ...(url ? { url } : {})
+    };
+};
+
+/**
+ * Renders every string in the webhook part of a template, keeping the
+ * payload's shape; undefined when the template has none
+ */
+export const renderWebhook = (template: EmailTemplate, customer: CustomerData, data: Record<string, any> = {}): Record<string, any> | undefined => {
+    if (!template.webhook) {
+        return undefined;
+    }
+
+    const context = buildContext(template, customer, data);
+    const render = (value: any): any => {
+        if (typeof value === 'string') {
+            return compilePlain(value)(context);
+        }
+        if (Array.isArray(value)) {
+            return value.map(render);
+        }
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, render(child)]));
+        }
+        return value;
+    };
+    return render(template.webhook);
+};
+
+const readOptional = (filePath: string): string | undefined => {
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : undefined;
+};
+
+/**
+ * Loads every template directory: template.json + html.hbs, and optionally
+ * text.hbs, sms.hbs, push.json and webhook.json for the other channels
+ */
+export const loadTemplates = (dir: string = templatesDir): Record<string, EmailTemplate> => {
+    const templates: Record<string, EmailTemplate> = {};
+
+    const entries = fs.readdirSync(dir, { withFileTypes: true }).filter(entry => entry.isDirectory());
+    for (const entry of entries) {
+        const templateDir = path.join(dir, entry.name);
+        const metaPath = path.join(templateDir, 'template.json');
+        if (!fs.existsSync(metaPath)) {
+            continue;
+        }
+
+        const meta = JSON.parse(fs.readFileSync(metaPath, 'utf8'));
+        const text = readOptional(path.join(templateDir, 'text.hbs'));
+        const sms = readOptional(path.join(templateDir, 'sms.hbs'));
+        const push = readOptional(path.join(templateDir, 'push.json'));
+        const webhook = readOptional(path.join(templateDir, 'webhook.json'));
+        const template: EmailTemplate = {
+            ...meta,
+            html: fs.readFileSync(path.join(templateDir, 'html.hbs'), 'utf8'),
+            ...(text ? { text } : {}),
+            ...(sms ? { sms } : {}),
+            ...(push ? { push: JSON.parse(push) } : {}),
+            ...(webhook ? { webhook: JSON.parse(webhook) } : {})
+        };
+
+        const validation = validateTemplate(template);
+        if (!validation.isValid) {
+            throw new Error(`Invalid email template ${entry.name}: ${validation.error}`);
+        }
+        templates[template.name] = template;
+    }
+
+    return templates;
+};
@@ -0,0 +1,21 @@
+export interface BusMessage {
+    key: string;
+    value: string;
+    headers: Record<string, string>;
+}
+
+export type MessageHandler = (topic: string, message: BusMessage) => Promise<void>;
+
+export interface SubscribeOptions {
+    // subscribers sharing a group split the messages; separate groups each get every message
+    groupId?: string;
+    fromBeginning?: boolean;
+}
+
+export interface EventBus {
+    readonly name: string;
+    connect(): Promise<void>;
+    disconnect(): Promise<void>;
+    publish(topic: string, messages: BusMessage[]): Promise<void>;
+    subscribe(topics: string[], handler: MessageHandler, options?: SubscribeOptions): Promise<void>;
+}
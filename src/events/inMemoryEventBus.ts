@@ -0,0 +1,96 @@
+import { defaultGroupId, logger } from '../config/kafka';
+import { EventBus, BusMessage, MessageHandler, SubscribeOptions } from './eventBus';
+
+interface Subscription {
+    topics: Set<string>;
+    handler: MessageHandler;
+}
+
+/**
+ * In-process stand-in for Kafka. Mirrors the parts of its semantics the
+ * engine relies on: every consumer group receives each message once, messages
+ * with the same key are handled in publish order, and delivery is
+ * asynchronous so publishers never run handlers on their own call stack.
+ */
+export class InMemoryEventBus implements EventBus {
+    readonly name = 'in-memory';
+    private groups: Map<string, Subscription[]> = new Map();
+    private keyQueues: Map<string, Promise<void>> = new Map();
+    private connected: boolean = false;
+
+    async connect(): Promise<void> {
+        this.connected = true;
+    }
+
+    async disconnect(): Promise<void> {
+        this.connected = false;
+        await this.drain();
+        this.groups.clear();
+    }
+
+    async publish(topic: string, messages: BusMessage[]): Promise<void> {
+        if (!this.connected) {
+            throw new Error('In-memory event bus not connected');
+        }
+
+        for (const message of messages) {
+            for (const [groupId, members] of this.groups) {
+                const subscribed = members.filter(member => member.topics.has(topic));
+                if (subscribed.length === 0) {
+                    continue;
+                }
+
+                // like a partition assignment: one key always lands on the same member
+                const member = subscribed[this.hashKey(message.key) % subscribed.length];
+                this.enqueue(`${groupId}|${topic}|${message.key}`, () => member.handler(topic, {
+                    key: message.key,
+                    value: message.value,
+                    headers: { ...message.headers }
+                }));
+            }
+        }
+    }
+
+    async subscribe(topics: string[], handler: MessageHandler, options: SubscribeOptions = {}): Promise<void> {
+        const groupId = options.groupId || defaultGroupId;
+        const members = this.groups.get(groupId) || [];
+
+        members.push({ topics: new Set(topics), handler });
+        this.groups.set(groupId, members);
+    }
+
+    /**
+     * Resolves once every message published so far has been handled
+     */
+    async drain(): Promise<void> {
+        while (this.keyQueues.size > 0) {
+            await Promise.all(Array.from(this.keyQueues.values()));
+        }
+    }
+
+    private enqueue(queueKey: string, deliver: () => Promise<void>): void {
+        const previous = this.keyQueues.get(queueKey) || Promise.resolve();
+
+        const next = previous
+            .then(() => new Promise<void>(resolve => setImmediate(resolve)))
+            .then(deliver)
+            .catch(error => {
+                logger.error('Error processing message:', error);
+            })
+            .finally(() => {
+                if (this.keyQueues.get(queueKey) === next) {
+                    this.keyQueues.delete(queueKey);
+                }
+            });
+
+        this.keyQueues.set(queueKey, next);
+    }
+
+    private hashKey(key: string): number {
+        let hash = 0;
+        for (let i = 0; i < key.length; i++) {
+            hash = (hash * 31 + key.charCodeAt(i)) | 0;
+        }
+        return Math.abs(hash);
+    }
+}
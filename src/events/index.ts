@@ -0,0 +1,5 @@
+// Export the event bus interface and its implementations
+export { EventBus, BusMessage, MessageHandler, SubscribeOptions } from './eventBus';
+export { KafkaEventBus } from './kafkaEventBus';
+export { InMemoryEventBus } from './inMemoryEventBus';
+export { RETRY_HEADERS, retryTopic, deadLetterTopic, getMaxAttempts, getRetryDelay, stripRetryHeaders } from './retryPolicy';
@@ -0,0 +1,56 @@
+import { Consumer, IHeaders } from 'kafkajs';
+import { producer, createConsumer, logger } from '../config/kafka';
+import { EventBus, BusMessage, MessageHandler, SubscribeOptions } from './eventBus';
+
+const decodeHeaders = (headers: IHeaders = {}): Record<string, string> => {
+    const decoded: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+        if (value !== undefined) {
+            decoded[name] = Array.isArray(value) ? value.map(item => item.toString()).join(',') : value.toString();
+        }
+    }
+    return decoded;
+};
+
+export class KafkaEventBus implements EventBus {
+    readonly name = 'kafka';
+    private consumers: Consumer[] = [];
+
+    async connect(): Promise<void> {
+        await producer.connect();
+    }
+
+    async disconnect(): Promise<void> {
+        await Promise.all(this.consumers.map(consumer => consumer.disconnect()));
+        this.consumers = [];
+        await producer.disconnect();
+    }
+
+    async publish(topic: string, messages: BusMessage[]): Promise<void> {
+        await producer.send({ topic, messages });
+    }
+
+    async subscribe(topics: string[], handler: MessageHandler, options: SubscribeOptions = {}): Promise<void> {
+        const consumer = createConsumer(options.groupId);
+
+        await consumer.connect();
+        this.consumers.push(consumer);
+
+        await consumer.subscribe({ topics, fromBeginning: options.fromBeginning || false });
+        await consumer.run({
+            eachMessage: async ({ topic, message }) => {
+                try {
+                    await handler(topic, {
+                        key: message.key?.toString() || '',
+                        value: message.value?.toString() || '',
+                        headers: decodeHeaders(message.headers)
+                    });
+                } catch (error) {
+                    // rethrown so the offset is not committed and kafkajs delivers the message again
+                    logger.error('Error processing message:', error);
+                    throw error;
+                }
+            }
+        });
+    }
+}
@@ -0,0 +1,33 @@
+import { getRetryDelay, getMaxAttempts, stripRetryHeaders, retryTopic, deadLetterTopic, RETRY_HEADERS } from './retryPolicy';
+
+describe('retry policy with the default settings', () => {
+    it('doubles the backoff with every attempt', () => {
+        expect([1, 2, 3, 4].map(getRetryDelay)).toEqual([1000, 2000, 4000, 8000]);
+    });
+
+    it('caps the backoff at the maximum delay', () => {
+        expect(getRetryDelay(6)).toBe(30000);
+        expect(getRetryDelay(20)).toBe(30000);
+    });
+
+    it('gives up after the configured number of attempts', () => {
+        expect(getMaxAttempts()).toBe(3);
+    });
+
+    it('names the retry and dead-letter companions of a topic', () => {
+        expect(retryTopic('customer-events')).toBe('customer-events.retry');
+        expect(deadLetterTopic('customer-events')).toBe('customer-events.dlq');
+    });
+
+    it('strips retry bookkeeping but keeps the original headers', () => {
+        const headers = {
+            'event-type': 'CUSTOMER_SIGNUP',
+            [RETRY_HEADERS.ATTEMPT]: '2',
+            [RETRY_HEADERS.RETRY_AFTER]: '1700000000000',
+            [RETRY_HEADERS.ORIGINAL_TOPIC]: 'customer-events',
+            [RETRY_HEADERS.CONSUMER_GROUP]: 'customer-journey-workflow'
+        };
+
+        expect(stripRetryHeaders(headers)).toEqual({ 'event-type': 'CUSTOMER_SIGNUP' });
+    });
+});
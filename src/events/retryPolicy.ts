@@ -0,0 +1,36 @@
+const maxAttempts: number = parseInt(process.env.RETRY_MAX_ATTEMPTS || '3', 10);
+const initialDelay: number = parseInt(process.env.RETRY_INITIAL_DELAY_MS || '1000', 10);
+const backoffMultiplier: number = parseFloat(process.env.RETRY_BACKOFF_MULTIPLIER || '2');
+const maxDelay: number = parseInt(process.env.RETRY_MAX_DELAY_MS || '30000', 10);
+
+export const RETRY_HEADERS = {
+    ATTEMPT: 'retry-attempt',
+    RETRY_AFTER: 'retry-after',
+    ORIGINAL_TOPIC: 'original-topic',
+    // the consumer group that failed the message; the other groups sharing the retry topic skip it
+    CONSUMER_GROUP: 'retry-group',
+    ERROR: 'dlq-error',
+    FAILED_AT: 'dlq-failed-at'
+};
+
+export const retryTopic = (topic: string): string => `${topic}.retry`;
+
+export const deadLetterTopic = (topic: string): string => `${topic}.dlq`;
+
+export const getMaxAttempts = (): number => maxAttempts;
+
+/**
+ * Exponential backoff before the given retry attempt (1-based), capped at RETRY_MAX_DELAY_MS
+ */
+export const getRetryDelay = (attempt: number): number => {
+    return Math.min(initialDelay * Math.pow(backoffMultiplier, attempt - 1), maxDelay);
+};
+
+/**
+ * Headers describing where a message originally came from, minus retry/DLQ bookkeeping
+ */
+export const stripRetryHeaders = (headers: Record<string, string>): Record<string, string> => {
+    const stripped = { ...headers };
+    Object.values(RETRY_HEADERS).forEach(name => delete stripped[name]);
+    return stripped;
+};
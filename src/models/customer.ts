@@ -1,4 +1,9 @@
-import { CustomerData, WorkflowState, CustomerMetadata } from '../types';
+import { ChannelName, CustomerData, CustomerPreferences, WorkflowState, CustomerMetadata, JourneyProgress, SentEmailRecord, WaitState } from '../types';
+
+const EMAIL_HISTORY_LIMIT = 50;
+
+// identify traits that set a profile field rather than being stored as traits
+const PROFILE_TRAITS = ['name', 'email', 'timezone', 'phone', 'pushTokens'];
 
 export class Customer {
   public id: string;
@@ -6,6 +11,10 @@ export class Customer {
   public name: string;
   public signupDate: string;
   public lastActivity: string;
+  public timezone?: string;
+  public phone?: string;
+  public pushTokens?: string[];
+  public traits: Record<string, any>;
   public preferences: Record<string, any>;
   public workflowState: WorkflowState;
   public metadata: CustomerMetadata;
@@ -16,13 +25,13 @@ export class Customer {
     this.name = data.name;
     this.signupDate = data.signupDate || new Date().toISOString();
     this.lastActivity = data.lastActivity || new Date().toISOString();
+    this.timezone = data.timezone;
+    this.phone = data.phone;
+    this.pushTokens = data.pushTokens;
+    this.traits = data.traits || {};
     this.preferences = data.preferences || {};
     this.workflowState = data.workflowState || {
-      currentStep: 0,
-      completedSteps: [],
-      welcomeEmailSent: false,
-      discountCodeSent: false,
-      reminderSent: false,
+      journeys: {},
       lastEmailSent: null
     };
     this.metadata = data.metadata || {};
@@ -32,19 +41,127 @@ export class Customer {
     this.lastActivity = new Date().toISOString();
   }
 
+  // profile fields are updated in place, anything else is kept as a trait; null clears either
+  applyTraits(traits: Record<string, any>): void {
+    for (const [key, value] of Object.entries(traits)) {
+      if (PROFILE_TRAITS.includes(key)) {
+        Object.assign(this, { [key]: value === null ? undefined : value });
+      } else if (value === null) {
+        delete this.traits[key];
+      } else {
+        this.traits[key] = value;
+      }
+    }
+  }
+
+  // merges preferences from elsewhere, such as an import; an opt-out already on record is never lifted
+  mergePreferences(preferences: CustomerPreferences): void {
+    const channels = { ...this.preferences.channels, ...preferences.channels };
+    for (const [channel, allowed] of Object.entries(this.preferences.channels || {})) {
+      if (allowed === false) {
+        channels[channel as ChannelName] = false;
+      }
+    }
+
+    this.preferences = {
+      ...this.preferences,
+      ...preferences,
+      ...(Object.keys(channels).length > 0 ? { channels } : {}),
+      ...(this.preferences.notifications === false ? { notifications: false } : {})
+    };
+  }
+
   updateWorkflowState(updates: Partial<WorkflowState>): void {
     this.workflowState = { ...this.workflowState, ...updates };
   }
 
-  markStepCompleted(stepNumber: number): void {
-    if (!this.workflowState.completedSteps.includes(stepNumber)) {
-      this.workflowState.completedSteps.push(stepNumber);
+  recordEmailSent(record: SentEmailRecord): void {
+    const history = [...(this.workflowState.emailHistory || []), record];
+    this.workflowState = {
+      ...this.workflowState,
+      lastEmailSent: record.sentAt,
+      emailHistory: history.slice(-EMAIL_HISTORY_LIMIT)
+    };
+  }
+
+  // the latest email sent no earlier than windowMs before the given time
+  getLastEmailSentWithin(before: Date, windowMs: number): SentEmailRecord | null {
+    const end = before.getTime();
+    const history = this.workflowState.emailHistory || [];
+
+    for (let i = history.length - 1; i >= 0; i--) {
+      const sentAt = Date.parse(history[i].sentAt);
+      if (sentAt <= end) {
+        return sentAt >= end - windowMs ? history[i] : null;
+      }
+    }
+    return null;
+  }
+
+  getJourneyProgress(journeyId: string): JourneyProgress {
+    if (!this.workflowState.journeys[journeyId]) {
+      this.workflowState.journeys[journeyId] = {
+        currentStep: 0,
+        completedSteps: [],
+        startedAt: new Date().toISOString(),
+        stepCompletedAt: {},
+        stepOccurrences: {}
+      };
     }
-    this.workflowState.currentStep = Math.max(this.workflowState.currentStep, stepNumber + 1);
+    return this.workflowState.journeys[journeyId];
   }
 
-  isStepCompleted(stepNumber: number): boolean {
-    return this.workflowState.completedSteps.includes(stepNumber);
+  getStepOccurrences(journeyId: string, stepNumber: number): number {
+    const progress = this.workflowState.journeys[journeyId];
+    return progress?.stepOccurrences?.[stepNumber] || 0;
+  }
+
+  markStepCompleted(journeyId: string, stepNumber: number, outcome?: string): void {
+    const progress = this.getJourneyProgress(journeyId);
+    if (!progress.completedSteps.includes(stepNumber)) {
+      progress.completedSteps.push(stepNumber);
+    }
+    progress.stepCompletedAt[stepNumber] = new Date().toISOString();
+    if (outcome) {
+      progress.stepOutcomes = { ...progress.stepOutcomes, [stepNumber]: outcome };
+    }
+    progress.stepOccurrences = {
+      ...progress.stepOccurrences,
+      [stepNumber]: this.getStepOccurrences(journeyId, stepNumber) + 1
+    };
+    progress.currentStep = Math.max(progress.currentStep, stepNumber + 1);
+  }
+
+  setCurrentNode(journeyId: string, stepNumber: number): void {
+    this.getJourneyProgress(journeyId).currentNode = stepNumber;
+  }
+
+  // a customer still parked on a wait step stays there when another path ends
+  endPath(journeyId: string): void {
+    const progress = this.getJourneyProgress(journeyId);
+    progress.currentNode = progress.waitingFor ? progress.waitingFor.stepId : null;
+  }
+
+  getWaitState(journeyId: string): WaitState | undefined {
+    return this.workflowState.journeys[journeyId]?.waitingFor;
+  }
+
+  startWaiting(journeyId: string, wait: WaitState): void {
+    const progress = this.getJourneyProgress(journeyId);
+    progress.waitingFor = wait;
+    progress.currentNode = wait.stepId;
+  }
+
+  stopWaiting(journeyId: string): void {
+    const progress = this.workflowState.journeys[journeyId];
+    if (progress) {
+      delete progress.waitingFor;
+    }
+  }
+
+  isStepCompleted(journeyId: string, stepNumber: number): boolean {
+    const progress = this.workflowState.journeys[journeyId];
+    return !!progress && progress.completedSteps.includes(stepNumber);
   }
 
   getDaysSinceSignup(): number {
@@ -63,6 +180,22 @@ export class Customer {
     return diffDays;
   }
 
+  toProfile(): Omit<CustomerData, 'workflowState'> {
+    return {
+      id: this.id,
+      email: this.email,
+      name: this.name,
+      signupDate: this.signupDate,
+      lastActivity: this.lastActivity,
+      ...(this.timezone ? { timezone: this.timezone } : {}),
+      ...(this.phone ? { phone: this.phone } : {}),
+      ...(this.pushTokens ? { pushTokens: this.pushTokens } : {}),
+      traits: this.traits,
+      preferences: this.preferences,
+      metadata: this.metadata
+    };
+  }
+
   toJSON(): CustomerData {
     return {
       id: this.id,
@@ -70,6 +203,10 @@ export class Customer {
       name: this.name,
       signupDate: this.signupDate,
       lastActivity: this.lastActivity,
+      ...(this.timezone ? { timezone: this.timezone } : {}),
+      ...(this.phone ? { phone: this.phone } : {}),
+      ...(this.pushTokens ? { pushTokens: this.pushTokens } : {}),
+      traits: this.traits,
       preferences: this.preferences,
       workflowState: this.workflowState,
       metadata: this.metadata,
@@ -0,0 +1,28 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { Broadcast } from '../types';
+
+export interface BroadcastRepository {
+    findById(broadcastId: string): Promise<Broadcast | undefined>;
+    findAll(): Promise<Broadcast[]>;
+    save(broadcast: Broadcast): Promise<void>;
+}
+
+export class StoreBroadcastRepository implements BroadcastRepository {
+    constructor(private store: KeyValueStore<Broadcast>) {}
+
+    async findById(broadcastId: string): Promise<Broadcast | undefined> {
+        return this.store.get(broadcastId);
+    }
+
+    // newest first
+    async findAll(): Promise<Broadcast[]> {
+        const broadcasts = await this.store.getAll();
+        return broadcasts.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    async save(broadcast: Broadcast): Promise<void> {
+        await this.store.set(broadcast.id, broadcast);
+    }
+}
+
+export default new StoreBroadcastRepository(createStore<Broadcast>('broadcasts'));
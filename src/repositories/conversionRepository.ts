@@ -0,0 +1,71 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { Conversion, OrderClaim } from '../types';
+
+export interface ConversionRepository {
+    findByOrderId(orderId: string): Promise<Conversion | undefined>;
+    findByCustomerId(customerId: string): Promise<Conversion[]>;
+    findAll(): Promise<Conversion[]>;
+    create(conversion: Conversion): Promise<boolean>;
+    claimOrder(claim: OrderClaim): Promise<boolean>;
+    releaseOrder(orderId: string): Promise<void>;
+    deleteByCustomerId(customerId: string): Promise<number>;
+}
+
+/**
+ * Recorded conversions, plus a claim per order. The purchase API claims the
+ * order with an atomic insert, so two requests for the same order cannot both
+ * be accepted while the first one's event is still on its way.
+ */
+export class StoreConversionRepository implements ConversionRepository {
+    constructor(
+        private store: KeyValueStore<Conversion>,
+        private orders: KeyValueStore<OrderClaim>
+    ) {}
+
+    async findByOrderId(orderId: string): Promise<Conversion | undefined> {
+        return this.store.get(orderId);
+    }
+
+    async findByCustomerId(customerId: string): Promise<Conversion[]> {
+        const conversions = await this.findAll();
+        return conversions.filter(conversion => conversion.customerId === customerId);
+    }
+
+    async findAll(): Promise<Conversion[]> {
+        const conversions = await this.store.getAll();
+        return conversions.sort((a, b) => Date.parse(a.purchasedAt) - Date.parse(b.purchasedAt));
+    }
+
+    // one conversion per order: resolves false if the order was already recorded
+    async create(conversion: Conversion): Promise<boolean> {
+        return this.store.setIfAbsent(conversion.orderId, conversion);
+    }
+
+    // resolves false if the order was already claimed
+    async claimOrder(claim: OrderClaim): Promise<boolean> {
+        return this.orders.setIfAbsent(claim.orderId, claim);
+    }
+
+    // gives up a claim when the purchase is rejected, so the order can be placed again
+    async releaseOrder(orderId: string): Promise<void> {
+        await this.orders.delete(orderId);
+    }
+
+    async deleteByCustomerId(customerId: string): Promise<number> {
+        const conversions = await this.findByCustomerId(customerId);
+        for (const conversion of conversions) {
+            await this.store.delete(conversion.orderId);
+        }
+
+        const claims = await this.orders.getAll();
+        for (const claim of claims.filter(candidate => candidate.customerId === customerId)) {
+            await this.orders.delete(claim.orderId);
+        }
+        return conversions.length;
+    }
+}
+
+export default new StoreConversionRepository(
+    createStore<Conversion>('conversions'),
+    createStore<OrderClaim>('order-claims')
+);
@@ -0,0 +1,52 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { CustomerEventRecord } from '../types';
+
+// events kept per customer; older ones are dropped
+const EVENT_LIMIT = 200;
+
+export interface CustomerEventRepository {
+    append(customerId: string, record: CustomerEventRecord): Promise<void>;
+    findByCustomerId(customerId: string): Promise<CustomerEventRecord[]>;
+    deleteByCustomerId(customerId: string): Promise<boolean>;
+}
+
+/**
+ * Each customer's recent events, oldest first. Appends for one customer run
+ * one at a time so concurrent events cannot overwrite each other.
+ */
+export class StoreCustomerEventRepository implements CustomerEventRepository {
+    private pending: Map<string, Promise<void>> = new Map();
+
+    constructor(private store: KeyValueStore<CustomerEventRecord[]>) {}
+
+    async append(customerId: string, record: CustomerEventRecord): Promise<void> {
+        const previous = this.pending.get(customerId) || Promise.resolve();
+
+        const next = previous
+            .catch(() => undefined)
+            .then(async () => {
+                const records = await this.store.get(customerId) || [];
+                await this.store.set(customerId, [...records, record].slice(-EVENT_LIMIT));
+            })
+            .finally(() => {
+                if (this.pending.get(customerId) === next) {
+                    this.pending.delete(customerId);
+                }
+            });
+
+        this.pending.set(customerId, next);
+        return next;
+    }
+
+    async findByCustomerId(customerId: string): Promise<CustomerEventRecord[]> {
+        return await this.store.get(customerId) || [];
+    }
+
+    // waits for pending appends, so none of them writes the events back
+    async deleteByCustomerId(customerId: string): Promise<boolean> {
+        await this.pending.get(customerId)?.catch(() => undefined);
+        return this.store.delete(customerId);
+    }
+}
+
+export default new StoreCustomerEventRepository(createStore<CustomerEventRecord[]>('customer-event-history'));
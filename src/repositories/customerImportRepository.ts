@@ -0,0 +1,28 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { CustomerImport } from '../types';
+
+export interface CustomerImportRepository {
+    findById(importId: string): Promise<CustomerImport | undefined>;
+    findAll(): Promise<CustomerImport[]>;
+    save(customerImport: CustomerImport): Promise<void>;
+}
+
+export class StoreCustomerImportRepository implements CustomerImportRepository {
+    constructor(private store: KeyValueStore<CustomerImport>) {}
+
+    async findById(importId: string): Promise<CustomerImport | undefined> {
+        return this.store.get(importId);
+    }
+
+    // newest first
+    async findAll(): Promise<CustomerImport[]> {
+        const imports = await this.store.getAll();
+        return imports.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    async save(customerImport: CustomerImport): Promise<void> {
+        await this.store.set(customerImport.id, customerImport);
+    }
+}
+
+export default new StoreCustomerImportRepository(createStore<CustomerImport>('customer-imports'));
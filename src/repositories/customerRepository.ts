@@ -0,0 +1,34 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { CustomerData } from '../types';
+
+// the profile part of a customer; workflow state lives in WorkflowStateRepository
+export type CustomerRecord = Omit<CustomerData, 'workflowState'>;
+
+export interface CustomerRepository {
+    findById(customerId: string): Promise<CustomerRecord | undefined>;
+    findAll(): Promise<CustomerRecord[]>;
+    save(customer: CustomerRecord): Promise<void>;
+    delete(customerId: string): Promise<boolean>;
+}
+
+export class StoreCustomerRepository implements CustomerRepository {
+    constructor(private store: KeyValueStore<CustomerRecord>) {}
+
+    async findById(customerId: string): Promise<CustomerRecord | undefined> {
+        return this.store.get(customerId);
+    }
+
+    async findAll(): Promise<CustomerRecord[]> {
+        return this.store.getAll();
+    }
+
+    async save(customer: CustomerRecord): Promise<void> {
+        await this.store.set(customer.id, customer);
+    }
+
+    async delete(customerId: string): Promise<boolean> {
+        return this.store.delete(customerId);
+    }
+}
+
+export default new StoreCustomerRepository(createStore<CustomerRecord>('customers'));
@@ -0,0 +1,34 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { DeadLetter } from '../types';
+
+export interface DeadLetterRepository {
+    findById(id: string): Promise<DeadLetter | undefined>;
+    findAll(topic?: string): Promise<DeadLetter[]>;
+    save(deadLetter: DeadLetter): Promise<void>;
+    delete(id: string): Promise<boolean>;
+}
+
+export class StoreDeadLetterRepository implements DeadLetterRepository {
+    constructor(private store: KeyValueStore<DeadLetter>) {}
+
+    async findById(id: string): Promise<DeadLetter | undefined> {
+        return this.store.get(id);
+    }
+
+    async findAll(topic?: string): Promise<DeadLetter[]> {
+        const deadLetters = await this.store.getAll();
+        return deadLetters
+            .filter(deadLetter => !topic || deadLetter.topic === topic)
+            .sort((a, b) => Date.parse(a.failedAt) - Date.parse(b.failedAt));
+    }
+
+    async save(deadLetter: DeadLetter): Promise<void> {
+        await this.store.set(deadLetter.id, deadLetter);
+    }
+
+    async delete(id: string): Promise<boolean> {
+        return this.store.delete(id);
+    }
+}
+
+export default new StoreDeadLetterRepository(createStore<DeadLetter>('dead-letters'));
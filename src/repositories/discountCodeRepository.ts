@@ -0,0 +1,71 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { DiscountCode, DiscountRedemption } from '../types';
+
+export interface DiscountCodeRepository {
+    findByCode(code: string): Promise<DiscountCode | undefined>;
+    findByCustomerId(customerId: string): Promise<DiscountCode[]>;
+    create(discount: DiscountCode): Promise<boolean>;
+    redeem(redemption: DiscountRedemption): Promise<DiscountCode | undefined>;
+    deleteByCustomerId(customerId: string): Promise<number>;
+}
+
+/**
+ * Issued discount codes, plus a redemption record per code. The redemption
+ * is claimed with an atomic insert, so a code can only ever be redeemed once
+ * even when two requests race.
+ */
+export class StoreDiscountCodeRepository implements DiscountCodeRepository {
+    constructor(
+        private codes: KeyValueStore<DiscountCode>,
+        private redemptions: KeyValueStore<DiscountRedemption>
+    ) {}
+
+    async findByCode(code: string): Promise<DiscountCode | undefined> {
+        return this.codes.get(code);
+    }
+
+    async findByCustomerId(customerId: string): Promise<DiscountCode[]> {
+        const codes = await this.codes.getAll();
+        return codes
+            .filter(discount => discount.customerId === customerId)
+            .sort((a, b) => Date.parse(a.issuedAt) - Date.parse(b.issuedAt));
+    }
+
+    // resolves false if the code was already issued
+    async create(discount: DiscountCode): Promise<boolean> {
+        return this.codes.setIfAbsent(discount.code, discount);
+    }
+
+    /**
+     * Marks the code redeemed. Resolves undefined if it is unknown or already redeemed.
+     */
+    async redeem(redemption: DiscountRedemption): Promise<DiscountCode | undefined> {
+        const discount = await this.codes.get(redemption.code);
+        if (!discount || !await this.redemptions.setIfAbsent(redemption.code, redemption)) {
+            return undefined;
+        }
+
+        const redeemed: DiscountCode = {
+            ...discount,
+            status: 'redeemed',
+            redeemedAt: redemption.redeemedAt,
+            ...(redemption.orderId ? { orderId: redemption.orderId } : {})
+        };
+        await this.codes.set(redeemed.code, redeemed);
+        return redeemed;
+    }
+
+    async deleteByCustomerId(customerId: string): Promise<number> {
+        const codes = await this.findByCustomerId(customerId);
+        for (const discount of codes) {
+            await this.redemptions.delete(discount.code);
+            await this.codes.delete(discount.code);
+        }
+        return codes.length;
+    }
+}
+
+export default new StoreDiscountCodeRepository(
+    createStore<DiscountCode>('discount-codes'),
+    createStore<DiscountRedemption>('discount-redemptions')
+);
@@ -0,0 +1,29 @@
+import { InMemoryStore } from './keyValueStore';
+import { StoreErasureRepository } from './erasureRepository';
+import { CustomerErasure } from '../types';
+
+describe('StoreErasureRepository', () => {
+    let erasures: InMemoryStore<CustomerErasure>;
+    let repository: StoreErasureRepository;
+
+    beforeEach(() => {
+        erasures = new InMemoryStore<CustomerErasure>();
+        repository = new StoreErasureRepository(erasures);
+    });
+
+    it('marks a customer as erased', async () => {
+        expect(await repository.isErased('c1')).toBe(false);
+
+        await repository.add({ customerId: 'c1', erasedAt: '2026-03-10T12:00:00.000Z' });
+
+        expect(await repository.isErased('c1')).toBe(true);
+        expect(await repository.isErased('c2')).toBe(false);
+    });
+
+    it('keeps the time of the first erasure', async () => {
+        await repository.add({ customerId: 'c1', erasedAt: '2026-03-10T12:00:00.000Z' });
+        await repository.add({ customerId: 'c1', erasedAt: '2026-03-11T12:00:00.000Z' });
+
+        expect(await erasures.get('c1')).toEqual({ customerId: 'c1', erasedAt: '2026-03-10T12:00:00.000Z' });
+    });
+});
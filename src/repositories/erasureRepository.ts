@@ -0,0 +1,27 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { CustomerErasure } from '../types';
+
+export interface ErasureRepository {
+    isErased(customerId: string): Promise<boolean>;
+    add(erasure: CustomerErasure): Promise<void>;
+}
+
+/**
+ * Tombstones of erased customers. They hold nothing but the customer ID and
+ * when the erasure happened, and stop a late or redriven event from bringing
+ * an erased customer back.
+ */
+export class StoreErasureRepository implements ErasureRepository {
+    constructor(private store: KeyValueStore<CustomerErasure>) {}
+
+    async isErased(customerId: string): Promise<boolean> {
+        return !!await this.store.get(customerId);
+    }
+
+    // erasing again keeps the time of the first erasure
+    async add(erasure: CustomerErasure): Promise<void> {
+        await this.store.setIfAbsent(erasure.customerId, erasure);
+    }
+}
+
+export default new StoreErasureRepository(createStore<CustomerErasure>('erasures'));
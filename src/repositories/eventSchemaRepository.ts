@@ -0,0 +1,38 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { EventSchema } from '../types';
+
+export interface EventSchemaRepository {
+    findByName(name: string): Promise<EventSchema | undefined>;
+    findAll(): Promise<EventSchema[]>;
+    create(schema: EventSchema): Promise<boolean>;
+    save(schema: EventSchema): Promise<void>;
+    delete(name: string): Promise<boolean>;
+}
+
+export class StoreEventSchemaRepository implements EventSchemaRepository {
+    constructor(private store: KeyValueStore<EventSchema>) {}
+
+    async findByName(name: string): Promise<EventSchema | undefined> {
+        return this.store.get(name);
+    }
+
+    async findAll(): Promise<EventSchema[]> {
+        const schemas = await this.store.getAll();
+        return schemas.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    // resolves false if a schema for the same event already exists
+    async create(schema: EventSchema): Promise<boolean> {
+        return this.store.setIfAbsent(schema.name, schema);
+    }
+
+    async save(schema: EventSchema): Promise<void> {
+        await this.store.set(schema.name, schema);
+    }
+
+    async delete(name: string): Promise<boolean> {
+        return this.store.delete(name);
+    }
+}
+
+export default new StoreEventSchemaRepository(createStore<EventSchema>('event-schemas'));
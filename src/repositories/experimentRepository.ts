@@ -0,0 +1,70 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { ExperimentExposure } from '../types';
+
+export interface ExperimentRepository {
+    create(exposure: ExperimentExposure): Promise<boolean>;
+    findByExperimentId(experimentId: string): Promise<ExperimentExposure[]>;
+    findByCustomerId(customerId: string): Promise<ExperimentExposure[]>;
+    update(messageId: string, mutate: (exposure: ExperimentExposure) => void): Promise<ExperimentExposure | undefined>;
+    deleteByCustomerId(customerId: string): Promise<number>;
+}
+
+/**
+ * One record per email sent under an experiment variant, keyed by message ID.
+ * Updates to the same record are applied one at a time so an open and a
+ * click arriving together cannot overwrite each other.
+ */
+export class StoreExperimentRepository implements ExperimentRepository {
+    private pending: Map<string, Promise<ExperimentExposure | undefined>> = new Map();
+
+    constructor(private store: KeyValueStore<ExperimentExposure>) {}
+
+    async create(exposure: ExperimentExposure): Promise<boolean> {
+        return this.store.setIfAbsent(exposure.messageId, exposure);
+    }
+
+    async findByExperimentId(experimentId: string): Promise<ExperimentExposure[]> {
+        const exposures = await this.store.getAll();
+        return exposures.filter(exposure => exposure.experimentId === experimentId);
+    }
+
+    async findByCustomerId(customerId: string): Promise<ExperimentExposure[]> {
+        const exposures = await this.store.getAll();
+        return exposures.filter(exposure => exposure.customerId === customerId);
+    }
+
+    // resolves undefined, without calling mutate, for emails sent outside any experiment
+    async update(messageId: string, mutate: (exposure: ExperimentExposure) => void): Promise<ExperimentExposure | undefined> {
+        const previous = this.pending.get(messageId) || Promise.resolve(undefined);
+
+        const next = previous
+            .catch(() => undefined)
+            .then(async () => {
+                const exposure = await this.store.get(messageId);
+                if (!exposure) {
+                    return undefined;
+                }
+                mutate(exposure);
+                await this.store.set(messageId, exposure);
+                return exposure;
+            })
+            .finally(() => {
+                if (this.pending.get(messageId) === next) {
+                    this.pending.delete(messageId);
+                }
+            });
+
+        this.pending.set(messageId, next);
+        return next;
+    }
+
+    async deleteByCustomerId(customerId: string): Promise<number> {
+        const exposures = (await this.store.getAll()).filter(exposure => exposure.customerId === customerId);
+        for (const exposure of exposures) {
+            await this.store.delete(exposure.messageId);
+        }
+        return exposures.length;
+    }
+}
+
+export default new StoreExperimentRepository(createStore<ExperimentExposure>('experiment-exposures'));
@@ -0,0 +1,60 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { FunnelProgress } from '../types';
+
+export interface FunnelRepository {
+    findByJourneyId(journeyId: string): Promise<FunnelProgress[]>;
+    update(journeyId: string, customerId: string, mutate: (progress: FunnelProgress) => void): Promise<FunnelProgress>;
+    deleteByCustomerId(customerId: string): Promise<number>;
+}
+
+/**
+ * Per-customer funnel progress, one record per journey. Updates to the same
+ * record are applied one at a time so concurrent step events cannot overwrite each other.
+ */
+export class StoreFunnelRepository implements FunnelRepository {
+    private pending: Map<string, Promise<FunnelProgress>> = new Map();
+
+    constructor(private store: KeyValueStore<FunnelProgress>) {}
+
+    async findByJourneyId(journeyId: string): Promise<FunnelProgress[]> {
+        const records = await this.store.getAll();
+        return records.filter(progress => progress.journeyId === journeyId);
+    }
+
+    async update(journeyId: string, customerId: string, mutate: (progress: FunnelProgress) => void): Promise<FunnelProgress> {
+        const key = `${journeyId}:${customerId}`;
+        const previous = this.pending.get(key) || Promise.resolve(undefined);
+
+        const next = previous
+            .catch(() => undefined)
+            .then(async () => {
+                const progress: FunnelProgress = (await this.store.get(key)) || {
+                    journeyId,
+                    customerId,
+                    enteredAt: new Date().toISOString(),
+                    steps: {}
+                };
+                mutate(progress);
+                await this.store.set(key, progress);
+                return progress;
+            })
+            .finally(() => {
+                if (this.pending.get(key) === next) {
+                    this.pending.delete(key);
+                }
+            });
+
+        this.pending.set(key, next);
+        return next;
+    }
+
+    async deleteByCustomerId(customerId: string): Promise<number> {
+        const records = (await this.store.getAll()).filter(progress => progress.customerId === customerId);
+        for (const progress of records) {
+            await this.store.delete(`${progress.journeyId}:${customerId}`);
+        }
+        return records.length;
+    }
+}
+
+export default new StoreFunnelRepository(createStore<FunnelProgress>('journey-funnel'));
@@ -0,0 +1,44 @@
+// Export all repository interfaces and their classes
+export { KeyValueStore, InMemoryStore, JsonFileStore, createStore } from './keyValueStore';
+export { CustomerRepository, CustomerRecord, StoreCustomerRepository } from './customerRepository';
+export { CustomerEventRepository, StoreCustomerEventRepository } from './customerEventRepository';
+export { WorkflowStateRepository, StoreWorkflowStateRepository } from './workflowStateRepository';
+export { ProcessedEventRepository, StoreProcessedEventRepository } from './processedEventRepository';
+export { DeadLetterRepository, StoreDeadLetterRepository } from './deadLetterRepository';
+export { TemplateRepository, StoreTemplateRepository } from './templateRepository';
+export { DiscountCodeRepository, StoreDiscountCodeRepository } from './discountCodeRepository';
+export { SuppressionRepository, StoreSuppressionRepository } from './suppressionRepository';
+export { ConversionRepository, StoreConversionRepository } from './conversionRepository';
+export { FunnelRepository, StoreFunnelRepository } from './funnelRepository';
+export { SegmentRepository, StoreSegmentRepository } from './segmentRepository';
+export { BroadcastRepository, StoreBroadcastRepository } from './broadcastRepository';
+export { CustomerImportRepository, StoreCustomerImportRepository } from './customerImportRepository';
+export { ExperimentRepository, StoreExperimentRepository } from './experimentRepository';
+export { SendDecisionRepository, StoreSendDecisionRepository } from './sendDecisionRepository';
+export { WebhookRepository, StoreWebhookRepository } from './webhookRepository';
+export { WebhookDeliveryRepository, StoreWebhookDeliveryRepository } from './webhookDeliveryRepository';
+export { EventSchemaRepository, StoreEventSchemaRepository } from './eventSchemaRepository';
+export { StepLedgerRepository, StepExecutionKey, StoreStepLedgerRepository, ledgerKey } from './stepLedgerRepository';
+export { ErasureRepository, StoreErasureRepository } from './erasureRepository';
+
+// Export default instances
+export { default as customerRepository } from './customerRepository';
+export { default as customerEventRepository } from './customerEventRepository';
+export { default as workflowStateRepository } from './workflowStateRepository';
+export { default as stepLedgerRepository } from './stepLedgerRepository';
+export { default as processedEventRepository } from './processedEventRepository';
+export { default as deadLetterRepository } from './deadLetterRepository';
+export { default as templateRepository } from './templateRepository';
+export { default as discountCodeRepository } from './discountCodeRepository';
+export { default as suppressionRepository } from './suppressionRepository';
+export { default as conversionRepository } from './conversionRepository';
+export { default as funnelRepository } from './funnelRepository';
+export { default as segmentRepository } from './segmentRepository';
+export { default as broadcastRepository } from './broadcastRepository';
+export { default as customerImportRepository } from './customerImportRepository';
+export { default as experimentRepository } from './experimentRepository';
+export { default as sendDecisionRepository } from './sendDecisionRepository';
+export { default as webhookRepository } from './webhookRepository';
+export { default as webhookDeliveryRepository } from './webhookDeliveryRepository';
+export { default as eventSchemaRepository } from './eventSchemaRepository';
+export { default as erasureRepository } from './erasureRepository';
@@ -0,0 +1,150 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface KeyValueStore<T> {
+    get(key: string): Promise<T | undefined>;
+    getAll(): Promise<T[]>;
+    entries(): Promise<Array<[string, T]>>;
+    set(key: string, value: T): Promise<void>;
+    // atomic insert: resolves false without writing when the key already exists
+    setIfAbsent(key: string, value: T): Promise<boolean>;
+    delete(key: string): Promise<boolean>;
+}
+
+// values are copied on the way in and out, so a caller's changes only reach the store through set
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export class InMemoryStore<T> implements KeyValueStore<T> {
+    protected records: Map<string, T> = new Map();
+
+    async get(key: string): Promise<T | undefined> {
+        const value = this.records.get(key);
+        return value === undefined ? undefined : copy(value);
+    }
+
+    async getAll(): Promise<T[]> {
+        return Array.from(this.records.values(), copy);
+    }
+
+    async entries(): Promise<Array<[string, T]>> {
+        return Array.from(this.records.entries(), ([key, value]): [string, T] => [key, copy(value)]);
+    }
+
+    async set(key: string, value: T): Promise<void> {
+        this.records.set(key, copy(value));
+    }
+
+    async setIfAbsent(key: string, value: T): Promise<boolean> {
+        if (this.records.has(key)) {
+            return false;
+        }
+        this.records.set(key, copy(value));
+        return true;
+    }
+
+    async delete(key: string): Promise<boolean> {
+        return this.records.delete(key);
+    }
+}
+
+/**
+ * Keeps records in memory and mirrors them to a JSON file on every write.
+ * Writes go to a temp file and are renamed into place so a crash mid-write
+ * never leaves a truncated store behind. Each write rewrites the whole file,
+ * so writes that arrive while one is in flight share the next rewrite
+ * instead of queueing one each.
+ */
+export class JsonFileStore<T> extends InMemoryStore<T> {
+    private loaded: boolean = false;
+    private writeQueue: Promise<void> = Promise.resolve();
+    private queuedWrite: Promise<void> | undefined;
+
+    constructor(private filePath: string) {
+        super();
+    }
+
+    private load(): void {
+        if (this.loaded) {
+            return;
+        }
+
+        if (fs.existsSync(this.filePath)) {
+            const contents: Record<string, T> = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+            this.records = new Map(Object.entries(contents));
+        }
+        this.loaded = true;
+    }
+
+    private persist(): Promise<void> {
+        if (this.queuedWrite) {
+            return this.queuedWrite;
+        }
+
+        const write = this.writeQueue.then(async () => {
+            // later writes queue a new rewrite once this one has taken its snapshot
+            this.queuedWrite = undefined;
+            const snapshot = JSON.stringify(Object.fromEntries(this.records));
+            const tempPath = `${this.filePath}.tmp`;
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.promises.writeFile(tempPath, snapshot);
+            await fs.promises.rename(tempPath, this.filePath);
+        });
+
+        this.queuedWrite = write;
+        // a failed write rejects its own callers but must not stop the ones after it
+        this.writeQueue = write.catch(() => undefined);
+        return write;
+    }
+
+    async get(key: string): Promise<T | undefined> {
+        this.load();
+        return super.get(key);
+    }
+
+    async getAll(): Promise<T[]> {
+        this.load();
+        return super.getAll();
+    }
+
+    async entries(): Promise<Array<[string, T]>> {
+        this.load();
+        return super.entries();
+    }
+
+    async set(key: string, value: T): Promise<void> {
+        this.load();
+        await super.set(key, value);
+        await this.persist();
+    }
+
+    async setIfAbsent(key: string, value: T): Promise<boolean> {
+        this.load();
+        const inserted = await super.setIfAbsent(key, value);
+        if (inserted) {
+            await this.persist();
+        }
+        return inserted;
+    }
+
+    async delete(key: string): Promise<boolean> {
+        this.load();
+        const deleted = await super.delete(key);
+        if (deleted) {
+            await this.persist();
+        }
+        return deleted;
+    }
+}
+
+const storeDriver: string = process.env.STATE_STORE || 'memory';
+const stateDir: string = process.env.STATE_DIR || path.join(process.cwd(), 'data');
+
+/**
+ * Creates a named store using the driver selected by STATE_STORE (memory | file)
+ */
+export const createStore = <T>(name: string): KeyValueStore<T> => {
+    if (storeDriver === 'file') {
+        return new JsonFileStore<T>(path.join(stateDir, `${name}.json`));
+    }
+    return new InMemoryStore<T>();
+};
@@ -0,0 +1,66 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { ProcessedEvent } from '../types';
+
+const retentionMs: number = parseInt(process.env.EVENT_DEDUP_RETENTION_MS || String(24 * 60 * 60 * 1000), 10);
+const PURGE_INTERVAL_MS = 60 * 1000;
+
+export interface ProcessedEventRepository {
+    markProcessed(consumerGroup: string, eventId: string): Promise<boolean>;
+    unmark(consumerGroup: string, eventId: string): Promise<void>;
+}
+
+/**
+ * Remembers which event IDs each consumer group has handled. Entries older
+ * than the retention window are forgotten, so the store stays bounded.
+ */
+export class StoreProcessedEventRepository implements ProcessedEventRepository {
+    private lastPurge: number = Date.now();
+
+    constructor(private store: KeyValueStore<ProcessedEvent>, private retention: number) {}
+
+    /**
+     * Records the event as processed. Resolves false if it already was within the retention window.
+     */
+    async markProcessed(consumerGroup: string, eventId: string): Promise<boolean> {
+        await this.purgeExpired();
+
+        const key = `${consumerGroup}:${eventId}`;
+        const record: ProcessedEvent = { consumerGroup, eventId, processedAt: new Date().toISOString() };
+
+        if (await this.store.setIfAbsent(key, record)) {
+            return true;
+        }
+
+        const existing = await this.store.get(key);
+        if (existing && this.isExpired(existing)) {
+            await this.store.set(key, record);
+            return true;
+        }
+        return false;
+    }
+
+    // forgets a failed event so a redelivery is processed again
+    async unmark(consumerGroup: string, eventId: string): Promise<void> {
+        await this.store.delete(`${consumerGroup}:${eventId}`);
+    }
+
+    private isExpired(record: ProcessedEvent): boolean {
+        return Date.parse(record.processedAt) < Date.now() - this.retention;
+    }
+
+    private async purgeExpired(): Promise<void> {
+        if (Date.now() - this.lastPurge < PURGE_INTERVAL_MS) {
+            return;
+        }
+        this.lastPurge = Date.now();
+
+        const entries = await this.store.entries();
+        for (const [key, record] of entries) {
+            if (this.isExpired(record)) {
+                await this.store.delete(key);
+            }
+        }
+    }
+}
+
+export default new StoreProcessedEventRepository(createStore<ProcessedEvent>('processed-events'), retentionMs);
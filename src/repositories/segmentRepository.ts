@@ -0,0 +1,38 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { Segment } from '../types';
+
+export interface SegmentRepository {
+    findById(segmentId: string): Promise<Segment | undefined>;
+    findAll(): Promise<Segment[]>;
+    create(segment: Segment): Promise<boolean>;
+    save(segment: Segment): Promise<void>;
+    delete(segmentId: string): Promise<boolean>;
+}
+
+export class StoreSegmentRepository implements SegmentRepository {
+    constructor(private store: KeyValueStore<Segment>) {}
+
+    async findById(segmentId: string): Promise<Segment | undefined> {
+        return this.store.get(segmentId);
+    }
+
+    async findAll(): Promise<Segment[]> {
+        const segments = await this.store.getAll();
+        return segments.sort((a, b) => a.id.localeCompare(b.id));
+    }
+
+    // resolves false if a segment with the same ID already exists
+    async create(segment: Segment): Promise<boolean> {
+        return this.store.setIfAbsent(segment.id, segment);
+    }
+
+    async save(segment: Segment): Promise<void> {
+        await this.store.set(segment.id, segment);
+    }
+
+    async delete(segmentId: string): Promise<boolean> {
+        return this.store.delete(segmentId);
+    }
+}
+
+export default new StoreSegmentRepository(createStore<Segment>('segments'));
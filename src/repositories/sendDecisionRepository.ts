@@ -0,0 +1,53 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { SendDecision } from '../types';
+
+// decisions kept per customer; older ones are dropped
+const DECISION_LIMIT = 100;
+
+export interface SendDecisionRepository {
+    append(customerId: string, decision: SendDecision): Promise<void>;
+    findByCustomerId(customerId: string): Promise<SendDecision[]>;
+    deleteByCustomerId(customerId: string): Promise<boolean>;
+}
+
+/**
+ * Each customer's send decisions, oldest first. Kept apart from the workflow
+ * state, which steps load and save whole, so a step finishing concurrently
+ * cannot overwrite a decision; appends for one customer run one at a time.
+ */
+export class StoreSendDecisionRepository implements SendDecisionRepository {
+    private pending: Map<string, Promise<void>> = new Map();
+
+    constructor(private store: KeyValueStore<SendDecision[]>) {}
+
+    async append(customerId: string, decision: SendDecision): Promise<void> {
+        const previous = this.pending.get(customerId) || Promise.resolve();
+
+        const next = previous
+            .catch(() => undefined)
+            .then(async () => {
+                const decisions = await this.store.get(customerId) || [];
+                await this.store.set(customerId, [...decisions, decision].slice(-DECISION_LIMIT));
+            })
+            .finally(() => {
+                if (this.pending.get(customerId) === next) {
+                    this.pending.delete(customerId);
+                }
+            });
+
+        this.pending.set(customerId, next);
+        return next;
+    }
+
+    async findByCustomerId(customerId: string): Promise<SendDecision[]> {
+        return await this.store.get(customerId) || [];
+    }
+
+    // waits for pending appends, so none of them writes the decisions back
+    async deleteByCustomerId(customerId: string): Promise<boolean> {
+        await this.pending.get(customerId)?.catch(() => undefined);
+        return this.store.delete(customerId);
+    }
+}
+
+export default new StoreSendDecisionRepository(createStore<SendDecision[]>('send-decisions'));
@@ -0,0 +1,53 @@
+import { InMemoryStore } from './keyValueStore';
+import { StoreStepLedgerRepository, StepExecutionKey } from './stepLedgerRepository';
+import { StepExecution } from '../types';
+
+describe('StoreStepLedgerRepository', () => {
+    const key: StepExecutionKey = { customerId: 'c1', journeyId: 'onboarding', stepId: 1, occurrence: 1 };
+    let ledger: StoreStepLedgerRepository;
+
+    beforeEach(() => {
+        ledger = new StoreStepLedgerRepository(new InMemoryStore<StepExecution>());
+    });
+
+    it('lets only the first claim of a step occurrence win', async () => {
+        const claims = await Promise.all([ledger.claim(key), ledger.claim(key), ledger.claim(key)]);
+
+        expect(claims.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('claims each occurrence of a step separately', async () => {
+        expect(await ledger.claim(key)).toBe(true);
+        expect(await ledger.claim({ ...key, occurrence: 2 })).toBe(true);
+        expect(await ledger.claim({ ...key, stepId: 2 })).toBe(true);
+    });
+
+    it('keeps a completed claim, so the step cannot run again', async () => {
+        await ledger.claim(key);
+        await ledger.complete(key);
+
+        expect(await ledger.claim(key)).toBe(false);
+        const [entry] = await ledger.findByCustomerId('c1');
+        expect(entry.status).toBe('completed');
+        expect(entry.completedAt).not.toBeNull();
+    });
+
+    it('lets a released claim be taken again', async () => {
+        await ledger.claim(key);
+        await ledger.release(key);
+
+        expect(await ledger.claim(key)).toBe(true);
+        const [entry] = await ledger.findByCustomerId('c1');
+        expect(entry.status).toBe('claimed');
+    });
+
+    it('deletes only the given customer\'s entries', async () => {
+        await ledger.claim(key);
+        await ledger.claim({ ...key, stepId: 2 });
+        await ledger.claim({ ...key, customerId: 'c2' });
+
+        expect(await ledger.deleteByCustomerId('c1')).toBe(2);
+        expect(await ledger.findByCustomerId('c1')).toEqual([]);
+        expect(await ledger.findByCustomerId('c2')).toHaveLength(1);
+    });
+});
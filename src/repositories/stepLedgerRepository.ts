@@ -0,0 +1,70 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { StepExecution } from '../types';
+
+export interface StepExecutionKey {
+    customerId: string;
+    journeyId: string;
+    stepId: number;
+    occurrence: number;
+}
+
+export interface StepLedgerRepository {
+    claim(key: StepExecutionKey): Promise<boolean>;
+    complete(key: StepExecutionKey): Promise<void>;
+    release(key: StepExecutionKey): Promise<void>;
+    findByCustomerId(customerId: string): Promise<StepExecution[]>;
+    deleteByCustomerId(customerId: string): Promise<number>;
+}
+
+export const ledgerKey = ({ customerId, journeyId, stepId, occurrence }: StepExecutionKey): string => {
+    return `${customerId}:${journeyId}:${stepId}:${occurrence}`;
+};
+
+/**
+ * Records which step occurrences have run. A step may only execute after
+ * winning its claim, so redelivered or echoed events cannot run it twice.
+ */
+export class StoreStepLedgerRepository implements StepLedgerRepository {
+    constructor(private store: KeyValueStore<StepExecution>) {}
+
+    async claim(key: StepExecutionKey): Promise<boolean> {
+        return this.store.setIfAbsent(ledgerKey(key), {
+            ...key,
+            key: ledgerKey(key),
+            status: 'claimed',
+            claimedAt: new Date().toISOString(),
+            completedAt: null
+        });
+    }
+
+    async complete(key: StepExecutionKey): Promise<void> {
+        const entry = await this.store.get(ledgerKey(key));
+        if (entry) {
+            await this.store.set(entry.key, {
+                ...entry,
+                status: 'completed',
+                completedAt: new Date().toISOString()
+            });
+        }
+    }
+
+    // gives up a claim after a failed run so a later delivery can retry the step
+    async release(key: StepExecutionKey): Promise<void> {
+        await this.store.delete(ledgerKey(key));
+    }
+
+    async findByCustomerId(customerId: string): Promise<StepExecution[]> {
+        const entries = await this.store.getAll();
+        return entries.filter(entry => entry.customerId === customerId);
+    }
+
+    async deleteByCustomerId(customerId: string): Promise<number> {
+        const entries = await this.findByCustomerId(customerId);
+        for (const entry of entries) {
+            await this.store.delete(entry.key);
+        }
+        return entries.length;
+    }
+}
+
+export default new StoreStepLedgerRepository(createStore<StepExecution>('step-ledger'));
@@ -0,0 +1,42 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { SuppressionEntry } from '../types';
+
+export interface SuppressionRepository {
+    find(email: string): Promise<SuppressionEntry | undefined>;
+    findAll(): Promise<SuppressionEntry[]>;
+    add(entry: SuppressionEntry): Promise<SuppressionEntry>;
+    remove(email: string): Promise<boolean>;
+}
+
+// addresses are compared case-insensitively, so one entry covers every spelling
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export class StoreSuppressionRepository implements SuppressionRepository {
+    constructor(private store: KeyValueStore<SuppressionEntry>) {}
+
+    async find(email: string): Promise<SuppressionEntry | undefined> {
+        return this.store.get(normalizeEmail(email));
+    }
+
+    async findAll(): Promise<SuppressionEntry[]> {
+        const entries = await this.store.getAll();
+        return entries.sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+    }
+
+    /**
+     * Adds an address to the list. An address that is already suppressed keeps its original entry.
+     */
+    async add(entry: SuppressionEntry): Promise<SuppressionEntry> {
+        const normalized: SuppressionEntry = { ...entry, email: normalizeEmail(entry.email) };
+        if (await this.store.setIfAbsent(normalized.email, normalized)) {
+            return normalized;
+        }
+        return (await this.store.get(normalized.email)) || normalized;
+    }
+
+    async remove(email: string): Promise<boolean> {
+        return this.store.delete(normalizeEmail(email));
+    }
+}
+
+export default new StoreSuppressionRepository(createStore<SuppressionEntry>('suppressions'));
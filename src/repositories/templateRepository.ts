@@ -0,0 +1,38 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { ManagedTemplate } from '../types';
+
+export interface TemplateRepository {
+    findById(templateId: string): Promise<ManagedTemplate | undefined>;
+    findAll(): Promise<ManagedTemplate[]>;
+    create(template: ManagedTemplate): Promise<boolean>;
+    save(template: ManagedTemplate): Promise<void>;
+    delete(templateId: string): Promise<boolean>;
+}
+
+export class StoreTemplateRepository implements TemplateRepository {
+    constructor(private store: KeyValueStore<ManagedTemplate>) {}
+
+    async findById(templateId: string): Promise<ManagedTemplate | undefined> {
+        return this.store.get(templateId);
+    }
+
+    async findAll(): Promise<ManagedTemplate[]> {
+        const templates = await this.store.getAll();
+        return templates.sort((a, b) => a.id.localeCompare(b.id));
+    }
+
+    // resolves false if a template with the same ID already exists
+    async create(template: ManagedTemplate): Promise<boolean> {
+        return this.store.setIfAbsent(template.id, template);
+    }
+
+    async save(template: ManagedTemplate): Promise<void> {
+        await this.store.set(template.id, template);
+    }
+
+    async delete(templateId: string): Promise<boolean> {
+        return this.store.delete(templateId);
+    }
+}
+
+export default new StoreTemplateRepository(createStore<ManagedTemplate>('templates'));
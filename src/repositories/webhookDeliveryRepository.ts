@@ -0,0 +1,58 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { EventType, WebhookDelivery } from '../types';
+
+export interface WebhookDeliveryRepository {
+    findById(deliveryId: string): Promise<WebhookDelivery | undefined>;
+    findBySubscriptionId(subscriptionId: string): Promise<WebhookDelivery[]>;
+    create(delivery: WebhookDelivery): Promise<boolean>;
+    save(delivery: WebhookDelivery): Promise<void>;
+    deleteBySubscriptionId(subscriptionId: string): Promise<number>;
+    deleteByCustomerId(customerId: string, keepTypes?: EventType[]): Promise<number>;
+}
+
+export class StoreWebhookDeliveryRepository implements WebhookDeliveryRepository {
+    constructor(private store: KeyValueStore<WebhookDelivery>) {}
+
+    async findById(deliveryId: string): Promise<WebhookDelivery | undefined> {
+        return this.store.get(deliveryId);
+    }
+
+    // newest first
+    async findBySubscriptionId(subscriptionId: string): Promise<WebhookDelivery[]> {
+        const deliveries = await this.store.getAll();
+        return deliveries
+            .filter(delivery => delivery.subscriptionId === subscriptionId)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    // resolves false if the event was already delivered to the subscription
+    async create(delivery: WebhookDelivery): Promise<boolean> {
+        return this.store.setIfAbsent(delivery.id, delivery);
+    }
+
+    async save(delivery: WebhookDelivery): Promise<void> {
+        await this.store.set(delivery.id, delivery);
+    }
+
+    async deleteBySubscriptionId(subscriptionId: string): Promise<number> {
+        const deliveries = await this.findBySubscriptionId(subscriptionId);
+        for (const delivery of deliveries) {
+            await this.store.delete(delivery.id);
+        }
+        return deliveries.length;
+    }
+
+    // deliveries of events about the customer; signup events carry the customer as their data
+    async deleteByCustomerId(customerId: string, keepTypes: EventType[] = []): Promise<number> {
+        const deliveries = (await this.store.getAll()).filter(delivery => {
+            const data = delivery.event.data || {};
+            return (data.customerId === customerId || data.id === customerId) && !keepTypes.includes(delivery.eventType);
+        });
+        for (const delivery of deliveries) {
+            await this.store.delete(delivery.id);
+        }
+        return deliveries.length;
+    }
+}
+
+export default new StoreWebhookDeliveryRepository(createStore<WebhookDelivery>('webhook-deliveries'));
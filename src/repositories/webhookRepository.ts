@@ -0,0 +1,33 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { WebhookSubscription } from '../types';
+
+export interface WebhookRepository {
+    findById(subscriptionId: string): Promise<WebhookSubscription | undefined>;
+    findAll(): Promise<WebhookSubscription[]>;
+    save(subscription: WebhookSubscription): Promise<void>;
+    delete(subscriptionId: string): Promise<boolean>;
+}
+
+export class StoreWebhookRepository implements WebhookRepository {
+    constructor(private store: KeyValueStore<WebhookSubscription>) {}
+
+    async findById(subscriptionId: string): Promise<WebhookSubscription | undefined> {
+        return this.store.get(subscriptionId);
+    }
+
+    // oldest first
+    async findAll(): Promise<WebhookSubscription[]> {
+        const subscriptions = await this.store.getAll();
+        return subscriptions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    async save(subscription: WebhookSubscription): Promise<void> {
+        await this.store.set(subscription.id, subscription);
+    }
+
+    async delete(subscriptionId: string): Promise<boolean> {
+        return this.store.delete(subscriptionId);
+    }
+}
+
+export default new StoreWebhookRepository(createStore<WebhookSubscription>('webhooks'));
@@ -0,0 +1,26 @@
+import { KeyValueStore, createStore } from './keyValueStore';
+import { WorkflowState } from '../types';
+
+export interface WorkflowStateRepository {
+    findByCustomerId(customerId: string): Promise<WorkflowState | undefined>;
+    save(customerId: string, state: WorkflowState): Promise<void>;
+    delete(customerId: string): Promise<boolean>;
+}
+
+export class StoreWorkflowStateRepository implements WorkflowStateRepository {
+    constructor(private store: KeyValueStore<WorkflowState>) {}
+
+    async findByCustomerId(customerId: string): Promise<WorkflowState | undefined> {
+        return this.store.get(customerId);
+    }
+
+    async save(customerId: string, state: WorkflowState): Promise<void> {
+        await this.store.set(customerId, state);
+    }
+
+    async delete(customerId: string): Promise<boolean> {
+        return this.store.delete(customerId);
+    }
+}
+
+export default new StoreWorkflowStateRepository(createStore<WorkflowState>('workflow-state'));
@@ -0,0 +1,216 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../config/kafka';
+import emailService from './emailService';
+import { findSegmentMembers } from './segmentService';
+import { getReachableChannels, sendThroughChannels } from './channelService';
+import { checkFrequencyCap, reserveSend } from './frequencyCapService';
+import { withCustomerLock } from './customerLock';
+import { broadcastRepository, segmentRepository, customerRepository, workflowStateRepository, sendDecisionRepository } from '../repositories/index';
+import { segmentValidator } from '../validation/index';
+import Customer from '../models/customer';
+import { ApiResponse, Broadcast, BroadcastRequest, ChannelName } from '../types';
+
+// broadcasts go out by email only
+const BROADCAST_CHANNEL: ChannelName = 'email';
+
+// a broadcast is recorded in email histories and send decisions as a one-step journey of its own
+const broadcastJourneyId = (broadcast: Broadcast): string => `broadcast:${broadcast.id}`;
+const BROADCAST_STEP_ID = 0;
+
+type RecipientOutcome = 'sent' | 'suppressed' | 'capped' | 'failed';
+
+/**
+ * Sends the broadcast to one customer the way a journey sends a step: the
+ * frequency caps are checked and the send is reserved against them, and a
+ * sent message is recorded in the customer's email history. A capped
+ * customer is skipped; a broadcast is never deferred.
+ */
+const sendToRecipient = async (broadcast: Broadcast, customerId: string): Promise<RecipientOutcome> => {
+    const profile = await customerRepository.findById(customerId);
+    if (!profile) {
+        return 'failed';
+    }
+
+    const customer = new Customer({ ...profile, workflowState: await workflowStateRepository.findByCustomerId(customerId) });
+    const customerData = customer.toJSON();
+    const journeyId = broadcastJourneyId(broadcast);
+
+    // with no channel to send on the send is suppressed, which the caps have no say in
+    const reachable = await getReachableChannels(customerData, broadcast.template, [BROADCAST_CHANNEL]);
+    if (reachable.length > 0) {
+        const check = checkFrequencyCap(customerData, BROADCAST_CHANNEL);
+        if (!check.allowed) {
+            await sendDecisionRepository.append(customerId, {
+                journeyId,
+                stepId: BROADCAST_STEP_ID,
+                channel: BROADCAST_CHANNEL,
+                decision: 'dropped',
+                reason: `frequency cap ${BROADCAST_CHANNEL} ${check.cap}`,
+                decidedAt: new Date().toISOString()
+            });
+            return 'capped';
+        }
+    }
+
+    const release = reachable.length > 0 ? reserveSend(customerId, BROADCAST_CHANNEL) : undefined;
+    try {
+        const result = await sendThroughChannels({ template: broadcast.template, customer: customerData, data: broadcast.data }, [BROADCAST_CHANNEL]);
+        if (result.suppressed) {
+            await sendDecisionRepository.append(customerId, {
+                journeyId,
+                stepId: BROADCAST_STEP_ID,
+                channel: BROADCAST_CHANNEL,
+                decision: 'suppressed',
+                reason: result.suppressed,
+                decidedAt: new Date().toISOString()
+            });
+            return 'suppressed';
+        }
+        if (!result.success) {
+            logger.error(`Broadcast ${broadcast.id} failed for customer ${customerId}: ${result.error?.message}`);
+            return 'failed';
+        }
+
+        customer.recordEmailSent({
+            messageId: result.messageId,
+            journeyId,
+            stepId: BROADCAST_STEP_ID,
+            template: broadcast.template,
+            sentAt: new Date().toISOString()
+        });
+        await workflowStateRepository.save(customerId, customer.workflowState);
+        return 'sent';
+    } finally {
+        release?.();
+    }
+};
+
+/**
+ * Sends the broadcast to each recipient in turn. Consent and the frequency
+ * caps are checked per send, so unsubscribed members are counted as
+ * suppressed and members at a cap as capped, not failed.
+ */
+const runBroadcast = async (broadcast: Broadcast, recipients: string[]): Promise<void> => {
+    for (const customerId of recipients) {
+        try {
+            const outcome = await withCustomerLock(customerId, () => sendToRecipient(broadcast, customerId));
+            broadcast[outcome]++;
+        } catch (error) {
+            logger.error(`Broadcast ${broadcast.id} failed for customer ${customerId}:`, error);
+            broadcast.failed++;
+        }
+
+        await broadcastRepository.save(broadcast);
+    }
+
+    broadcast.status = 'completed';
+    broadcast.completedAt = new Date().toISOString();
+    await broadcastRepository.save(broadcast);
+
+    logger.info(`Broadcast ${broadcast.id} completed: ${broadcast.sent} sent, ${broadcast.suppressed} suppressed, ${broadcast.capped} capped, ${broadcast.failed} failed`);
+};
+
+/**
+ * Sends a published template to every customer currently in a segment.
+ * Recipients are fixed when the broadcast starts; sending continues in the
+ * background and its progress is visible through getBroadcast.
+ */
+export const createBroadcast = async (request: BroadcastRequest): Promise<ApiResponse<Broadcast>> => {
+    try {
+        const validation = segmentValidator.validateBroadcast(request);
+        if (!validation.isValid) {
+            return {
+                success: false,
+                error: validation.error
+            };
+        }
+
+        const segment = await segmentRepository.findById(request.segmentId);
+        if (!segment) {
+            return {
+                success: false,
+                error: 'Segment not found'
+            };
+        }
+
+        if (!await emailService.hasTemplate(request.template)) {
+            return {
+                success: false,
+                error: `Template ${request.template} not found or not published`
+            };
+        }
+
+        const recipients = await findSegmentMembers(segment);
+        const broadcast: Broadcast = {
+            id: uuidv4(),
+            segmentId: segment.id,
+            template: request.template,
+            data: request.data,
+            status: 'running',
+            recipients: recipients.length,
+            sent: 0,
+            suppressed: 0,
+            capped: 0,
+            failed: 0,
+            createdAt: new Date().toISOString()
+        };
+        await broadcastRepository.save(broadcast);
+
+        logger.info(`Broadcasting ${broadcast.template} to ${recipients.length} customer(s) in segment ${segment.id}`);
+        runBroadcast(broadcast, recipients).catch(async error => {
+            logger.error(`Broadcast ${broadcast.id} error:`, error);
+            broadcast.status = 'failed';
+            broadcast.error = (error as Error).message;
+            broadcast.completedAt = new Date().toISOString();
+            await broadcastRepository.save(broadcast).catch(() => undefined);
+        });
+
+        return {
+            success: true,
+            message: 'Broadcast started',
+            data: { ...broadcast }
+        };
+    } catch (error) {
+        logger.error('Create broadcast error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while creating broadcast'
+        };
+    }
+};
+
+export const listBroadcasts = async (): Promise<ApiResponse<{ count: number; broadcasts: Broadcast[] }>> => {
+    try {
+        const broadcasts = await broadcastRepository.findAll();
+
+        return {
+            success: true,
+            data: {
+                count: broadcasts.length,
+                broadcasts
+            }
+        };
+    } catch (error) {
+        logger.error('List broadcasts error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while listing broadcasts'
+        };
+    }
+};
+
+export const getBroadcast = async (broadcastId: string): Promise<ApiResponse<Broadcast>> => {
+    const broadcast = await broadcastRepository.findById(broadcastId);
+
+    if (!broadcast) {
+        return {
+            success: false,
+            error: 'Broadcast not found'
+        };
+    }
+
+    return {
+        success: true,
+        data: broadcast
+    };
+};
@@ -0,0 +1,261 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../config/kafka';
+import emailService, { EmailVariant } from './emailService';
+import { publishMessageSent } from './eventService';
+import { checkConsent } from './consentService';
+import { buildDiscountTemplateData } from './discountService';
+import { TransportError, renderPush, renderSms, renderWebhook } from '../email/index';
+import {
+    MessageTransport,
+    OutboundPush,
+    OutboundSms,
+    OutboundWebhook,
+    createPushTransport,
+    createSmsTransport,
+    createWebhookTransport,
+    getWebhookUrl
+} from '../channels/index';
+import { ChannelName, CustomerData, EmailTemplate, PushData, SmsData, WebhookData } from '../types';
+
+export interface ChannelSendResult {
+    success: boolean;
+    // the channel the message went out on, or was last tried on
+    channel?: ChannelName;
+    messageId?: string;
+    // set when no channel could be used: missing contact details, template parts or consent
+    suppressed?: string;
+    error?: TransportError;
+}
+
+export interface ChannelRequest {
+    template: string;
+    customer: CustomerData;
+    data?: any;
+    variant?: EmailVariant;
+}
+
+interface Channel {
+    readonly name: ChannelName;
+    // why the customer cannot get the template on this channel, if they cannot
+    unreachable(customer: CustomerData, template: EmailTemplate): string | undefined;
+    send(request: ChannelRequest, template: EmailTemplate): Promise<ChannelSendResult>;
+}
+
+class EmailChannel implements Channel {
+    readonly name = 'email';
+
+    unreachable(customer: CustomerData): string | undefined {
+        return customer.email ? undefined : 'no email address';
+    }
+
+    // email keeps its own send path, with unsubscribe headers and tracking
+    async send(request: ChannelRequest, template: EmailTemplate): Promise<ChannelSendResult> {
+        const result = await emailService.processEmailQueue({
+            type: template.name,
+            customer: request.customer,
+            data: request.data,
+            variant: request.variant
+        });
+        return {
+            success: result.success,
+            channel: this.name,
+            messageId: result.messageId,
+            suppressed: result.suppressed,
+            error: result.error
+        };
+    }
+}
+
+/**
+ * The send path of the channels other than email: consent, template data,
+ * rendering, delivery and a MESSAGE_SENT event. `D` is what is published,
+ * `M` what the transport receives.
+ */
+abstract class MessageChannel<D extends { messageId: string }, M> implements Channel {
+    abstract readonly name: ChannelName;
+
+    constructor(private transport: MessageTransport<M>) {}
+
+    abstract unreachable(customer: CustomerData, template: EmailTemplate): string | undefined;
+    protected abstract build(template: EmailTemplate, customer: CustomerData, data: Record<string, any>, messageId: string): D;
+    protected abstract toOutbound(message: D): M;
+
+    async send(request: ChannelRequest, template: EmailTemplate): Promise<ChannelSendResult> {
+        const { customer } = request;
+        const consent = await checkConsent(customer, this.name);
+        if (!consent.allowed) {
+            logger.info(`📨 Skipped ${template.name} ${this.name} to ${customer.id}: ${consent.reason}`);
+            return { success: false, channel: this.name, suppressed: consent.reason };
+        }
+
+        const message = this.build(template, customer, await buildTemplateData(template.name, request), uuidv4());
+        const result = await this.transport.send(this.toOutbound(message));
+        if (!result.ok) {
+            logger.error(`📨 Failed to send ${template.name} ${this.name} to ${customer.id} via ${result.provider} [${result.error.code}]: ${result.error.message}`);
+            return { success: false, channel: this.name, error: result.error };
+        }
+
+        await publishMessageSent({
+            channel: this.name,
+            customerId: customer.id,
+            messageType: template.name,
+            messageData: message,
+            provider: result.provider,
+            messageId: message.messageId,
+            providerMessageId: result.messageId,
+            sentAt: new Date().toISOString()
+        });
+
+        logger.info(`📨 ${template.name} ${this.name} sent to ${customer.name}`);
+        return { success: true, channel: this.name, messageId: message.messageId };
+    }
+}
+
+class SmsChannel extends MessageChannel<SmsData, OutboundSms> {
+    readonly name = 'sms';
+
+    unreachable(customer: CustomerData, template: EmailTemplate): string | undefined {
+        if (!customer.phone) return 'no phone number';
+        if (!template.sms) return `template ${template.name} has no SMS part`;
+        return undefined;
+    }
+
+    protected build(template: EmailTemplate, customer: CustomerData, data: Record<string, any>, messageId: string): SmsData {
+        return {
+            to: customer.phone as string,
+            body: renderSms(template, customer, data) as string,
+            type: template.name,
+            customerId: customer.id,
+            messageId
+        };
+    }
+
+    protected toOutbound(sms: SmsData): OutboundSms {
+        return { to: sms.to, body: sms.body };
+    }
+}
+
+class PushChannel extends MessageChannel<PushData, OutboundPush> {
+    readonly name = 'push';
+
+    unreachable(customer: CustomerData, template: EmailTemplate): string | undefined {
+        if (!customer.pushTokens || customer.pushTokens.length === 0) return 'no push devices';
+        if (!template.push) return `template ${template.name} has no push part`;
+        return undefined;
+    }
+
+    protected build(template: EmailTemplate, customer: CustomerData, data: Record<string, any>, messageId: string): PushData {
+        return {
+            to: customer.pushTokens as string[],
+            ...renderPush(template, customer, data) as NonNullable<ReturnType<typeof renderPush>>,
+            type: template.name,
+            customerId: customer.id,
+            messageId
+        };
+    }
+
+    protected toOutbound(push: PushData): OutboundPush {
+        return { to: push.to, title: push.title, body: push.body, url: push.url };
+    }
+}
+
+class WebhookChannel extends MessageChannel<WebhookData, OutboundWebhook> {
+    readonly name = 'webhook';
+
+    // the endpoint is configured once for all customers, so only the template matters
+    unreachable(customer: CustomerData, template: EmailTemplate): string | undefined {
+        return template.webhook ? undefined : `template ${template.name} has no webhook part`;
+    }
+
+    protected build(template: EmailTemplate, customer: CustomerData, data: Record<string, any>, messageId: string): WebhookData {
+        return {
+            url: getWebhookUrl(),
+            payload: renderWebhook(template, customer, data) as Record<string, any>,
+            type: template.name,
+            customerId: customer.id,
+            messageId
+        };
+    }
+
+    protected toOutbound(webhook: WebhookData): OutboundWebhook {
+        return { url: webhook.url, payload: webhook.payload, headers: { 'X-Message-Id': webhook.messageId } };
+    }
+}
+
+const channels: Record<ChannelName, Channel> = {
+    email: new EmailChannel(),
+    sms: new SmsChannel(createSmsTransport()),
+    push: new PushChannel(createPushTransport()),
+    webhook: new WebhookChannel(createWebhookTransport())
+};
+
+// the discount template needs a code issued for it, as in the discount email
+const buildTemplateData = async (templateName: string, request: ChannelRequest): Promise<Record<string, any>> => {
+    const variantData = request.variant?.variant.data || {};
+    if (templateName === 'discount') {
+        const { percentage, ...rest } = variantData;
+        const discountData = await buildDiscountTemplateData(request.customer.id, request.data || {}, typeof percentage === 'number' ? percentage : undefined);
+        return { ...discountData, ...rest };
+    }
+    return { ...request.data, ...variantData };
+};
+
+/**
+ * Whether a template has the part a channel renders. Every template can be emailed.
+ */
+export const supportsChannel = (template: EmailTemplate, channel: ChannelName): boolean => {
+    switch (channel) {
+        case 'sms':
+            return !!template.sms;
+        case 'push':
+            return !!template.push;
+        case 'webhook':
+            return !!template.webhook;
+        default:
+            return true;
+    }
+};
+
+/**
+ * The channels, in order, the customer has contact details and consent for
+ * and the template has a part for
+ */
+export const getReachableChannels = async (customer: CustomerData, templateName: string, candidates: ChannelName[]): Promise<ChannelName[]> => {
+    const template = await emailService.getPublishedTemplate(templateName);
+    const reachable: ChannelName[] = [];
+
+    for (const name of candidates) {
+        if (!channels[name].unreachable(customer, template) && (await checkConsent(customer, name)).allowed) {
+            reachable.push(name);
+        }
+    }
+    return reachable;
+};
+
+/**
+ * Sends a template on the first of the channels the customer can get it on.
+ * A channel without contact details, template part or consent is skipped for
+ * the next one; a delivery failure is returned as is, so the step is retried
+ * rather than moved to another channel.
+ */
+export const sendThroughChannels = async (request: ChannelRequest, candidates: ChannelName[]): Promise<ChannelSendResult> => {
+    // a variant may swap in a different template
+    const template = await emailService.getPublishedTemplate(request.variant?.variant.template || request.template);
+    const skipped: string[] = [];
+
+    for (const name of candidates) {
+        const reason = channels[name].unreachable(request.customer, template);
+        if (reason) {
+            skipped.push(`${name}: ${reason}`);
+            continue;
+        }
+
+        const result = await channels[name].send(request, template);
+        if (result.success || !result.suppressed) {
+            return result;
+        }
+        skipped.push(`${name}: ${result.suppressed}`);
+    }
+
+    return { success: false, channel: candidates[candidates.length - 1], suppressed: skipped.join('; ') };
+};
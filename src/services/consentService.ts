@@ -0,0 +1,220 @@
+import { logger } from '../config/kafka';
+import { publicBaseUrl } from '../config/server';
+import { withCustomerLock } from './customerLock';
+import { suppressionRepository, customerRepository } from '../repositories/index';
+import { customerValidator } from '../validation/index';
+import { createSignedToken, verifySignedToken, resolveSigningSecret } from '../utils/signedToken';
+import { ApiResponse, ChannelName, ConsentDecision, CustomerData, SuppressionEntry, SuppressionRequest } from '../types';
+
+interface UnsubscribeTokenPayload {
+    c: string;
+    e: string;
+}
+
+const unsubscribeMailto: string | undefined = process.env.UNSUBSCRIBE_MAILTO;
+const unsubscribeSecret: string = resolveSigningSecret('UNSUBSCRIBE_SECRET');
+
+/**
+ * Creates the token carried by a customer's unsubscribe link. Tokens do not
+ * expire, so a link in an old email keeps working.
+ */
+export const createUnsubscribeToken = (customer: Pick<CustomerData, 'id' | 'email'>): string => {
+    return createSignedToken({ c: customer.id, e: customer.email }, unsubscribeSecret);
+};
+
+export const getUnsubscribeUrl = (customer: Pick<CustomerData, 'id' | 'email'>): string => {
+    return `${publicBaseUrl}/unsubscribe/${createUnsubscribeToken(customer)}`;
+};
+
+/**
+ * List-Unsubscribe headers (RFC 2369) with one-click unsubscribe (RFC 8058)
+ */
+export const getListUnsubscribeHeaders = (customer: Pick<CustomerData, 'id' | 'email'>): Record<string, string> => {
+    const targets = [`<${getUnsubscribeUrl(customer)}>`];
+    if (unsubscribeMailto) {
+        targets.push(`<mailto:${unsubscribeMailto}?subject=unsubscribe>`);
+    }
+
+    return {
+        'List-Unsubscribe': targets.join(', '),
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    };
+};
+
+/**
+ * Decides whether a customer may be sent to on a channel: customers who
+ * turned notifications off, or the channel, are never sent to, and neither
+ * are suppressed email addresses
+ */
+export const checkConsent = async (customer: Pick<CustomerData, 'email' | 'preferences'>, channel: ChannelName = 'email'): Promise<ConsentDecision> => {
+    if (channel === 'email') {
+        const suppression = await suppressionRepository.find(customer.email);
+        if (suppression) {
+            return { allowed: false, reason: `address is suppressed (${suppression.reason})` };
+        }
+    }
+
+    if (customer.preferences && customer.preferences.notifications === false) {
+        return { allowed: false, reason: 'customer opted out of notifications' };
+    }
+
+    if (customer.preferences && customer.preferences.channels && customer.preferences.channels[channel] === false) {
+        return { allowed: false, reason: `customer opted out of ${channel}` };
+    }
+
+    return { allowed: true };
+};
+
+const decodeToken = (token: string): UnsubscribeTokenPayload | undefined => {
+    const payload = verifySignedToken<UnsubscribeTokenPayload>(token, unsubscribeSecret);
+    return payload && typeof payload.c === 'string' && typeof payload.e === 'string' ? payload : undefined;
+};
+
+/**
+ * Looks up who an unsubscribe link belongs to without changing anything
+ */
+export const getUnsubscribeStatus = async (token: string): Promise<ApiResponse<{ email: string; unsubscribed: boolean }>> => {
+    const payload = decodeToken(token);
+    if (!payload) {
+        return {
+            success: false,
+            error: 'Invalid unsubscribe link'
+        };
+    }
+
+    return {
+        success: true,
+        data: {
+            email: payload.e,
+            unsubscribed: !!(await suppressionRepository.find(payload.e))
+        }
+    };
+};
+
+/**
+ * Unsubscribes the customer an unsubscribe link was issued to: the address
+ * is suppressed and the customer's notifications preference is switched off.
+ * Repeating the request is harmless.
+ */
+export const unsubscribe = async (token: string, source: string): Promise<ApiResponse<SuppressionEntry>> => {
+    try {
+        const payload = decodeToken(token);
+        if (!payload) {
+            return {
+                success: false,
+                error: 'Invalid unsubscribe link'
+            };
+        }
+
+        const entry = await suppressionRepository.add({
+            email: payload.e,
+            reason: 'unsubscribed',
+            customerId: payload.c,
+            source,
+            createdAt: new Date().toISOString()
+        });
+
+        await withCustomerLock(payload.c, async () => {
+            const customer = await customerRepository.findById(payload.c);
+            if (customer && customer.preferences.notifications !== false) {
+                await customerRepository.save({
+                    ...customer,
+                    preferences: { ...customer.preferences, notifications: false }
+                });
+            }
+        });
+
+        logger.info(`Customer ${payload.c} (${payload.e}) unsubscribed via ${source}`);
+        return {
+            success: true,
+            message: 'You have been unsubscribed',
+            data: entry
+        };
+    } catch (error) {
+        logger.error('Unsubscribe error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while unsubscribing'
+        };
+    }
+};
+
+export const listSuppressions = async (): Promise<ApiResponse<{ count: number; suppressions: SuppressionEntry[] }>> => {
+    try {
+        const suppressions = await suppressionRepository.findAll();
+
+        return {
+            success: true,
+            data: {
+                count: suppressions.length,
+                suppressions
+            }
+        };
+    } catch (error) {
+        logger.error('List suppressions error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while listing suppressions'
+        };
+    }
+};
+
+export const addSuppression = async (request: SuppressionRequest): Promise<ApiResponse<SuppressionEntry>> => {
+    try {
+        const validation = customerValidator.validateSuppression(request);
+        if (!validation.isValid) {
+            return {
+                success: false,
+                error: validation.error
+            };
+        }
+
+        const entry = await suppressionRepository.add({
+            email: request.email,
+            reason: request.reason || 'manual',
+            source: 'admin',
+            createdAt: new Date().toISOString()
+        });
+
+        logger.info(`Suppressed ${entry.email} (${entry.reason})`);
+        return {
+            success: true,
+            message: 'Address suppressed',
+            data: entry
+        };
+    } catch (error) {
+        logger.error('Add suppression error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while adding suppression'
+        };
+    }
+};
+
+/**
+ * Lifts a suppression. A customer who turned notifications off stays opted out.
+ */
+export const removeSuppression = async (email: string): Promise<ApiResponse<{ email: string }>> => {
+    try {
+        const removed = await suppressionRepository.remove(email);
+        if (!removed) {
+            return {
+                success: false,
+                error: 'Suppression not found'
+            };
+        }
+
+        logger.info(`Removed suppression for ${email}`);
+        return {
+            success: true,
+            message: 'Suppression removed',
+            data: { email }
+        };
+    } catch (error) {
+        logger.error('Remove suppression error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while removing suppression'
+        };
+    }
+};
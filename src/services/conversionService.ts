@@ -0,0 +1,123 @@
+import { logger } from '../config/kafka';
+import { getJourney } from './journeyRegistry';
+import { recordExperimentConversion } from './experimentService';
+import { conversionRepository } from '../repositories/index';
+import Customer from '../models/customer';
+import { ApiResponse, Conversion, PurchaseCompleted, RevenueReport, StepRevenue } from '../types';
+
+const attributionWindowMs: number = parseInt(process.env.ATTRIBUTION_WINDOW_MS || String(7 * 24 * 60 * 60 * 1000), 10);
+
+const addRevenue = (revenue: Record<string, number>, conversion: Conversion): void => {
+    // rounded to cents so repeated float additions do not drift
+    revenue[conversion.currency] = Math.round(((revenue[conversion.currency] || 0) + conversion.orderValue) * 100) / 100;
+};
+
+/**
+ * Records a purchase and attributes it to the last email the customer was
+ * sent within the attribution window (last-touch). A redelivered purchase
+ * for an order that is already recorded is ignored.
+ */
+export const recordConversion = async (customer: Customer, purchase: PurchaseCompleted): Promise<Conversion | undefined> => {
+    const conversion: Conversion = {
+        ...purchase,
+        attribution: customer.getLastEmailSentWithin(new Date(purchase.purchasedAt), attributionWindowMs),
+        recordedAt: new Date().toISOString()
+    };
+
+    if (!await conversionRepository.create(conversion)) {
+        logger.info(`Order ${purchase.orderId} already recorded, skipping`);
+        return undefined;
+    }
+
+    const attribution = conversion.attribution;
+    logger.info(attribution
+        ? `💰 Order ${purchase.orderId} (${purchase.orderValue} ${purchase.currency}) attributed to ${attribution.journeyId} step ${attribution.stepId} (${attribution.template})`
+        : `💰 Order ${purchase.orderId} (${purchase.orderValue} ${purchase.currency}) has no email within the attribution window`);
+
+    await recordExperimentConversion(conversion, attributionWindowMs);
+    return conversion;
+};
+
+export const getCustomerConversions = async (customerId: string): Promise<ApiResponse<{ count: number; conversions: Conversion[] }>> => {
+    try {
+        const conversions = await conversionRepository.findByCustomerId(customerId);
+
+        return {
+            success: true,
+            data: {
+                count: conversions.length,
+                conversions
+            }
+        };
+    } catch (error) {
+        logger.error('Get customer conversions error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while retrieving purchases'
+        };
+    }
+};
+
+/**
+ * Revenue per journey step, optionally for one journey. Revenue is summed per
+ * currency, never converted.
+ */
+export const getRevenueReport = async (journeyId?: string): Promise<ApiResponse<RevenueReport>> => {
+    try {
+        const conversions = await conversionRepository.findAll();
+        const steps: Map<string, StepRevenue> = new Map();
+        const report: RevenueReport = {
+            attributionWindowMs,
+            totals: { conversions: 0, revenue: {} },
+            steps: [],
+            unattributed: { conversions: 0, revenue: {} }
+        };
+
+        for (const conversion of conversions) {
+            const attribution = conversion.attribution;
+            if (journeyId && (!attribution || attribution.journeyId !== journeyId)) {
+                continue;
+            }
+
+            report.totals.conversions++;
+            addRevenue(report.totals.revenue, conversion);
+
+            if (!attribution) {
+                report.unattributed.conversions++;
+                addRevenue(report.unattributed.revenue, conversion);
+                continue;
+            }
+
+            const key = `${attribution.journeyId}:${attribution.stepId}`;
+            let step = steps.get(key);
+            if (!step) {
+                const definition = getJourney(attribution.journeyId)?.steps.find(candidate => candidate.id === attribution.stepId);
+                step = {
+                    journeyId: attribution.journeyId,
+                    stepId: attribution.stepId,
+                    stepName: definition?.name,
+                    template: attribution.template,
+                    conversions: 0,
+                    revenue: {}
+                };
+                steps.set(key, step);
+            }
+            step.conversions++;
+            addRevenue(step.revenue, conversion);
+        }
+
+        report.steps = Array.from(steps.values())
+            .sort((a, b) => a.journeyId.localeCompare(b.journeyId) || a.stepId - b.stepId);
+
+        return {
+            success: true,
+            data: report
+        };
+    } catch (error) {
+        logger.error('Revenue report error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while building revenue report'
+        };
+    }
+};
@@ -0,0 +1,339 @@
+import readline from 'readline';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../config/kafka';
+import { publishCustomerSignup, publishCustomerImported } from './eventService';
+import { customerRepository, customerImportRepository } from '../repositories/index';
+import { customerValidator } from '../validation/index';
+import { CsvRecord, readCsvRecords } from '../utils/csv';
+import { ApiResponse, CustomerData, CustomerImport, CustomerImportFormat, CustomerSignupRequest } from '../types';
+
+const maxRows: number = parseInt(process.env.CUSTOMER_IMPORT_MAX_ROWS || '10000', 10);
+
+// the report keeps this many row errors; `failed` still counts every one
+const MAX_REPORTED_ERRORS = 1000;
+// progress is saved every so many rows rather than after each one
+const PROGRESS_INTERVAL = 100;
+
+const CSV_COLUMNS = ['email', 'name', 'timezone', 'phone', 'pushTokens'];
+const PREFERENCE_COLUMN_PREFIX = 'preferences.';
+
+const CONTENT_TYPE_FORMATS: Record<string, CustomerImportFormat> = {
+    'text/csv': 'csv',
+    'application/x-ndjson': 'ndjson',
+    'application/ndjson': 'ndjson'
+};
+
+interface ImportRow {
+    line: number;
+    data?: CustomerSignupRequest;
+    // set when the row could not be read at all
+    error?: string;
+}
+
+// a customer rows are matched against, by lowercased email
+interface KnownCustomer {
+    id: string;
+    signupDate?: string;
+}
+
+const setPath = (target: Record<string, any>, path: string[], value: any): void => {
+    let node = target;
+    for (const key of path.slice(0, -1)) {
+        node[key] = node[key] && typeof node[key] === 'object' ? node[key] : {};
+        node = node[key];
+    }
+    node[path[path.length - 1]] = value;
+};
+
+const validateCsvHeader = (header: string[]): string | undefined => {
+    for (const column of header) {
+        if (!CSV_COLUMNS.includes(column) && !(column.startsWith(PREFERENCE_COLUMN_PREFIX) && column.length > PREFERENCE_COLUMN_PREFIX.length)) {
+            return `Unknown column "${column}"; expected ${CSV_COLUMNS.join(', ')} or preferences.<name>`;
+        }
+    }
+    if (new Set(header).size !== header.length) {
+        return 'Columns must not repeat';
+    }
+    if (!header.includes('email') || !header.includes('name')) {
+        return 'The header must include the email and name columns';
+    }
+    return undefined;
+};
+
+// empty cells are left out; pushTokens are separated by semicolons and preferences of true or false are booleans
+const toSignupRequest = (header: string[], fields: string[]): CustomerSignupRequest => {
+    const request: Record<string, any> = {};
+
+    header.forEach((column, index) => {
+        const value = fields[index].trim();
+        if (value === '') {
+            return;
+        }
+
+        if (column === 'pushTokens') {
+            request.pushTokens = value.split(';').map(token => token.trim()).filter(Boolean);
+        } else if (column.startsWith(PREFERENCE_COLUMN_PREFIX)) {
+            const preference = value === 'true' ? true : value === 'false' ? false : value;
+            setPath(request, column.split('.'), preference);
+        } else {
+            request[column] = value;
+        }
+    });
+    return request as CustomerSignupRequest;
+};
+
+// yields one row per CSV record after the header; throws on an unterminated quoted field
+async function* readCsvRows(records: AsyncGenerator<CsvRecord>, header: string[]): AsyncGenerator<ImportRow> {
+    for await (const record of records) {
+        yield record.fields.length === header.length
+            ? { line: record.line, data: toSignupRequest(header, record.fields) }
+            : { line: record.line, error: `Expected ${header.length} fields, found ${record.fields.length}` };
+    }
+}
+
+const parseNdjsonLine = (line: string, lineNumber: number): ImportRow => {
+    try {
+        const data = JSON.parse(line);
+        return data && typeof data === 'object' && !Array.isArray(data)
+            ? { line: lineNumber, data }
+            : { line: lineNumber, error: 'Each line must be a JSON object' };
+    } catch (error) {
+        return { line: lineNumber, error: `Invalid JSON: ${(error as Error).message}` };
+    }
+};
+
+// yields one row per non-blank line
+async function* readNdjsonRows(lines: AsyncIterable<string>): AsyncGenerator<ImportRow> {
+    let lineNumber = 0;
+
+    for await (const line of lines) {
+        lineNumber++;
+        if (line.trim() !== '') {
+            yield parseNdjsonLine(line, lineNumber);
+        }
+    }
+}
+
+/**
+ * Reads as much of the file as it takes to reject it outright: the header of
+ * a CSV file. Resolves the rows still to be read, or why the file is refused.
+ */
+const openRows = async (format: CustomerImportFormat, lines: AsyncIterable<string>): Promise<{ rows: AsyncGenerator<ImportRow> } | { error: string }> => {
+    if (format === 'ndjson') {
+        return { rows: readNdjsonRows(lines) };
+    }
+
+    const records = readCsvRecords(lines);
+    const first = await records.next();
+    if (first.done) {
+        return { error: 'The file is empty' };
+    }
+
+    const header = first.value.fields.map(column => column.trim());
+    const headerError = validateCsvHeader(header);
+    return headerError ? { error: headerError } : { rows: readCsvRows(records, header) };
+};
+
+const recordFailure = (customerImport: CustomerImport, row: ImportRow, error: string): void => {
+    customerImport.failed++;
+    if (customerImport.errors.length < MAX_REPORTED_ERRORS) {
+        customerImport.errors.push({
+            line: row.line,
+            ...(row.data && typeof row.data.email === 'string' ? { email: row.data.email } : {}),
+            error
+        });
+    }
+};
+
+/**
+ * Creates or updates the customer of one row. Customers are matched by
+ * email; a new customer signs up as usual unless triggers are suppressed,
+ * everything else is applied without starting a journey.
+ */
+const importRow = async (customerImport: CustomerImport, row: ImportRow, knownCustomers: Map<string, KnownCustomer>): Promise<void> => {
+    if (!row.data) {
+        recordFailure(customerImport, row, row.error as string);
+        return;
+    }
+
+    const validation = customerValidator.validateCustomerSignup(row.data);
+    if (!validation.isValid) {
+        recordFailure(customerImport, row, validation.error as string);
+        return;
+    }
+
+    const emailKey = row.data.email.toLowerCase();
+    const existing = knownCustomers.get(emailKey);
+    const customerData: CustomerData = {
+        id: existing ? existing.id : uuidv4(),
+        name: row.data.name,
+        email: row.data.email,
+        ...(row.data.timezone ? { timezone: row.data.timezone } : {}),
+        ...(row.data.phone ? { phone: row.data.phone } : {}),
+        ...(row.data.pushTokens ? { pushTokens: row.data.pushTokens } : {}),
+        preferences: row.data.preferences || {},
+        // an update keeps the date the customer actually signed up
+        signupDate: existing ? existing.signupDate : new Date().toISOString()
+    };
+
+    if (!existing && !customerImport.suppressTriggers) {
+        await publishCustomerSignup(customerData);
+    } else {
+        await publishCustomerImported(customerData);
+    }
+
+    // a later row with the same email updates this customer
+    knownCustomers.set(emailKey, { id: customerData.id, signupDate: customerData.signupDate });
+    if (existing) {
+        customerImport.updated++;
+    } else {
+        customerImport.created++;
+    }
+};
+
+const runImport = async (customerImport: CustomerImport, rows: AsyncGenerator<ImportRow>): Promise<void> => {
+    const customers = await customerRepository.findAll();
+    const knownCustomers: Map<string, KnownCustomer> = new Map(customers.map(customer => [
+        customer.email.toLowerCase(),
+        { id: customer.id, signupDate: customer.signupDate }
+    ]));
+
+    for await (const row of rows) {
+        if (customerImport.rows >= maxRows) {
+            throw new Error(`Imports must not exceed ${maxRows} rows; the rows before line ${row.line} were imported`);
+        }
+        customerImport.rows++;
+
+        try {
+            await importRow(customerImport, row, knownCustomers);
+        } catch (error) {
+            logger.error(`Customer import ${customerImport.id} failed on line ${row.line}:`, error);
+            recordFailure(customerImport, row, `Internal error: ${(error as Error).message}`);
+        }
+
+        customerImport.processed++;
+        if (customerImport.processed % PROGRESS_INTERVAL === 0) {
+            await customerImportRepository.save(customerImport);
+        }
+    }
+
+    customerImport.status = 'completed';
+    customerImport.completedAt = new Date().toISOString();
+    await customerImportRepository.save(customerImport);
+
+    logger.info(`Customer import ${customerImport.id} completed: ${customerImport.created} created, ${customerImport.updated} updated, ${customerImport.failed} failed`);
+};
+
+/**
+ * Imports an uploaded CSV or NDJSON file in the background, reading it line
+ * by line as it arrives. The format comes from `format` or else the content
+ * type. The request is answered once the file has been accepted: a CSV
+ * header with unknown or missing columns rejects the upload. Later problems
+ * with the file as a whole, such as too many rows or an unterminated quoted
+ * field, fail the import; problems with a row are reported by line. Both are
+ * visible in the import's status.
+ */
+export const startCustomerImport = async (
+    source: Readable,
+    options: { format?: string; contentType?: string; suppressTriggers?: string }
+): Promise<ApiResponse<CustomerImport>> => {
+    try {
+        const mediaType = (options.contentType || '').split(';')[0].trim().toLowerCase();
+        const format = options.format || CONTENT_TYPE_FORMATS[mediaType];
+        const validation = customerValidator.validateImportOptions({ format, suppressTriggers: options.suppressTriggers });
+        if (!validation.isValid) {
+            return {
+                success: false,
+                error: validation.error
+            };
+        }
+
+        const lines = readline.createInterface({ input: source, crlfDelay: Infinity });
+        let opened: { rows: AsyncGenerator<ImportRow> } | { error: string };
+        try {
+            opened = await openRows(format as CustomerImportFormat, lines);
+        } catch (error) {
+            opened = { error: (error as Error).message };
+        }
+        if ('error' in opened) {
+            lines.close();
+            return {
+                success: false,
+                error: opened.error
+            };
+        }
+
+        const customerImport: CustomerImport = {
+            id: uuidv4(),
+            format: format as CustomerImportFormat,
+            suppressTriggers: options.suppressTriggers === 'true',
+            status: 'running',
+            rows: 0,
+            processed: 0,
+            created: 0,
+            updated: 0,
+            failed: 0,
+            errors: [],
+            createdAt: new Date().toISOString()
+        };
+        await customerImportRepository.save(customerImport);
+
+        logger.info(`Importing customers from ${customerImport.format}${customerImport.suppressTriggers ? ' without journey triggers' : ''}`);
+        runImport(customerImport, opened.rows).catch(async error => {
+            logger.error(`Customer import ${customerImport.id} error:`, error);
+            customerImport.status = 'failed';
+            customerImport.error = (error as Error).message;
+            customerImport.completedAt = new Date().toISOString();
+            await customerImportRepository.save(customerImport).catch(() => undefined);
+        }).finally(() => lines.close());
+
+        return {
+            success: true,
+            message: 'Customer import started',
+            data: { ...customerImport }
+        };
+    } catch (error) {
+        logger.error('Start customer import error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while importing customers'
+        };
+    }
+};
+
+export const listCustomerImports = async (): Promise<ApiResponse<{ count: number; imports: CustomerImport[] }>> => {
+    try {
+        const imports = await customerImportRepository.findAll();
+
+        return {
+            success: true,
+            data: {
+                count: imports.length,
+                imports
+            }
+        };
+    } catch (error) {
+        logger.error('List customer imports error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while listing customer imports'
+        };
+    }
+};
+
+export const getCustomerImport = async (importId: string): Promise<ApiResponse<CustomerImport>> => {
+    const customerImport = await customerImportRepository.findById(importId);
+
+    if (!customerImport) {
+        return {
+            success: false,
+            error: 'Customer import not found'
+        };
+    }
+
+    return {
+        success: true,
+        data: customerImport
+    };
+};
@@ -0,0 +1,24 @@
+const pending: Map<string, Promise<unknown>> = new Map();
+
+/**
+ * Runs a task once every earlier task for the same customer has settled.
+ * Whatever loads a customer, changes them and saves them again goes through
+ * here, so overlapping events and scheduled jobs cannot overwrite each
+ * other's changes. A task must not wait for another task of the same
+ * customer, or neither finishes.
+ */
+export const withCustomerLock = <T>(customerId: string, task: () => Promise<T>): Promise<T> => {
+    const previous = pending.get(customerId) || Promise.resolve();
+
+    const next = previous
+        .catch(() => undefined)
+        .then(task)
+        .finally(() => {
+            if (pending.get(customerId) === next) {
+                pending.delete(customerId);
+            }
+        });
+
+    pending.set(customerId, next);
+    return next;
+};
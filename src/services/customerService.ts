@@ -1,16 +1,22 @@
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../config/kafka';
-import { publishCustomerSignup, publishProductPageVisit } from './eventService';
-import { getCustomer as getWorkflowCustomer, getAllCustomers as getAllWorkflowCustomers, getWorkflowStatus, simulateTimePassage as simulateWorkflowTimePassage } from './workflowEngine';
+import { publishCustomerSignup, publishProductPageVisit, publishPurchaseCompleted } from './eventService';
+import { redeemDiscountCode } from './discountService';
+import { getCustomerConversions } from './conversionService';
+import { getCustomer as getWorkflowCustomer, getAllCustomers as getAllWorkflowCustomers, getWorkflowStatus, getScheduledJobs, simulateTimePassage as simulateWorkflowTimePassage } from './workflowEngine';
+import { conversionRepository } from '../repositories/index';
 import { customerValidator } from '../validation/index';
-import { CustomerData, CustomerSignupRequest, ProductVisitRequest, ApiResponse } from '../types';
+import { isValidTimezone } from '../utils/sendWindow';
+import { CustomerData, CustomerSignupRequest, ProductVisitRequest, PurchaseRequest, PurchaseCompleted, Conversion, ApiResponse, ScheduledJob } from '../types';
 
 /**
  * Creates a new customer and triggers signup workflow
  * to send the welcome email and to update the customer's last activity
- * also for the reminder email if needed
+ * also for the reminder email if needed.
+ * The time zone comes from the request body, or is inferred from the client
+ * when the body has none; an inferred zone that is not a valid IANA name is dropped.
  */
-export const createCustomer = async (signupData: CustomerSignupRequest): Promise<ApiResponse<CustomerData>> => {
+export const createCustomer = async (signupData: CustomerSignupRequest, inferredTimezone?: string): Promise<ApiResponse<CustomerData>> => {
     try {
         const validation = customerValidator.validateCustomerSignup(signupData);
         if (!validation.isValid) {
@@ -20,10 +26,14 @@ export const createCustomer = async (signupData: CustomerSignupRequest): Promise
             };
         }
 
+        const timezone = signupData.timezone || (inferredTimezone && isValidTimezone(inferredTimezone) ? inferredTimezone : undefined);
         const customerData: CustomerData = {
             id: uuidv4(),
             name: signupData.name,
             email: signupData.email,
+            ...(timezone ? { timezone } : {}),
+            ...(signupData.phone ? { phone: signupData.phone } : {}),
+            ...(signupData.pushTokens ? { pushTokens: signupData.pushTokens } : {}),
             preferences: signupData.preferences || {},
             signupDate: new Date().toISOString()
         };
@@ -70,7 +80,7 @@ export const recordProductVisit = async (customerId: string, visitData: ProductV
             };
         }
 
-        const customer = getWorkflowCustomer(customerId);
+        const customer = await getWorkflowCustomer(customerId);
         if (!customer) {
             return {
                 success: false,
@@ -104,19 +114,135 @@ export const recordProductVisit = async (customerId: string, visitData: ProductV
     }
 };
 
+/**
+ * Records a completed purchase. A discount code used on the order is redeemed
+ * first, so an invalid or spent code rejects the purchase. The workflow engine
+ * attributes the purchase to the last email sent within the attribution window.
+ */
+export const recordPurchase = async (customerId: string, purchaseData: PurchaseRequest): Promise<ApiResponse<PurchaseCompleted>> => {
+    try {
+        const customerIdValidation = customerValidator.validateCustomerId(customerId);
+        if (!customerIdValidation.isValid) {
+            return {
+                success: false,
+                error: customerIdValidation.error
+            };
+        }
+
+        const purchaseValidation = customerValidator.validatePurchase(purchaseData);
+        if (!purchaseValidation.isValid) {
+            return {
+                success: false,
+                error: purchaseValidation.error
+            };
+        }
+
+        const customer = await getWorkflowCustomer(customerId);
+        if (!customer) {
+            return {
+                success: false,
+                error: 'Customer not found'
+            };
+        }
+
+        // the conversion is only recorded once the event is handled, so the order is claimed up front
+        if (!await conversionRepository.claimOrder({ orderId: purchaseData.orderId, customerId, claimedAt: new Date().toISOString() })) {
+            return {
+                success: false,
+                error: `Order ${purchaseData.orderId} has already been recorded`
+            };
+        }
+
+        let discountCode: string | undefined;
+        if (purchaseData.discountCode) {
+            const redemption = await redeemDiscountCode(purchaseData.discountCode, { customerId, orderId: purchaseData.orderId });
+            if (!redemption.success || !redemption.data) {
+                await conversionRepository.releaseOrder(purchaseData.orderId);
+                return {
+                    success: false,
+                    error: redemption.error
+                };
+            }
+            discountCode = redemption.data.code;
+        }
+
+        const purchase: PurchaseCompleted = {
+            customerId,
+            orderId: purchaseData.orderId,
+            orderValue: purchaseData.orderValue,
+            currency: purchaseData.currency || 'USD',
+            ...(discountCode ? { discountCode } : {}),
+            purchasedAt: new Date().toISOString()
+        };
+
+        try {
+            await publishPurchaseCompleted(purchase);
+        } catch (error) {
+            // the order can be placed again; a redeemed code is accepted again for the same order
+            await conversionRepository.releaseOrder(purchase.orderId);
+            throw error;
+        }
+
+        logger.info(`Purchase recorded: ${customer.name} placed order ${purchase.orderId} (${purchase.orderValue} ${purchase.currency})`);
+
+        return {
+            success: true,
+            message: 'Purchase recorded',
+            data: purchase
+        };
+    } catch (error) {
+        logger.error('Record purchase error:', error);
+        return {
+            success: false,
+            error: 'Internal server error during purchase recording'
+        };
+    }
+};
+
+/**
+ * Retrieves a customer's recorded purchases with their email attribution
+ */
+export const getCustomerPurchases = async (customerId: string): Promise<ApiResponse<{ count: number; conversions: Conversion[] }>> => {
+    const customerIdValidation = customerValidator.validateCustomerId(customerId);
+    if (!customerIdValidation.isValid) {
+        return {
+            success: false,
+            error: customerIdValidation.error
+        };
+    }
+
+    const customer = await getWorkflowCustomer(customerId);
+    if (!customer) {
+        return {
+            success: false,
+            error: 'Customer not found'
+        };
+    }
+
+    return getCustomerConversions(customerId);
+};
+
 /**
  * Retrieves all customers
  */
 export const getAllCustomers = async (): Promise<ApiResponse<{ count: number; customers: CustomerData[] }>> => {
-    const allCustomers = getAllWorkflowCustomers();
+    try {
+        const allCustomers = await getAllWorkflowCustomers();
 
-    return {
-        success: true,
-        data: {
-            count: allCustomers.length,
-            customers: allCustomers
-        }
-    };
+        return {
+            success: true,
+            data: {
+                count: allCustomers.length,
+                customers: allCustomers
+            }
+        };
+    } catch (error) {
+        logger.error('Get all customers error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while fetching customers'
+        };
+    }
 };
 
 /**
@@ -132,7 +258,7 @@ export const getCustomerById = async (customerId: string): Promise<ApiResponse<C
             };
         }
 
-        const customer = getWorkflowCustomer(customerId);
+        const customer = await getWorkflowCustomer(customerId);
 
         if (!customer) {
             return {
@@ -167,7 +293,7 @@ export const getCustomerWorkflowStatus = async (customerId: string): Promise<Api
             };
         }
 
-        const workflowStatus = getWorkflowStatus(customerId);
+        const workflowStatus = await getWorkflowStatus(customerId);
 
         if (!workflowStatus) {
             return {
@@ -189,6 +315,46 @@ export const getCustomerWorkflowStatus = async (customerId: string): Promise<Api
     }
 };
 
+/**
+ * Retrieves the jobs still pending in the scheduler for a customer
+ */
+export const getCustomerScheduledJobs = async (customerId: string): Promise<ApiResponse<{ count: number; jobs: ScheduledJob[] }>> => {
+    try {
+        const customerIdValidation = customerValidator.validateCustomerId(customerId);
+        if (!customerIdValidation.isValid) {
+            return {
+                success: false,
+                error: customerIdValidation.error
+            };
+        }
+
+        const customer = await getWorkflowCustomer(customerId);
+
+        if (!customer) {
+            return {
+                success: false,
+                error: 'Customer not found'
+            };
+        }
+
+        const jobs = await getScheduledJobs(customerId);
+
+        return {
+            success: true,
+            data: {
+                count: jobs.length,
+                jobs
+            }
+        };
+    } catch (error) {
+        logger.error('Get scheduled jobs error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while fetching scheduled jobs'
+        };
+    }
+};
+
 /**
  * Simulates time passage for demo purposes
  */
@@ -202,7 +368,7 @@ export const simulateTimePassage = async (customerId: string): Promise<ApiRespon
             };
         }
 
-        const customer = getWorkflowCustomer(customerId);
+        const customer = await getWorkflowCustomer(customerId);
 
         if (!customer) {
             return {
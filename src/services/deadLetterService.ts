@@ -0,0 +1,144 @@
+import { logger } from '../config/kafka';
+import { publishRaw } from './eventService';
+import { JOB_DEAD_LETTER_TOPIC, redriveJob } from './scheduler';
+import { deadLetterRepository } from '../repositories/index';
+import { RETRY_HEADERS, retryTopic, stripRetryHeaders } from '../events/index';
+import { ApiResponse, DeadLetter } from '../types';
+
+/**
+ * Lists dead-lettered messages, optionally for one original topic
+ */
+export const listDeadLetters = async (topic?: string): Promise<ApiResponse<{ count: number; messages: DeadLetter[] }>> => {
+    try {
+        const messages = await deadLetterRepository.findAll(topic);
+
+        return {
+            success: true,
+            data: {
+                count: messages.length,
+                messages
+            }
+        };
+    } catch (error) {
+        logger.error('List dead letters error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while listing dead letters'
+        };
+    }
+};
+
+export const getDeadLetter = async (id: string): Promise<ApiResponse<DeadLetter>> => {
+    const deadLetter = await deadLetterRepository.findById(id);
+
+    if (!deadLetter) {
+        return {
+            success: false,
+            error: 'Dead letter not found'
+        };
+    }
+
+    return {
+        success: true,
+        data: deadLetter
+    };
+};
+
+const redrive = async (deadLetter: DeadLetter): Promise<void> => {
+    // a scheduled job that ran out of attempts goes back to the scheduler
+    if (deadLetter.topic === JOB_DEAD_LETTER_TOPIC) {
+        await redriveJob(JSON.parse(deadLetter.value));
+        await deadLetterRepository.delete(deadLetter.id);
+        logger.info(`Redrove dead letter ${deadLetter.id} to the scheduler`);
+        return;
+    }
+
+    // with a fresh attempt count, through the retry topic when only one consumer group failed it
+    const consumerGroup = deadLetter.headers[RETRY_HEADERS.CONSUMER_GROUP];
+    const headers = {
+        ...stripRetryHeaders(deadLetter.headers),
+        ...(consumerGroup ? { [RETRY_HEADERS.ORIGINAL_TOPIC]: deadLetter.topic, [RETRY_HEADERS.CONSUMER_GROUP]: consumerGroup } : {}),
+        'redriven-at': new Date().toISOString()
+    };
+    await publishRaw(consumerGroup ? retryTopic(deadLetter.topic) : deadLetter.topic, {
+        key: deadLetter.key,
+        value: deadLetter.value,
+        headers
+    });
+    await deadLetterRepository.delete(deadLetter.id);
+
+    logger.info(`Redrove dead letter ${deadLetter.id} to ${deadLetter.topic}${consumerGroup ? ` for consumer group ${consumerGroup}` : ''}`);
+};
+
+/**
+ * Republishes a dead-lettered message to its original topic
+ */
+export const redriveDeadLetter = async (id: string): Promise<ApiResponse<{ id: string; topic: string }>> => {
+    try {
+        const deadLetter = await deadLetterRepository.findById(id);
+
+        if (!deadLetter) {
+            return {
+                success: false,
+                error: 'Dead letter not found'
+            };
+        }
+
+        await redrive(deadLetter);
+
+        return {
+            success: true,
+            message: 'Dead letter redriven',
+            data: { id, topic: deadLetter.topic }
+        };
+    } catch (error) {
+        logger.error('Redrive dead letter error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while redriving dead letter'
+        };
+    }
+};
+
+/**
+ * Republishes every dead-lettered message, optionally for one original topic
+ */
+export const redriveAllDeadLetters = async (topic?: string): Promise<ApiResponse<{ count: number }>> => {
+    try {
+        const deadLetters = await deadLetterRepository.findAll(topic);
+
+        for (const deadLetter of deadLetters) {
+            await redrive(deadLetter);
+        }
+
+        return {
+            success: true,
+            message: `Redrove ${deadLetters.length} dead letter(s)`,
+            data: { count: deadLetters.length }
+        };
+    } catch (error) {
+        logger.error('Redrive all dead letters error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while redriving dead letters'
+        };
+    }
+};
+
+export const discardDeadLetter = async (id: string): Promise<ApiResponse<{ id: string }>> => {
+    const deleted = await deadLetterRepository.delete(id);
+
+    if (!deleted) {
+        return {
+            success: false,
+            error: 'Dead letter not found'
+        };
+    }
+
+    logger.info(`Discarded dead letter ${id}`);
+    return {
+        success: true,
+        message: 'Dead letter discarded',
+        data: { id }
+    };
+};
@@ -0,0 +1,208 @@
+import { randomInt } from 'crypto';
+import { logger } from '../config/kafka';
+import { discountCodeRepository, customerRepository } from '../repositories/index';
+import { customerValidator } from '../validation/index';
+import { ApiResponse, DiscountCode, DiscountRedemptionRequest, ProductVisit } from '../types';
+
+const discountPercentage: number = parseInt(process.env.DISCOUNT_PERCENTAGE || '20', 10);
+const discountValidityDays: number = parseInt(process.env.DISCOUNT_VALIDITY_DAYS || '7', 10);
+
+// no 0/O or 1/I so codes survive being read out or retyped
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+const MAX_ISSUE_ATTEMPTS = 5;
+
+const generateCode = (percentage: number): string => {
+    let suffix = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+        suffix += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    }
+    return `SAVE${percentage}-${suffix}`;
+};
+
+const isExpired = (discount: DiscountCode, now: number = Date.now()): boolean => {
+    return Date.parse(discount.expiresAt) <= now;
+};
+
+// expiry is not written back to the store; it is derived whenever a code is read
+const withCurrentStatus = (discount: DiscountCode): DiscountCode => {
+    if (discount.status === 'active' && isExpired(discount)) {
+        return { ...discount, status: 'expired' };
+    }
+    return discount;
+};
+
+/**
+ * Issues a unique, single-use discount code for a customer. An unexpired,
+ * unredeemed code issued for the same product and percentage is returned
+ * instead of a new one, so a retried discount email repeats the code the
+ * customer may already have.
+ */
+export const issueDiscountCode = async (
+    customerId: string,
+    product: Partial<ProductVisit> = {},
+    percentage: number = discountPercentage
+): Promise<DiscountCode> => {
+    const existing = (await discountCodeRepository.findByCustomerId(customerId))
+        .map(withCurrentStatus)
+        .find(discount => discount.status === 'active' && discount.productId === product.productId && discount.percentage === percentage);
+    if (existing) {
+        return existing;
+    }
+
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + discountValidityDays * 24 * 60 * 60 * 1000);
+
+    for (let attempt = 1; attempt <= MAX_ISSUE_ATTEMPTS; attempt++) {
+        const discount: DiscountCode = {
+            code: generateCode(percentage),
+            customerId,
+            percentage,
+            productId: product.productId,
+            productName: product.productName,
+            productCategory: product.category,
+            issuedAt: issuedAt.toISOString(),
+            expiresAt: expiresAt.toISOString(),
+            status: 'active'
+        };
+
+        if (await discountCodeRepository.create(discount)) {
+            logger.info(`Issued discount code ${discount.code} (${discount.percentage}%) to customer ${customerId}`);
+            return discount;
+        }
+    }
+
+    throw new Error(`Could not issue a unique discount code after ${MAX_ISSUE_ATTEMPTS} attempts`);
+};
+
+/**
+ * Issues the customer's code and builds the data the discount template
+ * renders, whichever channel it goes out on
+ */
+export const buildDiscountTemplateData = async (
+    customerId: string,
+    product: Partial<ProductVisit> = {},
+    percentage?: number
+): Promise<{ discountCode: string; percentage: number; expiryDate: string; productCategory: string }> => {
+    const discount = await issueDiscountCode(customerId, product, percentage);
+    return {
+        discountCode: discount.code,
+        percentage: discount.percentage,
+        expiryDate: new Date(discount.expiresAt).toDateString(),
+        productCategory: product.category || 'amazing products'
+    };
+};
+
+/**
+ * Lists every discount code issued to a customer with its current status
+ */
+export const getCustomerDiscounts = async (customerId: string): Promise<ApiResponse<{ count: number; discounts: DiscountCode[] }>> => {
+    try {
+        const validation = customerValidator.validateCustomerId(customerId);
+        if (!validation.isValid) {
+            return {
+                success: false,
+                error: validation.error
+            };
+        }
+
+        const customer = await customerRepository.findById(customerId);
+        if (!customer) {
+            return {
+                success: false,
+                error: 'Customer not found'
+            };
+        }
+
+        const discounts = (await discountCodeRepository.findByCustomerId(customerId)).map(withCurrentStatus);
+
+        return {
+            success: true,
+            data: {
+                count: discounts.length,
+                discounts
+            }
+        };
+    } catch (error) {
+        logger.error('Get customer discounts error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while retrieving discounts'
+        };
+    }
+};
+
+/**
+ * Redeems a discount code for the customer it was issued to.
+ * Codes are single-use and cannot be redeemed after they expire.
+ */
+export const redeemDiscountCode = async (code: string, request: DiscountRedemptionRequest): Promise<ApiResponse<DiscountCode>> => {
+    try {
+        const normalizedCode = (code || '').toUpperCase();
+        const validation = customerValidator.validateDiscountRedemption(normalizedCode, request);
+        if (!validation.isValid) {
+            return {
+                success: false,
+                error: validation.error
+            };
+        }
+
+        const discount = await discountCodeRepository.findByCode(normalizedCode);
+        // a code issued to someone else is reported as unknown rather than confirming it exists
+        if (!discount || discount.customerId !== request.customerId) {
+            return {
+                success: false,
+                error: 'Discount code not found'
+            };
+        }
+
+        // the same order redeeming again, e.g. a retried purchase, gets the earlier redemption
+        if (discount.status === 'redeemed' && request.orderId && discount.orderId === request.orderId) {
+            return {
+                success: true,
+                message: `Discount code redeemed: ${discount.percentage}% off`,
+                data: discount
+            };
+        }
+
+        if (discount.status === 'redeemed') {
+            return {
+                success: false,
+                error: 'Discount code has already been redeemed'
+            };
+        }
+
+        if (isExpired(discount)) {
+            return {
+                success: false,
+                error: 'Discount code has expired'
+            };
+        }
+
+        const redeemed = await discountCodeRepository.redeem({
+            code: normalizedCode,
+            customerId: request.customerId,
+            orderId: request.orderId,
+            redeemedAt: new Date().toISOString()
+        });
+        if (!redeemed) {
+            return {
+                success: false,
+                error: 'Discount code has already been redeemed'
+            };
+        }
+
+        logger.info(`Discount code ${normalizedCode} redeemed by customer ${request.customerId}`);
+        return {
+            success: true,
+            message: `Discount code redeemed: ${redeemed.percentage}% off`,
+            data: redeemed
+        };
+    } catch (error) {
+        logger.error('Redeem discount code error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while redeeming discount code'
+        };
+    }
+};
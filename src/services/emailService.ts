@@ -1,199 +1,201 @@
+import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../config/kafka';
 import { publishEmailSent } from './eventService';
-import { CustomerData, EmailTemplate, EmailData, ProductVisit } from '../types';
+import { buildDiscountTemplateData } from './discountService';
+import { checkConsent, getListUnsubscribeHeaders, getUnsubscribeUrl } from './consentService';
+import { applyTracking } from './trackingService';
+import { EmailTransport, TransportError, createEmailTransport, getFromAddress, renderTemplate } from '../email/index';
+import { templateRepository } from '../repositories/index';
+import { CustomerData, EmailTemplate, EmailData, ExperimentVariant, ProductVisit, RenderedEmail } from '../types';
+
+export interface EmailSendResult {
+    success: boolean;
+    emailData?: EmailData;
+    messageId?: string;
+    providerMessageId?: string;
+    // set when consent or the suppression list blocked the send
+    suppressed?: string;
+    error?: TransportError;
+}
+
+// an experiment variant to send in place of the plain email
+export interface EmailVariant {
+    experimentId: string;
+    variant: ExperimentVariant;
+}
 
 export class EmailService {
-    private emailTemplates: Record<string, EmailTemplate> = {
-        welcome: {
-            subject: 'Welcome to Our Platform! 🎉',
-            template: (customer: CustomerData) => `
-        <h2>Welcome ${customer.name}!</h2>
-        <p>Thank you for joining our platform. We're excited to have you on board!</p>
-        <p>Here's what you can expect:</p>
-        <ul>
-          <li>🎯 Personalized product recommendations</li>
-          <li>🔥 Exclusive deals and offers</li>
-          <li>⚡ Lightning-fast customer support</li>
-        </ul>
-        <p>Start exploring now and discover amazing products tailored just for you!</p>
-        <p>Happy shopping!</p>
-      `
-        },
-        discount: {
-            subject: 'Special 20% Discount Just for You! 💝',
-            template: (customer: CustomerData, data: any) => `
-        <h2>Hi ${customer.name}!</h2>
-        <p>We noticed you were interested in our ${data.productCategory || 'products'}.</p>
-        <div style="background: #f0f8ff; padding: 20px; margin: 20px 0; border-radius: 8px;">
-          <h3>🎉 Special Offer: 20% OFF</h3>
-          <p><strong>Discount Code: ${data.discountCode}</strong></p>
-          <p>Valid until: ${data.expiryDate}</p>
-        </div>
-        <p>Don't miss out on this exclusive offer! Use your discount code at checkout.</p>
-        <p><a href="#" style="background: #007cba; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px;">Shop Now</a></p>
-      `
-        },
-        reminder: {
-            subject: 'We Miss You! Come Back for Exclusive Offers 💙',
-            template: (customer: CustomerData) => `
-        <h2>Hi ${customer.name},</h2>
-        <p>We haven't seen you in a while and wanted to check in!</p>
-        <p>Here's what's new since your last visit:</p>
-        <ul>
-          <li>🆕 New product collections</li>
-          <li>💰 Enhanced loyalty rewards</li>
-          <li>🔧 Improved user experience</li>
-        </ul>
-        <div style="background: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px;">
-          <h3>🎁 Welcome Back Offer</h3>
-          <p><strong>Get 15% OFF your next purchase!</strong></p>
-          <p>Code: WELCOME-BACK-15</p>
-        </div>
-        <p><a href="#" style="background: #007cba; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px;">Explore Now</a></p>
-      `
-        }
-    };
+    constructor(private transport: EmailTransport = createEmailTransport()) {}
 
-    async sendWelcomeEmail(customer: CustomerData): Promise<{ success: boolean; emailData: EmailData }> {
+    async sendWelcomeEmail(customer: CustomerData): Promise<EmailSendResult> {
+        return this.sendTemplateEmail('welcome', customer);
+    }
+
+    /**
+     * Renders the published version of a managed template and sends it
+     */
+    async sendTemplateEmail(templateName: string, customer: CustomerData, data: Record<string, any> = {}, variant?: EmailVariant): Promise<EmailSendResult> {
         try {
-            const template = this.emailTemplates.welcome;
-            const emailData: EmailData = {
-                to: customer.email,
-                subject: template.subject,
-                html: template.template(customer),
-                type: 'welcome',
-                customerId: customer.id
-            };
-
-            // Simulate email sending delay
-            await this.simulateEmailDelivery();
-
-            // Log the email (in production, this would integrate with real email service)
-            logger.info(`📧 Welcome email sent to ${customer.name} (${customer.email})`);
-            console.log('\n=== WELCOME EMAIL ===');
-            console.log(`To: ${emailData.to}`);
-            console.log(`Subject: ${emailData.subject}`);
-            console.log('Content:', emailData.html);
-            console.log('===================\n');
-
-            // Publish email sent event
-            await publishEmailSent({
-                customerId: customer.id,
-                emailType: 'welcome',
-                emailData,
-                sentAt: new Date().toISOString()
+            const result = await this.send(customer, templateName, async () => {
+                const template = await this.getPublishedTemplate(templateName);
+                const templateData = { ...data, ...variant?.variant.data };
+                return {
+                    to: customer.email,
+                    ...this.render(this.applyVariant(template, variant), customer, templateData),
+                    type: templateName,
+                    customerId: customer.id,
+                    ...this.experimentOf(variant),
+                    ...(Object.keys(templateData).length > 0 ? { metadata: templateData } : {})
+                };
             });
-
-            return { success: true, emailData };
+            if (result.success) {
+                logger.info(`📧 ${templateName} email sent to ${customer.name} (${customer.email})`);
+            }
+            return result;
         } catch (error) {
-            logger.error('Failed to send welcome email:', error);
+            logger.error(`Failed to send ${templateName} email:`, error);
             throw error;
         }
     }
 
-    async sendDiscountEmail(customer: CustomerData, productData: ProductVisit = {} as ProductVisit): Promise<{ success: boolean; emailData: EmailData; discountCode: string }> {
+    async sendDiscountEmail(
+        customer: CustomerData,
+        productData: ProductVisit = {} as ProductVisit,
+        variant?: EmailVariant
+    ): Promise<EmailSendResult & { discountCode?: string }> {
         try {
-            const discountCode = this.generateDiscountCode();
-            const expiryDate = new Date();
-            expiryDate.setDate(expiryDate.getDate() + 7);
-
-            const template = this.emailTemplates.discount;
-            const templateData = {
-                discountCode,
-                expiryDate: expiryDate.toDateString(),
-                productCategory: productData.category || 'amazing products'
-            };
-
-            const emailData: EmailData = {
-                to: customer.email,
-                subject: template.subject,
-                html: template.template(customer, templateData),
-                type: 'discount',
-                customerId: customer.id,
-                metadata: templateData
-            };
-
-            await this.simulateEmailDelivery();
-
-            logger.info(`📧 Discount email sent to ${customer.name} (${customer.email}) - Code: ${discountCode}`);
-            console.log('\n=== DISCOUNT EMAIL ===');
-            console.log(`To: ${emailData.to}`);
-            console.log(`Subject: ${emailData.subject}`);
-            console.log(`Discount Code: ${discountCode}`);
-            console.log('Content:', emailData.html);
-            console.log('====================\n');
-
-            await publishEmailSent({
-                customerId: customer.id,
-                emailType: 'discount',
-                emailData,
-                sentAt: new Date().toISOString()
+            let discountCode: string | undefined;
+
+            // the code is only issued once consent is confirmed
+            const result = await this.send(customer, 'discount', async () => {
+                const { percentage, ...variantData } = variant?.variant.data || {};
+                const templateData = {
+                    ...await buildDiscountTemplateData(customer.id, productData, typeof percentage === 'number' ? percentage : undefined),
+                    ...variantData
+                };
+                discountCode = templateData.discountCode;
+
+                const template = await this.getPublishedTemplate('discount');
+                return {
+                    to: customer.email,
+                    ...this.render(this.applyVariant(template, variant), customer, templateData),
+                    type: 'discount',
+                    customerId: customer.id,
+                    ...this.experimentOf(variant),
+                    metadata: templateData
+                };
             });
-
-            return { success: true, emailData, discountCode };
+            if (result.success) {
+                logger.info(`📧 Discount email sent to ${customer.name} (${customer.email}) - Code: ${discountCode}`);
+            }
+            return { ...result, discountCode };
         } catch (error) {
             logger.error('Failed to send discount email:', error);
             throw error;
         }
     }
 
-    async sendReminderEmail(customer: CustomerData): Promise<{ success: boolean; emailData: EmailData }> {
-        try {
-            const template = this.emailTemplates.reminder;
-            const emailData: EmailData = {
-                to: customer.email,
-                subject: template.subject,
-                html: template.template(customer),
-                type: 'reminder',
-                customerId: customer.id
-            };
-
-            await this.simulateEmailDelivery();
-
-            logger.info(`📧 Reminder email sent to ${customer.name} (${customer.email})`);
-            console.log('\n=== REMINDER EMAIL ===');
-            console.log(`To: ${emailData.to}`);
-            console.log(`Subject: ${emailData.subject}`);
-            console.log('Content:', emailData.html);
-            console.log('====================\n');
-
-            await publishEmailSent({
-                customerId: customer.id,
-                emailType: 'reminder',
-                emailData,
-                sentAt: new Date().toISOString()
-            });
+    async sendReminderEmail(customer: CustomerData): Promise<EmailSendResult> {
+        return this.sendTemplateEmail('reminder', customer);
+    }
 
-            return { success: true, emailData };
-        } catch (error) {
-            logger.error('Failed to send reminder email:', error);
-            throw error;
+    getTransportName(): string {
+        return this.transport.name;
+    }
+
+    async hasTemplate(name: string): Promise<boolean> {
+        const template = await templateRepository.findById(name);
+        return !!template && template.publishedVersion !== null;
+    }
+
+    async getPublishedTemplate(name: string): Promise<EmailTemplate> {
+        const template = await templateRepository.findById(name);
+        const published = template && template.versions.find(version => version.version === template.publishedVersion);
+        if (!published) {
+            throw new Error(`No published version of email template: ${name}`);
         }
+        return published;
+    }
+
+    private applyVariant(template: EmailTemplate, variant?: EmailVariant): EmailTemplate {
+        return variant?.variant.subject ? { ...template, subject: variant.variant.subject } : template;
+    }
+
+    private experimentOf(variant?: EmailVariant): Pick<EmailData, 'experiment'> {
+        return variant ? { experiment: { experimentId: variant.experimentId, variant: variant.variant.id } } : {};
     }
 
-    private generateDiscountCode(): string {
-        const codes = ['SAVE20NOW', 'WELCOME20', 'NEWBIE20', 'SPECIAL20', 'DEAL20'];
-        return codes[Math.floor(Math.random() * codes.length)] + Math.floor(Math.random() * 1000);
+    // every template can link to the customer's unsubscribe page as {{data.unsubscribeUrl}}
+    private render(template: EmailTemplate, customer: CustomerData, data: Record<string, any>): RenderedEmail {
+        return renderTemplate(template, customer, { ...data, unsubscribeUrl: getUnsubscribeUrl(customer) });
     }
 
-    private async simulateEmailDelivery(): Promise<void> {
-        // Simulate network delay for email sending
-        const delay = Math.random() * 2000 + 500; // 0.5-2.5 seconds
-        return new Promise(resolve => setTimeout(resolve, delay));
+    /**
+     * The single send path: checks consent before the email is built, then
+     * delivers it with List-Unsubscribe headers and open/click tracking
+     */
+    private async send(customer: CustomerData, type: string, build: () => Promise<EmailData>): Promise<EmailSendResult> {
+        const consent = await checkConsent(customer);
+        if (!consent.allowed) {
+            logger.info(`📧 Skipped ${type} email to ${customer.email}: ${consent.reason}`);
+            return { success: false, suppressed: consent.reason };
+        }
+
+        const emailData = await build();
+        return this.deliver(applyTracking({
+            ...emailData,
+            messageId: uuidv4(),
+            headers: { ...emailData.headers, ...getListUnsubscribeHeaders(customer) }
+        }));
+    }
+
+    /**
+     * Hands the email to the transport and publishes EMAIL_SENT on success.
+     * Transport failures come back as a result rather than an exception.
+     */
+    private async deliver(emailData: EmailData): Promise<EmailSendResult> {
+        const result = await this.transport.send({
+            to: emailData.to,
+            from: getFromAddress(),
+            subject: emailData.subject,
+            html: emailData.html,
+            text: emailData.text,
+            headers: emailData.headers
+        });
+
+        if (!result.ok) {
+            logger.error(`📧 Failed to send ${emailData.type} email to ${emailData.to} via ${result.provider} [${result.error.code}]: ${result.error.message}`);
+            return { success: false, emailData, error: result.error };
+        }
+
+        // the email is already out, so a failed notification must not fail the send
+        await publishEmailSent({
+            customerId: emailData.customerId,
+            emailType: emailData.type,
+            emailData,
+            provider: result.provider,
+            messageId: emailData.messageId,
+            providerMessageId: result.messageId,
+            sentAt: new Date().toISOString()
+        }).catch(error => logger.error('Publish email sent error:', error));
+
+        return { success: true, emailData, messageId: emailData.messageId, providerMessageId: result.messageId };
     }
 
-    async processEmailQueue(emailRequest: { type: string; customer: CustomerData; data?: any }): Promise<any> {
-        const { type, customer, data } = emailRequest;
+    async processEmailQueue(emailRequest: { type: string; customer: CustomerData; data?: any; variant?: EmailVariant }): Promise<EmailSendResult> {
+        const { customer, data, variant } = emailRequest;
+        // a variant may swap in a different template
+        const type = variant?.variant.template || emailRequest.type;
 
         switch (type) {
             case 'welcome':
-                return await this.sendWelcomeEmail(customer);
+                return variant ? await this.sendTemplateEmail(type, customer, {}, variant) : await this.sendWelcomeEmail(customer);
             case 'discount':
-                return await this.sendDiscountEmail(customer, data);
+                return await this.sendDiscountEmail(customer, data, variant);
             case 'reminder':
-                return await this.sendReminderEmail(customer);
+                return variant ? await this.sendTemplateEmail(type, customer, {}, variant) : await this.sendReminderEmail(customer);
             default:
-                throw new Error(`Unknown email type: ${type}`);
+                return await this.sendTemplateEmail(type, customer, data, variant);
         }
     }
 }
@@ -1,37 +1,89 @@
-import { producer, consumer, topics, logger } from '../config/kafka';
+import { topics, defaultGroupId, logger } from '../config/kafka';
 import { v4 as uuidv4 } from 'uuid';
-import { Event, EventType, CustomerData, ProductVisit } from '../types';
+import {
+    EventBus,
+    BusMessage,
+    KafkaEventBus,
+    InMemoryEventBus,
+    SubscribeOptions,
+    RETRY_HEADERS,
+    retryTopic,
+    deadLetterTopic,
+    getMaxAttempts,
+    getRetryDelay
+} from '../events/index';
+import { processedEventRepository, deadLetterRepository } from '../repositories/index';
+import { registerJobHandler, scheduleJob } from './scheduler';
+import { Event, EventType, CustomerData, CustomerErasure, ProductVisit, ConsumerStats, EmailEngagement, PurchaseCompleted, TrackedEvent, IdentifyData, ScheduledJob } from '../types';
 
-let isConnected: boolean = false;
+// kafka | memory | auto (try Kafka, fall back to in-memory)
+const eventBusMode: string = process.env.EVENT_BUS || 'auto';
+
+const RETRY_MESSAGE_JOB = 'retry_message';
+
+let bus: EventBus | null = null;
+
+const consumerStats: ConsumerStats = {
+    processed: 0,
+    duplicates: 0,
+    failed: 0,
+    retried: 0,
+    deadLettered: 0
+};
 
 export const connect = async (): Promise<void> => {
-    try {
-        await producer.connect();
-        await consumer.connect();
-        isConnected = true;
-        logger.info('Event service connected to Kafka');
-    } catch (error) {
-        logger.error('Failed to connect event service:', error);
-        throw error;
+    registerJobHandler(RETRY_MESSAGE_JOB, republishRetry);
+
+    if (eventBusMode !== 'memory') {
+        const kafkaBus = new KafkaEventBus();
+        try {
+            await kafkaBus.connect();
+            bus = kafkaBus;
+            logger.info('Event service connected to Kafka');
+            return;
+        } catch (error) {
+            if (eventBusMode === 'kafka') {
+                logger.error('Failed to connect event service:', error);
+                throw error;
+            }
+            logger.warn(`Kafka not available, using in-memory event processing: ${(error as Error).message}`);
+        }
     }
+
+    const memoryBus = new InMemoryEventBus();
+    await memoryBus.connect();
+    bus = memoryBus;
+    logger.info('Event service connected to in-memory event bus');
 };
 
 export const disconnect = async (): Promise<void> => {
+    if (!bus) {
+        return;
+    }
+
     try {
-        await producer.disconnect();
-        await consumer.disconnect();
-        isConnected = false;
-        logger.info('Event service disconnected from Kafka');
+        await bus.disconnect();
+        logger.info(`Event service disconnected from ${bus.name} event bus`);
+        bus = null;
     } catch (error) {
         logger.error('Failed to disconnect event service:', error);
     }
 };
 
+export const getEventBusName = (): string | null => {
+    return bus ? bus.name : null;
+};
+
+export const getConsumerStats = (): ConsumerStats => {
+    return { ...consumerStats };
+};
+
 /**
- * Publish an event to a Kafka topic
+ * Publish an event to a topic on the active event bus. Events are keyed by
+ * customer unless a key is given.
  */
-export const publishEvent = async (topic: string, eventType: EventType, data: any): Promise<Event> => {
-    if (!isConnected) {
+export const publishEvent = async (topic: string, eventType: EventType, data: any, key?: string): Promise<Event> => {
+    if (!bus) {
         throw new Error('Event service not connected');
     }
 
@@ -43,17 +95,14 @@ export const publishEvent = async (topic: string, eventType: EventType, data: an
     };
 
     try {
-        await producer.send({
-            topic,
-            messages: [{
-                key: data.customerId || event.id,
-                value: JSON.stringify(event),
-                headers: {
-                    'event-type': eventType,
-                    'correlation-id': event.id
-                }
-            }]
-        });
+        await bus.publish(topic, [{
+            key: key || data.customerId || event.id,
+            value: JSON.stringify(event),
+            headers: {
+                'event-type': eventType,
+                'correlation-id': event.id
+            }
+        }]);
 
         logger.info(`Event published: ${eventType} to ${topic}`);
         return event;
@@ -63,27 +112,151 @@ export const publishEvent = async (topic: string, eventType: EventType, data: an
     }
 };
 
-export const subscribeToEvents = async (topics: string[], handler: (topic: string, event: Event, headers: Record<string, any>) => Promise<void>): Promise<void> => {
-    if (!isConnected) {
+/**
+ * Publish an already-serialized message, e.g. when redriving a dead letter
+ */
+export const publishRaw = async (topic: string, message: BusMessage): Promise<void> => {
+    if (!bus) {
         throw new Error('Event service not connected');
     }
 
+    await bus.publish(topic, [message]);
+};
+
+const sendToDeadLetter = async (topic: string, consumerGroup: string, message: BusMessage, error: Error, attempts: number): Promise<void> => {
+    const failedAt = new Date().toISOString();
+    const { [RETRY_HEADERS.RETRY_AFTER]: retryAfter, ...originalHeaders } = message.headers;
+    const headers = {
+        ...originalHeaders,
+        [RETRY_HEADERS.ORIGINAL_TOPIC]: topic,
+        [RETRY_HEADERS.CONSUMER_GROUP]: consumerGroup,
+        [RETRY_HEADERS.ATTEMPT]: String(attempts),
+        [RETRY_HEADERS.ERROR]: error.message,
+        [RETRY_HEADERS.FAILED_AT]: failedAt
+    };
+
+    await publishRaw(deadLetterTopic(topic), { ...message, headers });
+    await deadLetterRepository.save({
+        id: uuidv4(),
+        topic,
+        key: message.key,
+        value: message.value,
+        headers,
+        error: error.message,
+        attempts,
+        failedAt
+    });
+
+    consumerStats.deadLettered++;
+    logger.error(`Message from ${topic} moved to ${deadLetterTopic(topic)} after ${attempts} attempt(s): ${error.message}`);
+};
+
+/**
+ * Routes a failed message to its retry topic with a backoff, or to the DLQ once attempts run out.
+ * The retry is addressed to the consumer group that failed it, so other groups do not handle it again.
+ */
+const handleFailure = async (topic: string, consumerGroup: string, message: BusMessage, error: Error): Promise<void> => {
+    const attempt = parseInt(message.headers[RETRY_HEADERS.ATTEMPT] || '0', 10) + 1;
+
+    if (attempt >= getMaxAttempts()) {
+        await sendToDeadLetter(topic, consumerGroup, message, error, attempt);
+        return;
+    }
+
+    const delay = getRetryDelay(attempt);
+    await publishRaw(retryTopic(topic), {
+        ...message,
+        headers: {
+            ...message.headers,
+            [RETRY_HEADERS.ORIGINAL_TOPIC]: topic,
+            [RETRY_HEADERS.CONSUMER_GROUP]: consumerGroup,
+            [RETRY_HEADERS.ATTEMPT]: String(attempt),
+            [RETRY_HEADERS.RETRY_AFTER]: String(Date.now() + delay)
+        }
+    });
+
+    consumerStats.retried++;
+    logger.warn(`Retrying message from ${topic} in ${delay}ms (attempt ${attempt + 1} of ${getMaxAttempts()}): ${error.message}`);
+};
+
+/**
+ * Parks a retry that is not due yet as a scheduler job, so the consumer moves
+ * on instead of sleeping through the backoff and missing its session timeout
+ */
+const scheduleRetry = async (topic: string, message: BusMessage, retryAfter: number): Promise<void> => {
+    await scheduleJob({
+        id: `${RETRY_MESSAGE_JOB}:${uuidv4()}`,
+        type: RETRY_MESSAGE_JOB,
+        customerId: message.key,
+        runAt: new Date(retryAfter),
+        payload: { topic, message }
+    });
+};
+
+// puts a parked retry back on its retry topic once it is due, where it is handled straight away
+const republishRetry = async (job: ScheduledJob): Promise<void> => {
+    await publishRaw(job.payload.topic, job.payload.message);
+};
+
+export const subscribeToEvents = async (
+    topics: string[],
+    handler: (topic: string, event: Event, headers: Record<string, any>) => Promise<void>,
+    options: SubscribeOptions = {}
+): Promise<void> => {
+    if (!bus) {
+        throw new Error('Event service not connected');
+    }
+
+    const consumerGroup = options.groupId || defaultGroupId;
+
     try {
-        await consumer.subscribe({ topics, fromBeginning: false });
-
-        await consumer.run({
-            eachMessage: async ({ topic, partition, message }) => {
-                try {
-                    const event: Event = JSON.parse(message.value?.toString() || '{}');
-                    const eventType = message.headers?.['event-type']?.toString();
-
-                    logger.info(`Received event: ${eventType} from ${topic}`);
-                    await handler(topic, event, message.headers || {});
-                } catch (error) {
-                    logger.error('Error processing message:', error);
+        // each topic's retry topic feeds back into the same handler once its backoff has elapsed
+        await bus.subscribe([...topics, ...topics.map(retryTopic)], async (topic, message) => {
+            const originalTopic = message.headers[RETRY_HEADERS.ORIGINAL_TOPIC] || topic;
+            if (topic !== originalTopic) {
+                const retryGroup = message.headers[RETRY_HEADERS.CONSUMER_GROUP];
+                if (retryGroup && retryGroup !== consumerGroup) {
+                    return;
+                }
+                const retryAfter = parseInt(message.headers[RETRY_HEADERS.RETRY_AFTER] || '0', 10);
+                if (retryAfter > Date.now()) {
+                    await scheduleRetry(topic, message, retryAfter);
+                    return;
+                }
+            }
+
+            let event: Event;
+            try {
+                event = JSON.parse(message.value || '{}') as Event;
+            } catch (error) {
+                // an unparseable message will never succeed, so skip the retries
+                consumerStats.failed++;
+                await sendToDeadLetter(originalTopic, consumerGroup, message, error as Error, 1);
+                return;
+            }
+
+            const eventType = message.headers['event-type'];
+
+            try {
+                // redeliveries (e.g. after a rebalance) must not re-run handlers
+                if (event.id && !await processedEventRepository.markProcessed(consumerGroup, event.id)) {
+                    consumerStats.duplicates++;
+                    logger.warn(`Duplicate event skipped: ${eventType} ${event.id} from ${originalTopic} (${consumerStats.duplicates} duplicates so far)`);
+                    return;
+                }
+
+                logger.info(`Received event: ${eventType} from ${originalTopic}`);
+                await handler(originalTopic, event, message.headers);
+                consumerStats.processed++;
+            } catch (error) {
+                consumerStats.failed++;
+                if (event.id) {
+                    await processedEventRepository.unmark(consumerGroup, event.id);
                 }
+                logger.error(`Error processing ${eventType} from ${originalTopic}:`, error);
+                await handleFailure(originalTopic, consumerGroup, message, error as Error);
             }
-        });
+        }, options);
 
         logger.info(`Subscribed to topics: ${topics.join(', ')}`);
     } catch (error) {
@@ -93,18 +266,41 @@ export const subscribeToEvents = async (topics: string[], handler: (topic: strin
 };
 
 // Customer Events
+// keyed by customer ID, so the signup is applied in order with the customer's later events and their erasure
 export const publishCustomerSignup = async (customerData: CustomerData): Promise<Event> => {
-    return publishEvent(topics.CUSTOMER_EVENTS, 'CUSTOMER_SIGNUP', customerData);
+    return publishEvent(topics.CUSTOMER_EVENTS, 'CUSTOMER_SIGNUP', customerData, customerData.id);
+};
+
+// keyed by customer ID, so the import is applied in order with the customer's later events
+export const publishCustomerImported = async (customerData: CustomerData): Promise<Event> => {
+    return publishEvent(topics.CUSTOMER_EVENTS, 'CUSTOMER_IMPORTED', customerData, customerData.id);
+};
+
+// tells downstream consumers to forget the customer; it carries nothing but the ID
+export const publishCustomerErased = async (erasure: CustomerErasure): Promise<Event> => {
+    return publishEvent(topics.CUSTOMER_EVENTS, 'CUSTOMER_ERASED', erasure);
 };
 
 export const publishProductPageVisit = async (visitData: ProductVisit & { customerId: string }): Promise<Event> => {
     return publishEvent(topics.CUSTOMER_EVENTS, 'PRODUCT_PAGE_VISIT', visitData);
 };
 
-export const publishCustomerInactive = async (customerData: { customerId: string }): Promise<Event> => {
+export const publishCustomerInactive = async (customerData: { customerId: string; journeyId?: string }): Promise<Event> => {
     return publishEvent(topics.CUSTOMER_EVENTS, 'CUSTOMER_INACTIVE', customerData);
 };
 
+export const publishPurchaseCompleted = async (purchase: PurchaseCompleted): Promise<Event> => {
+    return publishEvent(topics.CUSTOMER_EVENTS, 'PURCHASE_COMPLETED', purchase);
+};
+
+export const publishTrackedEvent = async (trackedEvent: TrackedEvent): Promise<Event> => {
+    return publishEvent(topics.CUSTOMER_EVENTS, 'TRACK', trackedEvent);
+};
+
+export const publishIdentify = async (identifyData: IdentifyData): Promise<Event> => {
+    return publishEvent(topics.CUSTOMER_EVENTS, 'IDENTIFY', identifyData);
+};
+
 // Workflow Events
 export const publishWorkflowTrigger = async (workflowData: any): Promise<Event> => {
     return publishEvent(topics.WORKFLOW_TRIGGERS, 'WORKFLOW_TRIGGER', workflowData);
@@ -114,6 +310,11 @@ export const publishWorkflowStep = async (stepData: any): Promise<Event> => {
     return publishEvent(topics.WORKFLOW_TRIGGERS, 'WORKFLOW_STEP', stepData);
 };
 
+// a notification for other consumers, such as webhook subscribers; the engine ignores it
+export const publishStepCompleted = async (stepData: { customerId: string; journeyId: string; stepId: number; stepName: string; action: string; outcome: string; completedAt: string }): Promise<Event> => {
+    return publishEvent(topics.WORKFLOW_TRIGGERS, 'STEP_COMPLETED', stepData);
+};
+
 // Email Events
 export const publishEmailRequest = async (emailData: any): Promise<Event> => {
     return publishEvent(topics.EMAIL_NOTIFICATIONS, 'EMAIL_REQUEST', emailData);
@@ -122,3 +323,17 @@ export const publishEmailRequest = async (emailData: any): Promise<Event> => {
 export const publishEmailSent = async (emailData: any): Promise<Event> => {
     return publishEvent(topics.EMAIL_NOTIFICATIONS, 'EMAIL_SENT', emailData);
 };
+
+// sends on the other channels; their engagement is not tracked
+export const publishMessageSent = async (messageData: any): Promise<Event> => {
+    return publishEvent(topics.EMAIL_NOTIFICATIONS, 'MESSAGE_SENT', messageData);
+};
+
+// engagement events are keyed by message ID so all activity on one email stays in order
+export const publishEmailOpened = async (engagement: EmailEngagement): Promise<Event> => {
+    return publishEvent(topics.EMAIL_NOTIFICATIONS, 'EMAIL_OPENED', engagement, engagement.messageId);
+};
+
+export const publishEmailClicked = async (engagement: EmailEngagement): Promise<Event> => {
+    return publishEvent(topics.EMAIL_NOTIFICATIONS, 'EMAIL_CLICKED', engagement, engagement.messageId);
+};
@@ -0,0 +1,47 @@
+import { assignVariant } from './experimentService';
+import { StepExperiment } from '../types';
+
+const customerIds = Array.from({ length: 10000 }, (_, index) => `customer-${index}`);
+
+const share = (experiment: StepExperiment, variantId: string): number => {
+    const assigned = customerIds.filter(customerId => assignVariant(experiment, customerId).id === variantId);
+    return assigned.length / customerIds.length;
+};
+
+describe('assignVariant', () => {
+    const experiment: StepExperiment = {
+        id: 'discount-percentage',
+        variants: [{ id: 'control' }, { id: 'pct-15' }, { id: 'pct-25' }]
+    };
+
+    it('always gives a customer the same variant', () => {
+        for (const customerId of customerIds.slice(0, 100)) {
+            expect(assignVariant(experiment, customerId)).toBe(assignVariant(experiment, customerId));
+        }
+    });
+
+    it('splits customers evenly between variants without weights', () => {
+        for (const variant of experiment.variants) {
+            expect(Math.abs(share(experiment, variant.id) - 1 / 3)).toBeLessThan(0.02);
+        }
+    });
+
+    it('splits customers by weight', () => {
+        const weighted: StepExperiment = {
+            id: 'weighted',
+            variants: [{ id: 'control', weight: 3 }, { id: 'treatment', weight: 1 }, { id: 'paused', weight: 0 }]
+        };
+
+        expect(Math.abs(share(weighted, 'control') - 0.75)).toBeLessThan(0.02);
+        expect(Math.abs(share(weighted, 'treatment') - 0.25)).toBeLessThan(0.02);
+        expect(share(weighted, 'paused')).toBe(0);
+    });
+
+    it('buckets each experiment independently', () => {
+        const other: StepExperiment = { ...experiment, id: 'subject-line' };
+        const same = customerIds.filter(customerId => assignVariant(experiment, customerId).id === assignVariant(other, customerId).id);
+
+        // independent splits agree for about a third of customers, identical ones for all
+        expect(Math.abs(same.length / customerIds.length - 1 / 3)).toBeLessThan(0.02);
+    });
+});
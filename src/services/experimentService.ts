@@ -0,0 +1,228 @@
+import { createHash } from 'crypto';
+import { logger, topics, defaultGroupId } from '../config/kafka';
+import { subscribeToEvents } from './eventService';
+import { getAllJourneys } from './journeyRegistry';
+import { experimentRepository } from '../repositories/index';
+import { twoProportionZTest } from '../utils/statistics';
+import {
+    ApiResponse,
+    Conversion,
+    EmailEngagement,
+    Event,
+    ExperimentExposure,
+    ExperimentResults,
+    ExperimentSummary,
+    ExperimentVariant,
+    ProportionTest,
+    StepExperiment,
+    VariantResults
+} from '../types';
+
+const confidenceLevel: number = parseFloat(process.env.EXPERIMENT_CONFIDENCE_LEVEL || '0.95');
+
+// engagement is read from the email topic in a group of its own, next to any other consumer
+const EXPERIMENT_GROUP_ID = `${defaultGroupId}-experiments`;
+
+/**
+ * Picks a customer's variant. The customer ID is hashed together with the
+ * experiment ID, so a customer always gets the same variant of an experiment
+ * while different experiments split customers independently.
+ */
+export const assignVariant = (experiment: StepExperiment, customerId: string): ExperimentVariant => {
+    const hash = createHash('sha256').update(`${experiment.id}:${customerId}`).digest();
+    const totalWeight = experiment.variants.reduce((sum, variant) => sum + (variant.weight ?? 1), 0);
+
+    let point = (hash.readUInt32BE(0) / 0x100000000) * totalWeight;
+    for (const variant of experiment.variants) {
+        point -= variant.weight ?? 1;
+        if (point < 0) {
+            return variant;
+        }
+    }
+    return experiment.variants[experiment.variants.length - 1];
+};
+
+/**
+ * Records an email sent under an experiment variant. Like the funnel,
+ * experiment bookkeeping never interrupts a journey.
+ */
+export const recordExposure = async (exposure: ExperimentExposure): Promise<void> => {
+    try {
+        await experimentRepository.create(exposure);
+    } catch (error) {
+        logger.error('Record experiment exposure error:', error);
+    }
+};
+
+// a click counts as an open too, since image blocking hides many opens
+const recordEngagement = async (engagement: EmailEngagement, kind: 'open' | 'click'): Promise<void> => {
+    await experimentRepository.update(engagement.messageId, exposure => {
+        exposure.openedAt = exposure.openedAt || engagement.occurredAt;
+        if (kind === 'click') {
+            exposure.clickedAt = exposure.clickedAt || engagement.occurredAt;
+        }
+    });
+};
+
+/**
+ * Credits a purchase to every experiment the customer was exposed to within
+ * the attribution window, not only the one of the last-touch email, so an
+ * experiment early in a journey is not starved by the ones after it. Each
+ * experiment credits its latest exposure before the purchase once.
+ */
+export const recordExperimentConversion = async (conversion: Conversion, windowMs: number): Promise<void> => {
+    try {
+        const end = Date.parse(conversion.purchasedAt);
+        const latest: Map<string, ExperimentExposure> = new Map();
+
+        for (const exposure of await experimentRepository.findByCustomerId(conversion.customerId)) {
+            const sentAt = Date.parse(exposure.sentAt);
+            const current = latest.get(exposure.experimentId);
+            if (sentAt <= end && sentAt >= end - windowMs && (!current || sentAt > Date.parse(current.sentAt))) {
+                latest.set(exposure.experimentId, exposure);
+            }
+        }
+
+        for (const { messageId } of latest.values()) {
+            await experimentRepository.update(messageId, exposure => {
+                exposure.convertedAt = exposure.convertedAt || conversion.purchasedAt;
+                const revenue = exposure.revenue || (exposure.revenue = {});
+                revenue[conversion.currency] = Math.round(((revenue[conversion.currency] || 0) + conversion.orderValue) * 100) / 100;
+            });
+        }
+    } catch (error) {
+        logger.error('Record experiment conversion error:', error);
+    }
+};
+
+const handleEmailEvent = async (topic: string, event: Event): Promise<void> => {
+    switch (event.type) {
+        case 'EMAIL_OPENED':
+            await recordEngagement(event.data, 'open');
+            break;
+        case 'EMAIL_CLICKED':
+            await recordEngagement(event.data, 'click');
+            break;
+        default:
+            // sends are recorded by the workflow engine, with their journey step
+            break;
+    }
+};
+
+export const initialize = async (): Promise<void> => {
+    await subscribeToEvents([topics.EMAIL_NOTIFICATIONS], handleEmailEvent, { groupId: EXPERIMENT_GROUP_ID });
+    logger.info('Experiment tracking initialized');
+};
+
+const findExperiments = (): ExperimentSummary[] => {
+    const experiments: ExperimentSummary[] = [];
+    for (const journey of getAllJourneys()) {
+        for (const step of journey.steps) {
+            if (step.experiment) {
+                experiments.push({
+                    id: step.experiment.id,
+                    journeyId: journey.id,
+                    stepId: step.id,
+                    stepName: step.name,
+                    variants: step.experiment.variants
+                });
+            }
+        }
+    }
+    return experiments;
+};
+
+const rate = (count: number, total: number): number | null => {
+    return total > 0 ? count / total : null;
+};
+
+const proportionTest = (controlSuccesses: number, controlTrials: number, successes: number, trials: number): ProportionTest => {
+    const { zScore, pValue } = twoProportionZTest(controlSuccesses, controlTrials, successes, trials);
+    return { zScore, pValue, significant: pValue !== null && pValue < 1 - confidenceLevel };
+};
+
+const tally = (variant: string, exposures: ExperimentExposure[]): Omit<VariantResults, 'significance'> => {
+    const revenue: Record<string, number> = {};
+    for (const exposure of exposures) {
+        for (const [currency, amount] of Object.entries(exposure.revenue || {})) {
+            revenue[currency] = Math.round(((revenue[currency] || 0) + amount) * 100) / 100;
+        }
+    }
+
+    const sends = exposures.length;
+    const opens = exposures.filter(exposure => exposure.openedAt).length;
+    const clicks = exposures.filter(exposure => exposure.clickedAt).length;
+    const conversions = exposures.filter(exposure => exposure.convertedAt).length;
+
+    return {
+        variant,
+        sends,
+        opens,
+        clicks,
+        conversions,
+        openRate: rate(opens, sends),
+        clickRate: rate(clicks, sends),
+        conversionRate: rate(conversions, sends),
+        revenue
+    };
+};
+
+export const listExperiments = async (): Promise<ApiResponse<{ count: number; experiments: ExperimentSummary[] }>> => {
+    const experiments = findExperiments();
+
+    return {
+        success: true,
+        data: {
+            count: experiments.length,
+            experiments
+        }
+    };
+};
+
+/**
+ * Sends, opens, clicks and attributed conversions per variant. Every other
+ * variant is compared with the control (the first variant) using a
+ * two-proportion z-test at the configured confidence level.
+ */
+export const getExperimentResults = async (experimentId: string): Promise<ApiResponse<ExperimentResults>> => {
+    try {
+        const experiment = findExperiments().find(candidate => candidate.id === experimentId);
+        if (!experiment) {
+            return {
+                success: false,
+                error: 'Experiment not found'
+            };
+        }
+
+        const exposures = await experimentRepository.findByExperimentId(experimentId);
+        const totals = experiment.variants.map(variant => tally(variant.id, exposures.filter(exposure => exposure.variant === variant.id)));
+        const control = totals[0];
+
+        const variants: VariantResults[] = totals.map((result, index) => ({
+            ...result,
+            significance: index === 0 ? null : {
+                openRate: proportionTest(control.opens, control.sends, result.opens, result.sends),
+                clickRate: proportionTest(control.clicks, control.sends, result.clicks, result.sends),
+                conversionRate: proportionTest(control.conversions, control.sends, result.conversions, result.sends)
+            }
+        }));
+
+        return {
+            success: true,
+            data: {
+                experimentId,
+                journeyId: experiment.journeyId,
+                stepId: experiment.stepId,
+                control: control.variant,
+                confidenceLevel,
+                variants
+            }
+        };
+    } catch (error) {
+        logger.error('Get experiment results error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while retrieving experiment results'
+        };
+    }
+};
@@ -0,0 +1,81 @@
+import { CustomerData, SentEmailRecord } from '../types';
+
+type FrequencyCapService = typeof import('./frequencyCapService');
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = Date.parse('2026-03-10T12:00:00.000Z');
+
+const customerWithSends = (id: string, sends: Array<{ hoursAgo: number; channel?: SentEmailRecord['channel'] }>): CustomerData => ({
+    id,
+    email: `${id}@example.com`,
+    name: id,
+    preferences: {},
+    workflowState: {
+        journeys: {},
+        lastEmailSent: null,
+        emailHistory: sends.map(({ hoursAgo, channel }, index) => ({
+            journeyId: 'onboarding',
+            stepId: index + 1,
+            template: 'welcome',
+            sentAt: new Date(now - hoursAgo * HOUR_MS).toISOString(),
+            ...(channel ? { channel } : {})
+        }))
+    }
+} as CustomerData);
+
+describe('frequency caps', () => {
+    let caps: FrequencyCapService;
+
+    beforeAll(async () => {
+        // the caps are read when the module loads
+        process.env.FREQUENCY_CAPS = '3/24h';
+        process.env.FREQUENCY_CAPS_EMAIL = '2/24h,3/7d';
+        caps = await import('./frequencyCapService');
+    });
+
+    it('allows sends below every cap', () => {
+        const customer = customerWithSends('below', [{ hoursAgo: 1 }]);
+
+        expect(caps.checkFrequencyCap(customer, 'email', now)).toEqual({ allowed: true });
+    });
+
+    it('caps a channel and retries once the oldest send in the window ages out', () => {
+        const customer = customerWithSends('channel-cap', [{ hoursAgo: 8 * 24 }, { hoursAgo: 20 }, { hoursAgo: 2 }]);
+
+        expect(caps.checkFrequencyCap(customer, 'email', now)).toEqual({
+            allowed: false,
+            cap: '2/24h',
+            retryAt: new Date(now + 4 * HOUR_MS)
+        });
+    });
+
+    it('reports the cap that keeps the send back longest', () => {
+        // 2/24h frees up in 22 hours, 3/7d only when the send from 6 days ago ages out
+        const customer = customerWithSends('longest-cap', [{ hoursAgo: 6 * 24 }, { hoursAgo: 3 * 24 }, { hoursAgo: 2 }]);
+
+        expect(caps.checkFrequencyCap(customer, 'email', now)).toEqual({
+            allowed: false,
+            cap: '3/7d',
+            retryAt: new Date(now + 24 * HOUR_MS)
+        });
+    });
+
+    it('counts every channel against the global cap but only its own against a channel cap', () => {
+        const customer = customerWithSends('mixed', [{ hoursAgo: 3, channel: 'sms' }, { hoursAgo: 2, channel: 'push' }, { hoursAgo: 1 }]);
+
+        expect(caps.checkFrequencyCap(customer, 'email', now)).toMatchObject({ allowed: false, cap: '3/24h' });
+
+        const twoSms = customerWithSends('two-sms', [{ hoursAgo: 3, channel: 'sms' }, { hoursAgo: 2, channel: 'sms' }]);
+        expect(caps.checkFrequencyCap(twoSms, 'email', now)).toEqual({ allowed: true });
+    });
+
+    it('counts reserved sends until they are released', () => {
+        const customer = customerWithSends('reserved', [{ hoursAgo: 1 }]);
+
+        const release = caps.reserveSend(customer.id, 'email', now);
+        expect(caps.checkFrequencyCap(customer, 'email', now)).toMatchObject({ allowed: false, cap: '2/24h' });
+
+        release();
+        expect(caps.checkFrequencyCap(customer, 'email', now)).toEqual({ allowed: true });
+    });
+});
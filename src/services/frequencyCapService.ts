@@ -0,0 +1,120 @@
+import { logger } from '../config/kafka';
+import { CustomerData, FrequencyCap } from '../types';
+
+const UNIT_MS: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parses a cap list such as `2/24h,5/7d`. Invalid entries are logged and
+ * ignored, so a typo loosens the caps instead of stopping every send.
+ */
+const parseCaps = (variable: string): FrequencyCap[] => {
+    const caps: FrequencyCap[] = [];
+
+    for (const entry of (process.env[variable] || '').split(',').map(part => part.trim()).filter(Boolean)) {
+        const match = /^(\d+)\/(\d+)([mhd])$/.exec(entry);
+        if (!match || parseInt(match[1], 10) < 1 || parseInt(match[2], 10) < 1) {
+            logger.warn(`Ignoring invalid frequency cap "${entry}" in ${variable}; expected e.g. 2/24h or 5/7d`);
+            continue;
+        }
+        caps.push({
+            limit: parseInt(match[1], 10),
+            windowMs: parseInt(match[2], 10) * UNIT_MS[match[3]],
+            label: entry
+        });
+    }
+    return caps;
+};
+
+// across all channels
+const globalCaps: FrequencyCap[] = parseCaps('FREQUENCY_CAPS');
+const channelCaps: Map<string, FrequencyCap[]> = new Map();
+
+const getChannelCaps = (channel: string): FrequencyCap[] => {
+    let caps = channelCaps.get(channel);
+    if (!caps) {
+        caps = parseCaps(`FREQUENCY_CAPS_${channel.toUpperCase()}`);
+        channelCaps.set(channel, caps);
+    }
+    return caps;
+};
+
+interface Send {
+    at: number;
+    channel: string;
+}
+
+// sends that passed the check but are not in the customer's history yet, so concurrent steps count each other
+const inFlight: Map<string, Send[]> = new Map();
+
+/**
+ * Counts a send against the customer's caps until the returned release is
+ * called, which should happen once the send is recorded or has failed
+ */
+export const reserveSend = (customerId: string, channel: string, at: number = Date.now()): (() => void) => {
+    const reservation: Send = { at, channel };
+    inFlight.set(customerId, [...(inFlight.get(customerId) || []), reservation]);
+
+    return () => {
+        const remaining = [...(inFlight.get(customerId) || [])];
+        const index = remaining.indexOf(reservation);
+        if (index >= 0) {
+            remaining.splice(index, 1);
+        }
+        if (remaining.length > 0) {
+            inFlight.set(customerId, remaining);
+        } else {
+            inFlight.delete(customerId);
+        }
+    };
+};
+
+// send times on the channel, or on every channel without one, oldest first
+const getSendTimes = (customer: CustomerData, channel?: string): number[] => {
+    const history = (customer.workflowState && customer.workflowState.emailHistory) || [];
+    const sends = history.map((record): Send => ({ at: Date.parse(record.sentAt), channel: record.channel || 'email' }))
+        .concat(inFlight.get(customer.id) || []);
+
+    return sends.filter(send => !isNaN(send.at) && (!channel || send.channel === channel))
+        .map(send => send.at)
+        .sort((a, b) => a - b);
+};
+
+export type FrequencyCapCheck =
+    | { allowed: true }
+    | { allowed: false; cap: string; retryAt: Date };
+
+/**
+ * Checks whether one more send on the channel would exceed a global or
+ * channel cap. When it would, `retryAt` is when enough earlier sends have
+ * left the window of every cap that was hit.
+ */
+export const checkFrequencyCap = (customer: CustomerData, channel: string, now: number = Date.now()): FrequencyCapCheck => {
+    const allSendTimes = getSendTimes(customer);
+    const channelSendTimes = getSendTimes(customer, channel);
+    let hit: FrequencyCap | undefined;
+    let retryAt = 0;
+
+    const capped = [
+        ...globalCaps.map(cap => ({ cap, sendTimes: allSendTimes })),
+        ...getChannelCaps(channel).map(cap => ({ cap, sendTimes: channelSendTimes }))
+    ];
+    for (const { cap, sendTimes } of capped) {
+        const inWindow = sendTimes.filter(time => time > now - cap.windowMs);
+        if (inWindow.length < cap.limit) {
+            continue;
+        }
+
+        // one send has to age out for every send at or over the limit
+        const freedAt = inWindow[inWindow.length - cap.limit] + cap.windowMs;
+        if (freedAt > retryAt) {
+            retryAt = freedAt;
+            hit = cap;
+        }
+    }
+
+    return hit ? { allowed: false, cap: hit.label, retryAt: new Date(retryAt) } : { allowed: true };
+};
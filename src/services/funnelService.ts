@@ -0,0 +1,194 @@
+import { logger } from '../config/kafka';
+import { getJourney, getStepSuccessors } from './journeyRegistry';
+import { isStoredCustomerInSegment } from './segmentService';
+import { funnelRepository, customerRepository, segmentRepository, CustomerRecord } from '../repositories/index';
+import { workflowValidator } from '../validation/index';
+import { ApiResponse, DurationStats, FunnelProgress, FunnelQuery, FunnelStep, JourneyFunnel } from '../types';
+
+/**
+ * Records that a customer reached a journey step. Only the first time counts,
+ * so repeatable steps do not inflate the funnel. Analytics failures are
+ * logged and never interrupt the journey.
+ */
+export const recordStepEntered = async (customerId: string, journeyId: string, stepId: number): Promise<void> => {
+    try {
+        await funnelRepository.update(journeyId, customerId, progress => {
+            if (!progress.steps[stepId]) {
+                progress.steps[stepId] = { enteredAt: new Date().toISOString() };
+            }
+        });
+    } catch (error) {
+        logger.error('Record funnel step entered error:', error);
+    }
+};
+
+export const recordStepCompleted = async (customerId: string, journeyId: string, stepId: number): Promise<void> => {
+    try {
+        await funnelRepository.update(journeyId, customerId, progress => {
+            const now = new Date().toISOString();
+            const step = progress.steps[stepId] || (progress.steps[stepId] = { enteredAt: now });
+            if (!step.completedAt) {
+                step.completedAt = now;
+            }
+        });
+    } catch (error) {
+        logger.error('Record funnel step completed error:', error);
+    }
+};
+
+const durationStats = (durations: number[]): DurationStats => {
+    if (durations.length === 0) {
+        return { count: 0, averageMs: null, medianMs: null };
+    }
+
+    const sorted = [...durations].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return {
+        count: sorted.length,
+        averageMs: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+        medianMs: sorted.length % 2 === 0 ? Math.round((sorted[middle - 1] + sorted[middle]) / 2) : sorted[middle]
+    };
+};
+
+const between = (start?: string, end?: string): number | undefined => {
+    return start && end ? Date.parse(end) - Date.parse(start) : undefined;
+};
+
+// the last completion among the given steps up to a point in time: the step a customer came from
+const latestCompletion = (progress: FunnelProgress, stepIds: number[], until: string): string | undefined => {
+    return stepIds
+        .map(stepId => progress.steps[stepId]?.completedAt)
+        .filter((completedAt): completedAt is string => !!completedAt && completedAt <= until)
+        .sort()
+        .pop();
+};
+
+// `preferences.category:electronics` matches customers whose preferences.category is "electronics"
+const matchesSegment = (customer: CustomerRecord | undefined, segment: string): boolean => {
+    if (!customer) {
+        return false;
+    }
+
+    const separator = segment.indexOf(':');
+    const path = segment.slice(0, separator).split('.');
+    const expected = segment.slice(separator + 1);
+
+    let value: any = customer;
+    for (const key of path) {
+        value = value == null ? undefined : value[key];
+    }
+    return value != null && String(value) === expected;
+};
+
+const applyFilters = async (records: FunnelProgress[], query: FunnelQuery): Promise<FunnelProgress[]> => {
+    const from = query.from ? Date.parse(query.from) : -Infinity;
+    const to = query.to ? Date.parse(query.to) : Infinity;
+
+    const inRange = records.filter(progress => {
+        const enteredAt = Date.parse(progress.enteredAt);
+        return enteredAt >= from && enteredAt <= to;
+    });
+
+    if (!query.segment) {
+        return inRange;
+    }
+
+    // without a colon the filter names a saved segment
+    const savedSegment = query.segment.includes(':') ? undefined : await segmentRepository.findById(query.segment);
+
+    const matching: FunnelProgress[] = [];
+    for (const progress of inRange) {
+        const matches = savedSegment
+            ? await isStoredCustomerInSegment(savedSegment, progress.customerId)
+            : matchesSegment(await customerRepository.findById(progress.customerId), query.segment);
+        if (matches) {
+            matching.push(progress);
+        }
+    }
+    return matching;
+};
+
+/**
+ * Aggregates every customer's progress through a journey into a funnel.
+ * The date range applies to when customers entered the journey; the segment
+ * is an `attribute:value` filter or the ID of a saved segment.
+ */
+export const getJourneyFunnel = async (journeyId: string, query: FunnelQuery = {}): Promise<ApiResponse<JourneyFunnel>> => {
+    try {
+        const validation = workflowValidator.validateFunnelQuery(query);
+        if (!validation.isValid) {
+            return {
+                success: false,
+                error: validation.error
+            };
+        }
+
+        const journey = getJourney(journeyId);
+        if (!journey) {
+            return {
+                success: false,
+                error: 'Journey not found'
+            };
+        }
+
+        if (query.segment && !query.segment.includes(':') && !await segmentRepository.findById(query.segment)) {
+            return {
+                success: false,
+                error: 'Segment not found'
+            };
+        }
+
+        const records = await applyFilters(await funnelRepository.findByJourneyId(journeyId), query);
+        const firstStep = journey.steps[0];
+        const firstStepEntered = records.filter(progress => progress.steps[firstStep.id]).length;
+
+        const steps: FunnelStep[] = journey.steps.map(step => {
+            // the journey's edges say which steps lead into this one and which it leads to
+            const successors = getStepSuccessors(step);
+            const predecessors = journey.steps
+                .filter(candidate => getStepSuccessors(candidate).includes(step.id))
+                .map(candidate => candidate.id);
+
+            const reached = records.filter(progress => progress.steps[step.id]);
+            const completed = reached.filter(progress => progress.steps[step.id].completedAt);
+
+            const timeInStep = completed
+                .map(progress => between(progress.steps[step.id].enteredAt, progress.steps[step.id].completedAt))
+                .filter((duration): duration is number => duration !== undefined);
+            const timeFromPrevious = completed
+                .map(progress => between(latestCompletion(progress, predecessors, progress.steps[step.id].completedAt!), progress.steps[step.id].completedAt))
+                .filter((duration): duration is number => duration !== undefined);
+
+            return {
+                stepId: step.id,
+                name: step.name,
+                entered: reached.length,
+                completed: completed.length,
+                inProgress: reached.length - completed.length,
+                droppedOff: successors.length > 0
+                    ? completed.filter(progress => !successors.some(successor => progress.steps[successor])).length
+                    : null,
+                conversionRate: firstStepEntered > 0 ? Math.round((completed.length / firstStepEntered) * 10000) / 10000 : 0,
+                timeInStep: durationStats(timeInStep),
+                timeFromPreviousStep: predecessors.length > 0 ? durationStats(timeFromPrevious) : null
+            };
+        });
+
+        return {
+            success: true,
+            data: {
+                journeyId,
+                journeyName: journey.name,
+                filters: query,
+                customers: records.length,
+                steps
+            }
+        };
+    } catch (error) {
+        logger.error('Journey funnel error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while building journey funnel'
+        };
+    }
+};
@@ -0,0 +1,343 @@
+import { logger } from '../config/kafka';
+import { publishTrackedEvent, publishIdentify } from './eventService';
+import { getAllJourneys } from './journeyRegistry';
+import { customerRepository, eventSchemaRepository } from '../repositories/index';
+import { eventSchemaValidator, customerValidator } from '../validation/index';
+import {
+    ApiResponse,
+    EventSchema,
+    EventSchemaRequest,
+    IdentifyData,
+    IdentifyRequest,
+    TrackEventRequest,
+    TrackRequest,
+    TrackResult,
+    TrackedEvent
+} from '../types';
+
+// when set, events without a registered schema are rejected instead of passed through unchecked
+const schemasRequired: boolean = process.env.EVENT_SCHEMAS_REQUIRED === 'true';
+
+// journeys with a step that starts on or waits for the event
+const getJourneysUsingEvent = (name: string): string[] => {
+    return getAllJourneys()
+        .filter(journey => journey.steps.some(step => step.trigger === name || (step.action === 'wait_for_event' && step.event === name)))
+        .map(journey => journey.id);
+};
+
+export const listEventSchemas = async (): Promise<ApiResponse<{ count: number; schemas: EventSchema[] }>> => {
+    try {
+        const schemas = await eventSchemaRepository.findAll();
+
+        return {
+            success: true,
+            data: {
+                count: schemas.length,
+                schemas
+            }
+        };
+    } catch (error) {
+        logger.error('List event schemas error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while listing event schemas'
+        };
+    }
+};
+
+export const getEventSchema = async (name: string): Promise<ApiResponse<EventSchema>> => {
+    try {
+        const schema = await eventSchemaRepository.findByName(name);
+        if (!schema) {
+            return {
+                success: false,
+                error: 'Event schema not found'
+            };
+        }
+
+        return {
+            success: true,
+            data: schema
+        };
+    } catch (error) {
+        logger.error('Get event schema error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while retrieving event schema'
+        };
+    }
+};
+
+export const createEventSchema = async (request: EventSchemaRequest): Promise<ApiResponse<EventSchema>> => {
+    try {
+        const validation = eventSchemaValidator.validateEventSchema(request);
+        if (!validation.isValid) {
+            return {
+                success: false,
+                error: validation.error
+            };
+        }
+
+        const now = new Date().toISOString();
+        const schema: EventSchema = {
+            name: request.name as string,
+            ...(request.description ? { description: request.description } : {}),
+            properties: request.properties || {},
+            additionalProperties: request.additionalProperties !== false,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        if (!await eventSchemaRepository.create(schema)) {
+            return {
+                success: false,
+                error: `Event schema ${schema.name} already exists`
+            };
+        }
+
+        logger.info(`Registered event schema ${schema.name}`);
+        return {
+            success: true,
+            message: 'Event schema registered',
+            data: schema
+        };
+    } catch (error) {
+        logger.error('Create event schema error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while creating event schema'
+        };
+    }
+};
+
+export const updateEventSchema = async (name: string, request: EventSchemaRequest): Promise<ApiResponse<EventSchema>> => {
+    try {
+        if (request && request.name !== undefined && request.name !== name) {
+            return {
+                success: false,
+                error: `Event name "${request.name}" does not match schema "${name}"`
+            };
+        }
+
+        const validation = eventSchemaValidator.validateEventSchema({ ...request, name });
+        if (!validation.isValid) {
+            return {
+                success: false,
+                error: validation.error
+            };
+        }
+
+        const existing = await eventSchemaRepository.findByName(name);
+        if (!existing) {
+            return {
+                success: false,
+                error: 'Event schema not found'
+            };
+        }
+
+        const schema: EventSchema = {
+            name,
+            ...(request.description ? { description: request.description } : {}),
+            properties: request.properties || {},
+            additionalProperties: request.additionalProperties !== false,
+            createdAt: existing.createdAt,
+            updatedAt: new Date().toISOString()
+        };
+        await eventSchemaRepository.save(schema);
+
+        logger.info(`Updated event schema ${name}`);
+        return {
+            success: true,
+            message: 'Event schema updated',
+            data: schema
+        };
+    } catch (error) {
+        logger.error('Update event schema error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while updating event schema'
+        };
+    }
+};
+
+export const deleteEventSchema = async (name: string): Promise<ApiResponse<{ name: string }>> => {
+    try {
+        const schema = await eventSchemaRepository.findByName(name);
+        if (!schema) {
+            return {
+                success: false,
+                error: 'Event schema not found'
+            };
+        }
+
+        const referencedBy = getJourneysUsingEvent(name);
+        if (referencedBy.length > 0) {
+            return {
+                success: false,
+                error: `Event schema is in use by journey(s): ${referencedBy.join(', ')}`
+            };
+        }
+
+        await eventSchemaRepository.delete(name);
+
+        logger.info(`Deleted event schema ${name}`);
+        return {
+            success: true,
+            message: 'Event schema deleted',
+            data: { name }
+        };
+    } catch (error) {
+        logger.error('Delete event schema error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while deleting event schema'
+        };
+    }
+};
+
+/**
+ * Checks one event against its envelope rules, its customer and its schema,
+ * and returns what to publish or why it was rejected
+ */
+const prepareEvent = async (
+    request: TrackEventRequest,
+    schemas: Map<string, EventSchema | undefined>,
+    receivedAt: string
+): Promise<{ event: TrackedEvent } | { error: string }> => {
+    const validation = eventSchemaValidator.validateTrackEvent(request);
+    if (!validation.isValid) {
+        return { error: validation.error as string };
+    }
+
+    if (!await customerRepository.findById(request.customerId)) {
+        return { error: 'Customer not found' };
+    }
+
+    if (!schemas.has(request.event)) {
+        schemas.set(request.event, await eventSchemaRepository.findByName(request.event));
+    }
+    const schema = schemas.get(request.event);
+    const properties = request.properties || {};
+
+    if (schema) {
+        const propertiesValidation = eventSchemaValidator.validateProperties(schema, properties);
+        if (!propertiesValidation.isValid) {
+            return { error: `Invalid properties for ${request.event}: ${propertiesValidation.error}` };
+        }
+    } else if (schemasRequired) {
+        return { error: `Event ${request.event} has no registered schema` };
+    }
+
+    return {
+        event: {
+            customerId: request.customerId,
+            event: request.event,
+            properties,
+            occurredAt: request.timestamp ? new Date(request.timestamp).toISOString() : receivedAt,
+            receivedAt
+        }
+    };
+};
+
+/**
+ * Ingests one event or a `{ batch }` of them. Events are checked and
+ * published one by one, so a bad event is reported by its position without
+ * holding back the rest; the request only fails when no event was accepted.
+ */
+export const trackEvents = async (body: TrackRequest | TrackEventRequest): Promise<ApiResponse<TrackResult>> => {
+    try {
+        let batch: TrackEventRequest[];
+        if (body && 'batch' in body) {
+            const validation = eventSchemaValidator.validateBatch(body);
+            if (!validation.isValid) {
+                return {
+                    success: false,
+                    error: validation.error
+                };
+            }
+            batch = body.batch;
+        } else {
+            batch = [body];
+        }
+
+        const receivedAt = new Date().toISOString();
+        const schemas: Map<string, EventSchema | undefined> = new Map();
+        const result: TrackResult = { accepted: 0, rejected: 0, errors: [] };
+
+        for (const [index, request] of batch.entries()) {
+            const prepared = await prepareEvent(request || {}, schemas, receivedAt);
+            if ('error' in prepared) {
+                result.rejected++;
+                result.errors.push({ index, error: prepared.error });
+                continue;
+            }
+
+            await publishTrackedEvent(prepared.event);
+            result.accepted++;
+        }
+
+        if (result.accepted === 0) {
+            return {
+                success: false,
+                error: batch.length === 1 ? result.errors[0].error : `All ${batch.length} events were rejected`,
+                data: result
+            };
+        }
+
+        logger.info(`Tracked ${result.accepted} event(s), rejected ${result.rejected}`);
+        return {
+            success: true,
+            message: result.rejected > 0 ? `${result.accepted} event(s) accepted, ${result.rejected} rejected` : `${result.accepted} event(s) accepted`,
+            data: result
+        };
+    } catch (error) {
+        logger.error('Track events error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while tracking events'
+        };
+    }
+};
+
+/**
+ * Updates a customer's profile fields and traits. The change is applied by
+ * the workflow engine, in order with the customer's other events.
+ */
+export const identifyCustomer = async (request: IdentifyRequest): Promise<ApiResponse<IdentifyData>> => {
+    try {
+        const validation = customerValidator.validateIdentify(request);
+        if (!validation.isValid) {
+            return {
+                success: false,
+                error: validation.error
+            };
+        }
+
+        if (!await customerRepository.findById(request.customerId)) {
+            return {
+                success: false,
+                error: 'Customer not found'
+            };
+        }
+
+        const identifyData: IdentifyData = {
+            customerId: request.customerId,
+            traits: request.traits,
+            identifiedAt: request.timestamp ? new Date(request.timestamp).toISOString() : new Date().toISOString()
+        };
+        await publishIdentify(identifyData);
+
+        logger.info(`Identify recorded for customer ${request.customerId}`);
+        return {
+            success: true,
+            message: 'Traits accepted',
+            data: identifyData
+        };
+    } catch (error) {
+        logger.error('Identify customer error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while identifying customer'
+        };
+    }
+};
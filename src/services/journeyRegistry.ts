@@ -0,0 +1,166 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { logger } from '../config/kafka';
+import { workflowValidator, BUILT_IN_TRIGGERS, WAIT_EVENTS } from '../validation/index';
+import { eventSchemaRepository } from '../repositories/index';
+import emailService from './emailService';
+import { supportsChannel } from './channelService';
+import { JourneyDefinition, WorkflowStep } from '../types';
+
+const journeysDir: string = process.env.JOURNEYS_DIR || path.join(__dirname, '../../journeys');
+const hotReloadEnabled: boolean = process.env.JOURNEYS_HOT_RELOAD !== 'false';
+
+const JOURNEY_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const RELOAD_DEBOUNCE_MS = 250;
+
+let journeys: Map<string, JourneyDefinition> = new Map();
+let watcher: fs.FSWatcher | null = null;
+let reloadTimer: NodeJS.Timeout | null = null;
+
+const parseJourneyFile = (filePath: string): JourneyDefinition => {
+    const raw = fs.readFileSync(filePath, 'utf8');
+    return path.extname(filePath) === '.json' ? JSON.parse(raw) : YAML.parse(raw);
+};
+
+/**
+ * Reads and validates every journey document in the journeys directory.
+ * Throws on the first invalid document so a bad edit never replaces a working set.
+ */
+export const loadJourneys = async (): Promise<JourneyDefinition[]> => {
+    if (!fs.existsSync(journeysDir)) {
+        throw new Error(`Journeys directory not found: ${journeysDir}`);
+    }
+
+    const files = fs.readdirSync(journeysDir)
+        .filter(file => JOURNEY_FILE_EXTENSIONS.includes(path.extname(file)))
+        .sort();
+
+    const loaded: Map<string, JourneyDefinition> = new Map();
+    // results are looked up by experiment ID alone, so it must be unique across journeys
+    const experimentIds: Set<string> = new Set();
+
+    for (const file of files) {
+        let journey: JourneyDefinition;
+        try {
+            journey = parseJourneyFile(path.join(journeysDir, file));
+        } catch (error) {
+            throw new Error(`Failed to parse journey file ${file}: ${(error as Error).message}`);
+        }
+
+        const validation = workflowValidator.validateJourney(journey);
+        if (!validation.isValid) {
+            throw new Error(`Invalid journey file ${file}: ${validation.error}`);
+        }
+
+        for (const step of journey.steps) {
+            if (step.template && !(await emailService.hasTemplate(step.template))) {
+                throw new Error(`Invalid journey file ${file}: template "${step.template}" in step ${step.id} does not exist or has no published version`);
+            }
+            if (step.action === 'send_message' && step.channels && step.template) {
+                const template = await emailService.getPublishedTemplate(step.template);
+                if (!step.channels.some(channel => supportsChannel(template, channel))) {
+                    throw new Error(`Invalid journey file ${file}: template "${step.template}" in step ${step.id} has no part for any of its channels (${step.channels.join(', ')})`);
+                }
+            }
+
+            // tracked events without a schema still work, but their properties are not checked
+            for (const eventName of [step.trigger, step.action === 'wait_for_event' ? step.event : undefined]) {
+                if (eventName && ![...BUILT_IN_TRIGGERS, ...WAIT_EVENTS].includes(eventName) && !(await eventSchemaRepository.findByName(eventName))) {
+                    logger.warn(`Journey file ${file}: event "${eventName}" in step ${step.id} has no registered schema`);
+                }
+            }
+
+            if (!step.experiment) {
+                continue;
+            }
+            if (experimentIds.has(step.experiment.id)) {
+                throw new Error(`Duplicate experiment ID "${step.experiment.id}" in ${file}`);
+            }
+            experimentIds.add(step.experiment.id);
+
+            for (const variant of step.experiment.variants) {
+                if (variant.template && !(await emailService.hasTemplate(variant.template))) {
+                    throw new Error(`Invalid journey file ${file}: template "${variant.template}" in variant ${variant.id} of step ${step.id} does not exist or has no published version`);
+                }
+            }
+        }
+
+        if (loaded.has(journey.id)) {
+            throw new Error(`Duplicate journey ID "${journey.id}" in ${file}`);
+        }
+
+        loaded.set(journey.id, { ...journey, enabled: journey.enabled !== false });
+    }
+
+    return Array.from(loaded.values());
+};
+
+/**
+ * Replaces the active journey set with the documents on disk.
+ * The previous set stays active if any document fails validation.
+ */
+export const reloadJourneys = async (): Promise<JourneyDefinition[]> => {
+    const loaded = await loadJourneys();
+    journeys = new Map(loaded.map(journey => [journey.id, journey]));
+
+    logger.info(`Loaded ${loaded.length} journey definition(s) from ${journeysDir}`);
+    return loaded;
+};
+
+const scheduleReload = (): void => {
+    if (reloadTimer) {
+        clearTimeout(reloadTimer);
+    }
+
+    // editors emit several change events per save; only reload once they settle
+    reloadTimer = setTimeout(() => {
+        reloadTimer = null;
+        reloadJourneys().catch(error => {
+            logger.error(`Journey hot-reload rejected, keeping previous definitions: ${(error as Error).message}`);
+        });
+    }, RELOAD_DEBOUNCE_MS);
+};
+
+export const watchJourneys = (): void => {
+    if (!hotReloadEnabled || watcher) {
+        return;
+    }
+
+    watcher = fs.watch(journeysDir, (eventType, filename) => {
+        if (filename && JOURNEY_FILE_EXTENSIONS.includes(path.extname(filename.toString()))) {
+            scheduleReload();
+        }
+    });
+
+    logger.info(`Watching ${journeysDir} for journey changes`);
+};
+
+export const stopWatchingJourneys = (): void => {
+    if (reloadTimer) {
+        clearTimeout(reloadTimer);
+        reloadTimer = null;
+    }
+    if (watcher) {
+        watcher.close();
+        watcher = null;
+    }
+};
+
+export const getAllJourneys = (): JourneyDefinition[] => {
+    return Array.from(journeys.values());
+};
+
+export const getActiveJourneys = (): JourneyDefinition[] => {
+    return getAllJourneys().filter(journey => journey.enabled);
+};
+
+export const getJourney = (journeyId: string): JourneyDefinition | undefined => {
+    return journeys.get(journeyId);
+};
+
+// the IDs of the steps a step can lead to, whichever way it completes
+export const getStepSuccessors = (step: WorkflowStep): number[] => {
+    return [step.next, step.ifTrue, step.ifFalse, step.onEvent, step.onTimeout]
+        .filter((target): target is number => target !== undefined);
+};
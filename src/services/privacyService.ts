@@ -0,0 +1,152 @@
+import { logger } from '../config/kafka';
+import { publishCustomerErased } from './eventService';
+import { cancelJobs, getPendingJobs } from './scheduler';
+import { withCustomerLock } from './customerLock';
+import {
+    customerRepository,
+    workflowStateRepository,
+    customerEventRepository,
+    sendDecisionRepository,
+    stepLedgerRepository,
+    discountCodeRepository,
+    conversionRepository,
+    experimentRepository,
+    funnelRepository,
+    suppressionRepository,
+    webhookDeliveryRepository,
+    deadLetterRepository,
+    erasureRepository
+} from '../repositories/index';
+import { customerValidator } from '../validation/index';
+import { ApiResponse, CustomerErasure, CustomerExport } from '../types';
+
+/**
+ * Removes everything stored about a customer except a suppression of their
+ * address, which has to outlive them so they are never emailed again, and a
+ * tombstone of their ID that keeps late events from recreating them.
+ * Scheduled jobs go first, so none of them runs while the data is removed.
+ * Safe to run again; the workflow engine does when it receives the erasure
+ * event, to remove what events in flight at the time wrote back.
+ */
+export const eraseCustomerData = async (customerId: string): Promise<boolean> => {
+    await erasureRepository.add({ customerId, erasedAt: new Date().toISOString() });
+    await cancelJobs(customerId);
+
+    const existed = await customerRepository.delete(customerId);
+    await workflowStateRepository.delete(customerId);
+    await customerEventRepository.deleteByCustomerId(customerId);
+    await sendDecisionRepository.deleteByCustomerId(customerId);
+    await stepLedgerRepository.deleteByCustomerId(customerId);
+    await discountCodeRepository.deleteByCustomerId(customerId);
+    await conversionRepository.deleteByCustomerId(customerId);
+    await experimentRepository.deleteByCustomerId(customerId);
+    await funnelRepository.deleteByCustomerId(customerId);
+    // subscribers still need to hear about the erasure itself
+    await webhookDeliveryRepository.deleteByCustomerId(customerId, ['CUSTOMER_ERASED']);
+
+    for (const deadLetter of await deadLetterRepository.findAll()) {
+        if (deadLetter.key === customerId || deadLetter.value.includes(customerId)) {
+            await deadLetterRepository.delete(deadLetter.id);
+        }
+    }
+
+    return existed;
+};
+
+/**
+ * Collects everything stored about a customer into one document
+ */
+export const exportCustomer = async (customerId: string): Promise<ApiResponse<CustomerExport>> => {
+    try {
+        const customerIdValidation = customerValidator.validateCustomerId(customerId);
+        if (!customerIdValidation.isValid) {
+            return {
+                success: false,
+                error: customerIdValidation.error
+            };
+        }
+
+        const customer = await customerRepository.findById(customerId);
+        if (!customer) {
+            return {
+                success: false,
+                error: 'Customer not found'
+            };
+        }
+
+        const { preferences, metadata, ...profile } = customer;
+        const workflowState = await workflowStateRepository.findByCustomerId(customerId);
+        const { emailHistory, ...state } = workflowState || { journeys: {}, lastEmailSent: null };
+
+        const customerExport: CustomerExport = {
+            exportedAt: new Date().toISOString(),
+            profile,
+            preferences: preferences || {},
+            metadata: metadata || {},
+            workflowState: workflowState ? state : null,
+            sentMessages: emailHistory || [],
+            events: await customerEventRepository.findByCustomerId(customerId),
+            purchases: await conversionRepository.findByCustomerId(customerId),
+            discountCodes: await discountCodeRepository.findByCustomerId(customerId),
+            sendDecisions: await sendDecisionRepository.findByCustomerId(customerId),
+            scheduledJobs: await getPendingJobs(customerId),
+            suppression: await suppressionRepository.find(customer.email) || null
+        };
+
+        logger.info(`Exported data of customer ${customerId}`);
+        return {
+            success: true,
+            data: customerExport
+        };
+    } catch (error) {
+        logger.error('Export customer error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while exporting customer data'
+        };
+    }
+};
+
+/**
+ * Erases a customer and publishes CUSTOMER_ERASED, keyed by the customer ID,
+ * so downstream consumers forget them too
+ */
+export const eraseCustomer = async (customerId: string): Promise<ApiResponse<CustomerErasure>> => {
+    try {
+        const customerIdValidation = customerValidator.validateCustomerId(customerId);
+        if (!customerIdValidation.isValid) {
+            return {
+                success: false,
+                error: customerIdValidation.error
+            };
+        }
+
+        if (!await customerRepository.findById(customerId)) {
+            return {
+                success: false,
+                error: 'Customer not found'
+            };
+        }
+
+        await withCustomerLock(customerId, () => eraseCustomerData(customerId));
+
+        const erasure: CustomerErasure = {
+            customerId,
+            erasedAt: new Date().toISOString()
+        };
+        await publishCustomerErased(erasure);
+
+        logger.info(`Erased customer ${customerId}`);
+        return {
+            success: true,
+            message: 'Customer erased',
+            data: erasure
+        };
+    } catch (error) {
+        logger.error('Erase customer error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while erasing customer'
+        };
+    }
+};
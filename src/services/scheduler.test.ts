@@ -0,0 +1,125 @@
+import { registerJobHandler, scheduleJob, cancelJob, getJob, getPendingJobs, start, stop, JOB_DEAD_LETTER_TOPIC } from './scheduler';
+import { deadLetterRepository } from '../repositories/index';
+import { ScheduledJob } from '../types';
+
+describe('scheduler', () => {
+    const ran: string[] = [];
+
+    // failing jobs fail this many times before they succeed
+    const failures: Map<string, number> = new Map();
+
+    beforeAll(() => {
+        registerJobHandler('test', async (job: ScheduledJob) => {
+            ran.push(job.id);
+        });
+        registerJobHandler('flaky', async (job: ScheduledJob) => {
+            ran.push(job.id);
+            const remaining = failures.get(job.id) || 0;
+            if (remaining > 0) {
+                failures.set(job.id, remaining - 1);
+                throw new Error(`${job.id} failed`);
+            }
+        });
+    });
+
+    beforeEach(async () => {
+        jest.useFakeTimers();
+        ran.length = 0;
+        await start();
+    });
+
+    afterEach(() => {
+        stop();
+        jest.useRealTimers();
+    });
+
+    it('runs jobs once they are due, earliest first', async () => {
+        const now = Date.now();
+        await scheduleJob({ id: 'order-late', type: 'test', customerId: 'c1', runAt: new Date(now + 3000) });
+        await scheduleJob({ id: 'order-early', type: 'test', customerId: 'c1', runAt: new Date(now + 1000) });
+
+        await jest.advanceTimersByTimeAsync(500);
+        expect(ran).toEqual([]);
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(ran).toEqual(['order-early']);
+
+        await jest.advanceTimersByTimeAsync(2000);
+        expect(ran).toEqual(['order-early', 'order-late']);
+    });
+
+    it('runs jobs that are already overdue on the next tick', async () => {
+        await scheduleJob({ id: 'overdue', type: 'test', customerId: 'c2', runAt: new Date(Date.now() - 60000) });
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(ran).toEqual(['overdue']);
+    });
+
+    it('replaces a job scheduled again under the same ID', async () => {
+        const now = Date.now();
+        await scheduleJob({ id: 'replaced', type: 'test', customerId: 'c3', runAt: new Date(now + 1000) });
+        await scheduleJob({ id: 'replaced', type: 'test', customerId: 'c3', runAt: new Date(now + 5000) });
+
+        await jest.advanceTimersByTimeAsync(2000);
+        expect(ran).toEqual([]);
+
+        await jest.advanceTimersByTimeAsync(4000);
+        expect(ran).toEqual(['replaced']);
+    });
+
+    it('does not run a cancelled job', async () => {
+        await scheduleJob({ id: 'cancelled', type: 'test', customerId: 'c4', runAt: new Date(Date.now() + 1000) });
+
+        expect(await cancelJob('cancelled')).toBe(true);
+        await jest.advanceTimersByTimeAsync(2000);
+
+        expect(ran).toEqual([]);
+        expect(await cancelJob('cancelled')).toBe(false);
+    });
+
+    it('lists a customer\'s pending jobs by due time and drops them once run', async () => {
+        const now = Date.now();
+        await scheduleJob({ id: 'pending-2', type: 'test', customerId: 'c5', runAt: new Date(now + 2000) });
+        await scheduleJob({ id: 'pending-1', type: 'test', customerId: 'c5', runAt: new Date(now + 1000) });
+        await scheduleJob({ id: 'other', type: 'test', customerId: 'c6', runAt: new Date(now + 1000) });
+
+        expect((await getPendingJobs('c5')).map(job => job.id)).toEqual(['pending-1', 'pending-2']);
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect((await getPendingJobs('c5')).map(job => job.id)).toEqual(['pending-2']);
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(await getPendingJobs('c5')).toEqual([]);
+    });
+
+    it('retries a failed job with the retry backoff', async () => {
+        failures.set('flaky-once', 1);
+        await scheduleJob({ id: 'flaky-once', type: 'flaky', customerId: 'c7', runAt: new Date(Date.now()) });
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(ran).toEqual(['flaky-once']);
+        expect((await getJob('flaky-once'))?.attempts).toBe(1);
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(ran).toEqual(['flaky-once', 'flaky-once']);
+        expect(await getJob('flaky-once')).toBeUndefined();
+    });
+
+    it('dead-letters a job that fails every attempt', async () => {
+        failures.set('flaky-always', 10);
+        await scheduleJob({ id: 'flaky-always', type: 'flaky', customerId: 'c8', runAt: new Date(Date.now()) });
+
+        // attempts run after the poll interval, then after 1s and 2s of backoff
+        await jest.advanceTimersByTimeAsync(1000);
+        await jest.advanceTimersByTimeAsync(1000);
+        expect((await getJob('flaky-always'))?.attempts).toBe(2);
+
+        await jest.advanceTimersByTimeAsync(2000);
+        expect(ran).toEqual(['flaky-always', 'flaky-always', 'flaky-always']);
+        expect(await getJob('flaky-always')).toBeUndefined();
+
+        const [deadLetter] = await deadLetterRepository.findAll(JOB_DEAD_LETTER_TOPIC);
+        expect(deadLetter).toMatchObject({ key: 'c8', attempts: 3, error: 'flaky-always failed' });
+        expect(JSON.parse(deadLetter.value)).toMatchObject({ id: 'flaky-always', type: 'flaky' });
+    });
+});
@@ -0,0 +1,230 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../config/kafka';
+import { createStore, deadLetterRepository } from '../repositories/index';
+import { getMaxAttempts, getRetryDelay } from '../events/index';
+import { MinHeap } from '../utils/minHeap';
+import { ScheduledJob } from '../types';
+
+export type JobHandler = (job: ScheduledJob) => Promise<void>;
+
+const pollInterval: number = parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '1000', 10);
+
+// jobs that ran out of attempts are dead-lettered under this name, as if it were a topic
+export const JOB_DEAD_LETTER_TOPIC = 'scheduled-jobs';
+
+// jobs are persisted so they survive restarts; the heap only orders them by due time
+const jobStore = createStore<ScheduledJob>('scheduled-jobs');
+const dueQueue: MinHeap<string> = new MinHeap();
+const handlers: Map<string, JobHandler> = new Map();
+// IDs of jobs whose handler is running, so a job never runs twice at once
+const running: Set<string> = new Set();
+
+let pollTimer: NodeJS.Timeout | null = null;
+let ticking: boolean = false;
+
+export const registerJobHandler = (type: string, handler: JobHandler): void => {
+    handlers.set(type, handler);
+};
+
+/**
+ * Schedules a job to run at the given time. Scheduling with an existing ID
+ * replaces the earlier job, so callers can use stable IDs to reschedule.
+ */
+export const scheduleJob = async (job: { id: string; type: string; customerId: string; runAt: Date; payload?: any }): Promise<ScheduledJob> => {
+    const scheduled: ScheduledJob = {
+        id: job.id,
+        type: job.type,
+        customerId: job.customerId,
+        runAt: job.runAt.toISOString(),
+        createdAt: new Date().toISOString(),
+        payload: job.payload || {}
+    };
+
+    await jobStore.set(scheduled.id, scheduled);
+    dueQueue.push(job.runAt.getTime(), scheduled.id);
+
+    logger.info(`Scheduled ${scheduled.type} job ${scheduled.id} for ${scheduled.runAt}`);
+    return scheduled;
+};
+
+export const getJob = async (jobId: string): Promise<ScheduledJob | undefined> => {
+    return jobStore.get(jobId);
+};
+
+export const cancelJob = async (jobId: string): Promise<boolean> => {
+    // the heap entry is left behind and skipped when it comes due
+    const cancelled = await jobStore.delete(jobId);
+    if (cancelled) {
+        logger.info(`Cancelled scheduled job ${jobId}`);
+    }
+    return cancelled;
+};
+
+/**
+ * Cancels every pending job for a customer, optionally narrowed by type and payload fields
+ */
+export const cancelJobs = async (customerId: string, type?: string, payloadMatch: Record<string, any> = {}): Promise<number> => {
+    const jobs = await getPendingJobs(customerId, type);
+    const matching = jobs.filter(job => Object.entries(payloadMatch).every(([key, value]) => job.payload[key] === value));
+
+    for (const job of matching) {
+        await cancelJob(job.id);
+    }
+    return matching.length;
+};
+
+export const getPendingJobs = async (customerId: string, type?: string): Promise<ScheduledJob[]> => {
+    const jobs = await jobStore.getAll();
+    return jobs
+        .filter(job => job.customerId === customerId && (!type || job.type === type))
+        .sort((a, b) => Date.parse(a.runAt) - Date.parse(b.runAt));
+};
+
+/**
+ * Runs a pending job now instead of waiting for its due time
+ */
+export const runJobNow = async (jobId: string): Promise<boolean> => {
+    const job = await jobStore.get(jobId);
+    if (!job) {
+        return false;
+    }
+
+    await runJob(job);
+    return true;
+};
+
+// true while the stored job is the one that ran, i.e. its handler did not reschedule it
+const isUnchanged = async (job: ScheduledJob): Promise<boolean> => {
+    const stored = await jobStore.get(job.id);
+    return !!stored && stored.runAt === job.runAt && stored.createdAt === job.createdAt;
+};
+
+/**
+ * Reschedules a failed job with the event retry backoff, or moves it to the
+ * dead letters once it has used up its attempts
+ */
+const handleJobFailure = async (job: ScheduledJob, error: Error): Promise<void> => {
+    const attempt = (job.attempts || 0) + 1;
+
+    if (attempt >= getMaxAttempts()) {
+        await jobStore.delete(job.id);
+        await deadLetterRepository.save({
+            id: uuidv4(),
+            topic: JOB_DEAD_LETTER_TOPIC,
+            key: job.customerId,
+            value: JSON.stringify(job),
+            headers: { 'job-type': job.type },
+            error: error.message,
+            attempts: attempt,
+            failedAt: new Date().toISOString()
+        });
+        logger.error(`Scheduled job ${job.id} (${job.type}) moved to the dead letters after ${attempt} attempt(s): ${error.message}`);
+        return;
+    }
+
+    const delay = getRetryDelay(attempt);
+    const runAt = new Date(Date.now() + delay);
+    await jobStore.set(job.id, { ...job, runAt: runAt.toISOString(), attempts: attempt });
+    dueQueue.push(runAt.getTime(), job.id);
+
+    logger.warn(`Retrying scheduled job ${job.id} (${job.type}) in ${delay}ms (attempt ${attempt + 1} of ${getMaxAttempts()}): ${error.message}`);
+};
+
+/**
+ * Runs a job's handler. The job stays stored until the handler succeeds, so
+ * a failure or a crash mid-run does not lose it; a handler that reschedules
+ * the job under its own ID keeps the new one.
+ */
+const runJob = async (job: ScheduledJob): Promise<void> => {
+    const handler = handlers.get(job.type);
+    if (!handler) {
+        logger.error(`No handler registered for scheduled job type: ${job.type}`);
+        await jobStore.delete(job.id);
+        return;
+    }
+
+    if (running.has(job.id)) {
+        return;
+    }
+    running.add(job.id);
+
+    try {
+        await handler(job);
+        if (await isUnchanged(job)) {
+            await jobStore.delete(job.id);
+        }
+    } catch (error) {
+        logger.error(`Scheduled job ${job.id} (${job.type}) failed:`, error);
+        if (await isUnchanged(job)) {
+            await handleJobFailure(job, error as Error);
+        }
+    } finally {
+        running.delete(job.id);
+    }
+};
+
+/**
+ * Schedules a dead-lettered job again, due now and with a fresh attempt count
+ */
+export const redriveJob = async (job: ScheduledJob): Promise<ScheduledJob> => {
+    return scheduleJob({
+        id: job.id,
+        type: job.type,
+        customerId: job.customerId,
+        runAt: new Date(),
+        payload: job.payload
+    });
+};
+
+const tick = async (): Promise<void> => {
+    if (ticking) {
+        return;
+    }
+    ticking = true;
+
+    try {
+        const now = Date.now();
+
+        while (dueQueue.size > 0 && dueQueue.peek()!.priority <= now) {
+            const { priority, value: jobId } = dueQueue.pop()!;
+            const job = await jobStore.get(jobId);
+
+            // stale heap entry: the job was cancelled or rescheduled
+            if (!job || Date.parse(job.runAt) !== priority) {
+                continue;
+            }
+
+            await runJob(job);
+        }
+    } finally {
+        ticking = false;
+    }
+};
+
+/**
+ * Loads persisted jobs and starts polling. Jobs that came due while the
+ * process was down run on the first tick.
+ */
+export const start = async (): Promise<void> => {
+    if (pollTimer) {
+        return;
+    }
+
+    dueQueue.clear();
+    const jobs = await jobStore.getAll();
+    jobs.forEach(job => dueQueue.push(Date.parse(job.runAt), job.id));
+
+    pollTimer = setInterval(() => {
+        tick().catch(error => logger.error('Scheduler tick failed:', error));
+    }, pollInterval);
+
+    logger.info(`Scheduler started with ${jobs.length} pending job(s)`);
+};
+
+export const stop = (): void => {
+    if (pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+        logger.info('Scheduler stopped');
+    }
+};
@@ -0,0 +1,89 @@
+import { matchesSegment } from './segmentService';
+import { CustomerData, SegmentRule } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.parse('2026-03-10T12:00:00.000Z');
+const daysAgo = (days: number): string => new Date(now - days * DAY_MS).toISOString();
+
+const customer: CustomerData = {
+    id: 'c1',
+    email: 'ada@example.com',
+    name: 'Ada',
+    signupDate: daysAgo(10),
+    lastActivity: daysAgo(1),
+    preferences: { category: 'Electronics', notifications: true },
+    metadata: {
+        lastProductVisit: { productId: 'p1', productName: 'Laptop', category: 'electronics', visitedAt: daysAgo(2) }
+    },
+    workflowState: {
+        journeys: {},
+        lastEmailSent: daysAgo(3),
+        emailHistory: [
+            { journeyId: 'onboarding', stepId: 1, template: 'welcome', sentAt: daysAgo(10) },
+            { journeyId: 'onboarding', stepId: 2, template: 'discount', sentAt: daysAgo(3) }
+        ]
+    }
+} as CustomerData;
+
+const matches = (rules: SegmentRule): boolean => matchesSegment(rules, customer, now);
+
+describe('segment rules', () => {
+    it('compares strings case-insensitively', () => {
+        expect(matches({ field: 'preferences.category', op: 'eq', value: 'electronics' })).toBe(true);
+        expect(matches({ field: 'preferences.category', op: 'neq', value: 'ELECTRONICS' })).toBe(false);
+        expect(matches({ field: 'name', op: 'contains', value: 'AD' })).toBe(true);
+    });
+
+    it('orders numbers and dates', () => {
+        expect(matches({ field: 'emailsSent', op: 'gte', value: 2 })).toBe(true);
+        expect(matches({ field: 'emailsSent', op: 'gt', value: 2 })).toBe(false);
+        expect(matches({ field: 'signupDate', op: 'lt', value: daysAgo(5) })).toBe(true);
+        expect(matches({ field: 'signupDate', op: 'gt', value: daysAgo(5) })).toBe(false);
+    });
+
+    it('does not order values of different kinds', () => {
+        expect(matches({ field: 'name', op: 'gt', value: 1 })).toBe(false);
+        expect(matches({ field: 'name', op: 'lte', value: 1 })).toBe(false);
+    });
+
+    it('derives days since signup, activity, product visit and last email', () => {
+        expect(matches({ field: 'daysSinceSignup', op: 'gte', value: 10 })).toBe(true);
+        expect(matches({ field: 'daysSinceLastActivity', op: 'lte', value: 1 })).toBe(true);
+        expect(matches({ field: 'daysSinceLastProductVisit', op: 'lt', value: 2 })).toBe(false);
+        expect(matches({ field: 'daysSinceLastEmail', op: 'gt', value: 2.5 })).toBe(true);
+    });
+
+    it('matches list membership and array contents', () => {
+        expect(matches({ field: 'metadata.lastProductVisit.category', op: 'in', value: ['books', 'Electronics'] })).toBe(true);
+        expect(matches({ field: 'metadata.lastProductVisit.category', op: 'nin', value: ['electronics'] })).toBe(false);
+        expect(matches({ field: 'templatesReceived', op: 'contains', value: 'discount' })).toBe(true);
+        expect(matches({ field: 'templatesReceived', op: 'contains', value: 'reminder' })).toBe(false);
+    });
+
+    it('lets only neq, nin and exists false hold for a missing field', () => {
+        expect(matches({ field: 'traits.plan', op: 'eq', value: 'pro' })).toBe(false);
+        expect(matches({ field: 'traits.plan', op: 'lt', value: 5 })).toBe(false);
+        expect(matches({ field: 'traits.plan', op: 'contains', value: 'pro' })).toBe(false);
+        expect(matches({ field: 'traits.plan', op: 'neq', value: 'pro' })).toBe(true);
+        expect(matches({ field: 'traits.plan', op: 'nin', value: ['pro'] })).toBe(true);
+        expect(matches({ field: 'traits.plan', op: 'exists', value: false })).toBe(true);
+        expect(matches({ field: 'traits.plan', op: 'exists' })).toBe(false);
+        expect(matches({ field: 'preferences.category', op: 'exists' })).toBe(true);
+    });
+
+    it('combines conditions with and, or and not', () => {
+        const browsedElectronics: SegmentRule = { field: 'metadata.lastProductVisit.category', op: 'eq', value: 'electronics' };
+        const gotDiscount: SegmentRule = { field: 'templatesReceived', op: 'contains', value: 'discount' };
+        const gotReminder: SegmentRule = { field: 'templatesReceived', op: 'contains', value: 'reminder' };
+
+        expect(matches({ and: [browsedElectronics, gotDiscount] })).toBe(true);
+        expect(matches({ and: [browsedElectronics, { not: gotDiscount }] })).toBe(false);
+        expect(matches({ or: [gotReminder, { not: gotDiscount }] })).toBe(false);
+        expect(matches({ or: [gotReminder, { and: [browsedElectronics, { not: gotReminder }] }] })).toBe(true);
+    });
+
+    it('treats empty groups as all and none', () => {
+        expect(matches({ and: [] })).toBe(true);
+        expect(matches({ or: [] })).toBe(false);
+    });
+});
@@ -0,0 +1,355 @@
+import { logger } from '../config/kafka';
+import { getAllJourneys } from './journeyRegistry';
+import { segmentRepository, customerRepository, workflowStateRepository } from '../repositories/index';
+import { segmentValidator } from '../validation/index';
+import { ApiResponse, CustomerData, Segment, SegmentCondition, SegmentMembership, SegmentRequest, SegmentRule } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// fractional days, so `daysSinceLastActivity lte 3` means within the last 72 hours
+const daysSince = (timestamp: string | null | undefined, now: number): number | undefined => {
+    const time = timestamp ? Date.parse(timestamp) : NaN;
+    return isNaN(time) ? undefined : (now - time) / DAY_MS;
+};
+
+/**
+ * The values a segment rule can refer to: the customer profile and workflow
+ * state, plus values derived from them. Email counts cover the capped send history.
+ */
+const buildContext = (customer: CustomerData, now: number): Record<string, any> => {
+    const history = (customer.workflowState && customer.workflowState.emailHistory) || [];
+    const lastProductVisit = customer.metadata && customer.metadata.lastProductVisit;
+
+    return {
+        ...customer,
+        daysSinceSignup: daysSince(customer.signupDate, now),
+        daysSinceLastActivity: daysSince(customer.lastActivity, now),
+        daysSinceLastProductVisit: daysSince(lastProductVisit && lastProductVisit.visitedAt, now),
+        daysSinceLastEmail: daysSince(customer.workflowState && customer.workflowState.lastEmailSent, now),
+        emailsSent: history.length,
+        templatesReceived: Array.from(new Set(history.map(record => record.template)))
+    };
+};
+
+const resolvePath = (context: Record<string, any>, field: string): any => {
+    let value: any = context;
+    for (const key of field.split('.')) {
+        value = value == null ? undefined : value[key];
+    }
+    return value;
+};
+
+// strings compare case-insensitively, so "Electronics" matches "electronics"
+const isEqual = (actual: any, expected: any): boolean => {
+    if (typeof actual === 'string' && typeof expected === 'string') {
+        return actual.toLowerCase() === expected.toLowerCase();
+    }
+    return actual === expected;
+};
+
+// orders numbers, or two dates; anything else is not comparable
+const compare = (actual: any, expected: any): number | undefined => {
+    if (typeof actual === 'number' && typeof expected === 'number') {
+        return actual - expected;
+    }
+    if (typeof actual === 'string' && typeof expected === 'string') {
+        const a = Date.parse(actual);
+        const b = Date.parse(expected);
+        return isNaN(a) || isNaN(b) ? undefined : a - b;
+    }
+    return undefined;
+};
+
+const evaluateCondition = (condition: SegmentCondition, actual: any): boolean => {
+    const { op, value } = condition;
+
+    switch (op) {
+        case 'exists':
+            return (actual != null) === (value !== false);
+        case 'eq':
+            return isEqual(actual, value);
+        case 'neq':
+            return !isEqual(actual, value);
+        case 'in':
+            return Array.isArray(value) && value.some(candidate => isEqual(actual, candidate));
+        case 'nin':
+            return !Array.isArray(value) || !value.some(candidate => isEqual(actual, candidate));
+        case 'contains':
+            if (Array.isArray(actual)) {
+                return actual.some(item => isEqual(item, value));
+            }
+            return typeof actual === 'string' && actual.toLowerCase().includes(String(value).toLowerCase());
+        default: {
+            const order = compare(actual, value);
+            if (order === undefined) {
+                return false;
+            }
+            return op === 'gt' ? order > 0 : op === 'gte' ? order >= 0 : op === 'lt' ? order < 0 : order <= 0;
+        }
+    }
+};
+
+const evaluateRule = (rule: SegmentRule, context: Record<string, any>): boolean => {
+    if ('and' in rule) {
+        return rule.and.every(child => evaluateRule(child, context));
+    }
+    if ('or' in rule) {
+        return rule.or.some(child => evaluateRule(child, context));
+    }
+    if ('not' in rule) {
+        return !evaluateRule(rule.not, context);
+    }
+    return evaluateCondition(rule, resolvePath(context, rule.field));
+};
+
+/**
+ * Evaluates a segment's rules against a customer. A missing field never
+ * matches a comparison, so only neq, nin and `exists: false` hold for it.
+ */
+export const matchesSegment = (rules: SegmentRule, customer: CustomerData, now: number = Date.now()): boolean => {
+    return evaluateRule(rules, buildContext(customer, now));
+};
+
+const loadCustomerData = async (customerId: string): Promise<CustomerData | undefined> => {
+    const profile = await customerRepository.findById(customerId);
+    if (!profile) {
+        return undefined;
+    }
+    return { ...profile, workflowState: await workflowStateRepository.findByCustomerId(customerId) };
+};
+
+// IDs of every customer currently matching the segment
+export const findSegmentMembers = async (segment: Segment): Promise<string[]> => {
+    const now = Date.now();
+    const members: string[] = [];
+
+    for (const profile of await customerRepository.findAll()) {
+        const customer = await loadCustomerData(profile.id);
+        if (customer && matchesSegment(segment.rules, customer, now)) {
+            members.push(customer.id);
+        }
+    }
+    return members;
+};
+
+/**
+ * Checks a customer against a segment by ID. An unknown segment matches nobody.
+ */
+export const isCustomerInSegment = async (segmentId: string, customer: CustomerData): Promise<boolean> => {
+    const segment = await segmentRepository.findById(segmentId);
+    if (!segment) {
+        logger.warn(`Segment ${segmentId} not found; customer ${customer.id} is not a member`);
+        return false;
+    }
+    return matchesSegment(segment.rules, customer);
+};
+
+/**
+ * Checks whether a stored customer is in a segment, e.g. for analytics filters
+ */
+export const isStoredCustomerInSegment = async (segment: Segment, customerId: string): Promise<boolean> => {
+    const customer = await loadCustomerData(customerId);
+    return !!customer && matchesSegment(segment.rules, customer);
+};
+
+export const listSegments = async (): Promise<ApiResponse<{ count: number; segments: Segment[] }>> => {
+    try {
+        const segments = await segmentRepository.findAll();
+
+        return {
+            success: true,
+            data: {
+                count: segments.length,
+                segments
+            }
+        };
+    } catch (error) {
+        logger.error('List segments error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while listing segments'
+        };
+    }
+};
+
+export const getSegment = async (segmentId: string): Promise<ApiResponse<Segment>> => {
+    const segment = await segmentRepository.findById(segmentId);
+
+    if (!segment) {
+        return {
+            success: false,
+            error: 'Segment not found'
+        };
+    }
+
+    return {
+        success: true,
+        data: segment
+    };
+};
+
+export const createSegment = async (request: SegmentRequest): Promise<ApiResponse<Segment>> => {
+    try {
+        const validation = segmentValidator.validateSegment(request);
+        if (!validation.isValid) {
+            return {
+                success: false,
+                error: validation.error
+            };
+        }
+
+        const now = new Date().toISOString();
+        const segment: Segment = {
+            id: request.id as string,
+            name: request.name,
+            description: request.description,
+            rules: request.rules,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        if (!await segmentRepository.create(segment)) {
+            return {
+                success: false,
+                error: `Segment ${segment.id} already exists`
+            };
+        }
+
+        logger.info(`Created segment ${segment.id}`);
+        return {
+            success: true,
+            message: 'Segment created',
+            data: segment
+        };
+    } catch (error) {
+        logger.error('Create segment error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while creating segment'
+        };
+    }
+};
+
+/**
+ * Replaces a segment's name, description and rules. Journeys that reference
+ * the segment use the new rules for customers they enroll from now on.
+ */
+export const updateSegment = async (segmentId: string, request: SegmentRequest): Promise<ApiResponse<Segment>> => {
+    try {
+        if (request && request.id !== undefined && request.id !== segmentId) {
+            return {
+                success: false,
+                error: `Segment ID "${request.id}" does not match segment "${segmentId}"`
+            };
+        }
+
+        const validation = segmentValidator.validateSegment({ ...request, id: segmentId });
+        if (!validation.isValid) {
+            return {
+                success: false,
+                error: validation.error
+            };
+        }
+
+        const existing = await segmentRepository.findById(segmentId);
+        if (!existing) {
+            return {
+                success: false,
+                error: 'Segment not found'
+            };
+        }
+
+        const segment: Segment = {
+            ...existing,
+            name: request.name,
+            description: request.description,
+            rules: request.rules,
+            updatedAt: new Date().toISOString()
+        };
+        await segmentRepository.save(segment);
+
+        logger.info(`Updated segment ${segmentId}`);
+        return {
+            success: true,
+            message: 'Segment updated',
+            data: segment
+        };
+    } catch (error) {
+        logger.error('Update segment error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while updating segment'
+        };
+    }
+};
+
+export const deleteSegment = async (segmentId: string): Promise<ApiResponse<{ id: string }>> => {
+    try {
+        const segment = await segmentRepository.findById(segmentId);
+        if (!segment) {
+            return {
+                success: false,
+                error: 'Segment not found'
+            };
+        }
+
+        const referencedBy = getAllJourneys()
+            .filter(journey => journey.segment === segmentId)
+            .map(journey => journey.id);
+        if (referencedBy.length > 0) {
+            return {
+                success: false,
+                error: `Segment is in use by journey(s): ${referencedBy.join(', ')}`
+            };
+        }
+
+        await segmentRepository.delete(segmentId);
+
+        logger.info(`Deleted segment ${segmentId}`);
+        return {
+            success: true,
+            message: 'Segment deleted',
+            data: { id: segmentId }
+        };
+    } catch (error) {
+        logger.error('Delete segment error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while deleting segment'
+        };
+    }
+};
+
+/**
+ * Evaluates a segment against every customer. Membership is computed on
+ * request and never stored, so it always reflects current customer data.
+ */
+export const getSegmentMembers = async (segmentId: string): Promise<ApiResponse<SegmentMembership>> => {
+    try {
+        const segment = await segmentRepository.findById(segmentId);
+        if (!segment) {
+            return {
+                success: false,
+                error: 'Segment not found'
+            };
+        }
+
+        const customerIds = await findSegmentMembers(segment);
+
+        return {
+            success: true,
+            data: {
+                segmentId,
+                evaluatedAt: new Date().toISOString(),
+                count: customerIds.length,
+                customerIds
+            }
+        };
+    } catch (error) {
+        logger.error('Evaluate segment error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while evaluating segment'
+        };
+    }
+};
@@ -0,0 +1,392 @@
+import { logger } from '../config/kafka';
+import { loadTemplates, validateTemplate, renderTemplate, renderSms, renderPush, renderWebhook } from '../email/index';
+import { getAllJourneys } from './journeyRegistry';
+import { templateRepository, customerRepository } from '../repositories/index';
+import { workflowValidator } from '../validation/index';
+import {
+    ApiResponse,
+    CustomerData,
+    EmailTemplate,
+    ManagedTemplate,
+    TemplatePreview,
+    TemplatePreviewRequest,
+    TemplateSummary,
+    TemplateUploadRequest,
+    TemplateVersion
+} from '../types';
+
+const toSummary = (template: ManagedTemplate): TemplateSummary => {
+    const latest = template.versions[template.versions.length - 1];
+    return {
+        id: template.id,
+        subject: latest.subject,
+        description: latest.description,
+        publishedVersion: template.publishedVersion,
+        latestVersion: latest.version,
+        updatedAt: template.updatedAt
+    };
+};
+
+const findVersion = (template: ManagedTemplate, version: number): TemplateVersion | undefined => {
+    return template.versions.find(candidate => candidate.version === version);
+};
+
+/**
+ * Builds a template version from an upload; the template ID is the template name
+ */
+const buildVersion = (templateId: string, upload: TemplateUploadRequest, version: number): { version?: TemplateVersion; error?: string } => {
+    const { publish, ...fields } = upload || ({} as TemplateUploadRequest);
+
+    if (fields.name !== undefined && fields.name !== templateId) {
+        return { error: `Template name "${fields.name}" does not match template ID "${templateId}"` };
+    }
+
+    const template: EmailTemplate = { ...fields, name: templateId };
+    const validation = validateTemplate(template);
+    if (!validation.isValid) {
+        return { error: validation.error };
+    }
+
+    return {
+        version: {
+            ...template,
+            version,
+            createdAt: new Date().toISOString()
+        }
+    };
+};
+
+/**
+ * Imports the file-based templates as published version 1 of any template
+ * that is not managed yet. Existing templates are never overwritten.
+ */
+export const seedTemplates = async (): Promise<void> => {
+    const fileTemplates = loadTemplates();
+    let seeded = 0;
+
+    for (const template of Object.values(fileTemplates)) {
+        const now = new Date().toISOString();
+        const created = await templateRepository.create({
+            id: template.name,
+            publishedVersion: 1,
+            versions: [{ ...template, version: 1, createdAt: now }],
+            createdAt: now,
+            updatedAt: now
+        });
+        if (created) {
+            seeded++;
+        }
+    }
+
+    logger.info(`Seeded ${seeded} email template(s) from template files`);
+};
+
+export const listTemplates = async (): Promise<ApiResponse<{ count: number; templates: TemplateSummary[] }>> => {
+    try {
+        const templates = await templateRepository.findAll();
+
+        return {
+            success: true,
+            data: {
+                count: templates.length,
+                templates: templates.map(toSummary)
+            }
+        };
+    } catch (error) {
+        logger.error('List templates error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while listing templates'
+        };
+    }
+};
+
+export const getTemplate = async (templateId: string): Promise<ApiResponse<ManagedTemplate>> => {
+    const template = await templateRepository.findById(templateId);
+
+    if (!template) {
+        return {
+            success: false,
+            error: 'Template not found'
+        };
+    }
+
+    return {
+        success: true,
+        data: template
+    };
+};
+
+export const getTemplateVersion = async (templateId: string, version: number): Promise<ApiResponse<TemplateVersion>> => {
+    const template = await templateRepository.findById(templateId);
+    const templateVersion = template && findVersion(template, version);
+
+    if (!templateVersion) {
+        return {
+            success: false,
+            error: template ? 'Template version not found' : 'Template not found'
+        };
+    }
+
+    return {
+        success: true,
+        data: templateVersion
+    };
+};
+
+/**
+ * Creates a template with its first version, published straight away when requested
+ */
+export const createTemplate = async (upload: TemplateUploadRequest): Promise<ApiResponse<ManagedTemplate>> => {
+    try {
+        const templateId = upload && upload.name;
+        if (!templateId) {
+            return {
+                success: false,
+                error: 'Template name is required'
+            };
+        }
+
+        const { version, error } = buildVersion(templateId, upload, 1);
+        if (!version) {
+            return {
+                success: false,
+                error
+            };
+        }
+
+        const template: ManagedTemplate = {
+            id: templateId,
+            publishedVersion: upload.publish ? 1 : null,
+            versions: [version],
+            createdAt: version.createdAt,
+            updatedAt: version.createdAt
+        };
+
+        const created = await templateRepository.create(template);
+        if (!created) {
+            return {
+                success: false,
+                error: `Template "${templateId}" already exists`
+            };
+        }
+
+        logger.info(`Created email template ${templateId}${upload.publish ? ' (published)' : ''}`);
+        return {
+            success: true,
+            message: 'Template created',
+            data: template
+        };
+    } catch (error) {
+        logger.error('Create template error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while creating template'
+        };
+    }
+};
+
+/**
+ * Adds a new version to a template. Versions are immutable, so sends keep
+ * using the published version until the new one is published.
+ */
+export const updateTemplate = async (templateId: string, upload: TemplateUploadRequest): Promise<ApiResponse<ManagedTemplate>> => {
+    try {
+        const template = await templateRepository.findById(templateId);
+        if (!template) {
+            return {
+                success: false,
+                error: 'Template not found'
+            };
+        }
+
+        const nextVersion = template.versions[template.versions.length - 1].version + 1;
+        const { version, error } = buildVersion(templateId, upload, nextVersion);
+        if (!version) {
+            return {
+                success: false,
+                error
+            };
+        }
+
+        const updated: ManagedTemplate = {
+            ...template,
+            publishedVersion: upload.publish ? nextVersion : template.publishedVersion,
+            versions: [...template.versions, version],
+            updatedAt: version.createdAt
+        };
+        await templateRepository.save(updated);
+
+        logger.info(`Added version ${nextVersion} of email template ${templateId}${upload.publish ? ' (published)' : ''}`);
+        return {
+            success: true,
+            message: `Template version ${nextVersion} created`,
+            data: updated
+        };
+    } catch (error) {
+        logger.error('Update template error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while updating template'
+        };
+    }
+};
+
+/**
+ * Makes a version the one used for sends. Publishing an older version is how a change is rolled back.
+ */
+export const publishTemplate = async (templateId: string, version: number): Promise<ApiResponse<ManagedTemplate>> => {
+    try {
+        if (!Number.isInteger(version) || version < 1) {
+            return {
+                success: false,
+                error: 'Version must be a positive integer'
+            };
+        }
+
+        const template = await templateRepository.findById(templateId);
+        if (!template) {
+            return {
+                success: false,
+                error: 'Template not found'
+            };
+        }
+
+        if (!findVersion(template, version)) {
+            return {
+                success: false,
+                error: 'Template version not found'
+            };
+        }
+
+        const updated: ManagedTemplate = {
+            ...template,
+            publishedVersion: version,
+            updatedAt: new Date().toISOString()
+        };
+        await templateRepository.save(updated);
+
+        logger.info(`Published version ${version} of email template ${templateId}`);
+        return {
+            success: true,
+            message: `Template version ${version} published`,
+            data: updated
+        };
+    } catch (error) {
+        logger.error('Publish template error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while publishing template'
+        };
+    }
+};
+
+/**
+ * Deletes a template unless a loaded journey still sends it, directly or as an experiment variant
+ */
+export const deleteTemplate = async (templateId: string): Promise<ApiResponse<{ id: string }>> => {
+    try {
+        const template = await templateRepository.findById(templateId);
+        if (!template) {
+            return {
+                success: false,
+                error: 'Template not found'
+            };
+        }
+
+        const referencedBy = getAllJourneys()
+            .filter(journey => journey.steps.some(step => step.template === templateId
+                || !!step.experiment?.variants.some(variant => variant.template === templateId)))
+            .map(journey => journey.id);
+        if (referencedBy.length > 0) {
+            return {
+                success: false,
+                error: `Template is in use by journey(s): ${referencedBy.join(', ')}`
+            };
+        }
+
+        await templateRepository.delete(templateId);
+
+        logger.info(`Deleted email template ${templateId}`);
+        return {
+            success: true,
+            message: 'Template deleted',
+            data: { id: templateId }
+        };
+    } catch (error) {
+        logger.error('Delete template error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while deleting template'
+        };
+    }
+};
+
+/**
+ * Renders a template version (the published one by default) for an existing
+ * customer or a sample customer without sending anything
+ */
+export const previewTemplate = async (templateId: string, request: TemplatePreviewRequest): Promise<ApiResponse<TemplatePreview>> => {
+    try {
+        const validation = workflowValidator.validateTemplatePreview(request);
+        if (!validation.isValid) {
+            return {
+                success: false,
+                error: validation.error
+            };
+        }
+
+        const template = await templateRepository.findById(templateId);
+        if (!template) {
+            return {
+                success: false,
+                error: 'Template not found'
+            };
+        }
+
+        const versionNumber = request.version || template.publishedVersion || template.versions[template.versions.length - 1].version;
+        const templateVersion = findVersion(template, versionNumber);
+        if (!templateVersion) {
+            return {
+                success: false,
+                error: 'Template version not found'
+            };
+        }
+
+        let customer: CustomerData;
+        if (request.customerId) {
+            const profile = await customerRepository.findById(request.customerId);
+            if (!profile) {
+                return {
+                    success: false,
+                    error: 'Customer not found'
+                };
+            }
+            customer = profile;
+        } else {
+            const sample = request.customer!;
+            customer = {
+                ...sample,
+                id: sample.id || 'preview',
+                preferences: sample.preferences || {}
+            };
+        }
+
+        return {
+            success: true,
+            data: {
+                version: versionNumber,
+                ...renderTemplate(templateVersion, customer, request.data),
+                ...(templateVersion.sms ? { sms: renderSms(templateVersion, customer, request.data) } : {}),
+                ...(templateVersion.push ? { push: renderPush(templateVersion, customer, request.data) } : {}),
+                ...(templateVersion.webhook ? { webhook: renderWebhook(templateVersion, customer, request.data) } : {})
+            }
+        };
+    } catch (error) {
+        logger.error('Preview template error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while previewing template'
+        };
+    }
+};
@@ -0,0 +1,109 @@
+import { logger } from '../config/kafka';
+import { publicBaseUrl } from '../config/server';
+import { publishEmailOpened, publishEmailClicked } from './eventService';
+import { createSignedToken, verifySignedToken, resolveSigningSecret } from '../utils/signedToken';
+import { ApiResponse, EmailData } from '../types';
+
+interface TrackingTokenPayload {
+    m: string;
+    c: string;
+    t: string;
+    u?: string;
+}
+
+const trackingEnabled: boolean = process.env.EMAIL_TRACKING_ENABLED !== 'false';
+const trackingSecret: string = resolveSigningSecret('TRACKING_SECRET');
+
+// 1x1 transparent GIF
+export const TRACKING_PIXEL: Buffer = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+const isTrackableUrl = (url: string): boolean => {
+    // unsubscribe links are left alone so opting out never depends on the tracker
+    return /^https?:\/\//i.test(url) && !url.startsWith(`${publicBaseUrl}/unsubscribe/`);
+};
+
+const decodeEntities = (value: string): string => value.replace(/&amp;/g, '&');
+
+/**
+ * Rewrites every http(s) link in the HTML part through the click redirect and
+ * appends an open pixel. The tokens are signed, so the redirect cannot be
+ * used to send people to arbitrary URLs.
+ */
+export const applyTracking = (emailData: EmailData & { messageId: string }): EmailData => {
+    if (!trackingEnabled) {
+        return emailData;
+    }
+
+    const base: TrackingTokenPayload = { m: emailData.messageId, c: emailData.customerId, t: emailData.type };
+
+    const html = emailData.html.replace(/href="([^"]*)"/gi, (match, href: string) => {
+        const url = decodeEntities(href);
+        if (!isTrackableUrl(url)) {
+            return match;
+        }
+        return `href="${publicBaseUrl}/email/click/${createSignedToken({ ...base, u: url }, trackingSecret)}"`;
+    });
+
+    const pixel = `<img src="${publicBaseUrl}/email/open/${createSignedToken(base, trackingSecret)}" width="1" height="1" alt="" style="display: none;">`;
+
+    return { ...emailData, html: `${html}\n${pixel}` };
+};
+
+const decodeToken = (token: string): TrackingTokenPayload | undefined => {
+    const payload = verifySignedToken<TrackingTokenPayload>(token, trackingSecret);
+    return payload && typeof payload.m === 'string' && typeof payload.c === 'string' ? payload : undefined;
+};
+
+/**
+ * Records an open from the tracking pixel. Invalid tokens are ignored; the pixel is served either way.
+ */
+export const recordOpen = async (token: string, userAgent?: string): Promise<void> => {
+    const payload = decodeToken(token);
+    if (!payload) {
+        return;
+    }
+
+    try {
+        await publishEmailOpened({
+            messageId: payload.m,
+            customerId: payload.c,
+            emailType: payload.t,
+            userAgent,
+            occurredAt: new Date().toISOString()
+        });
+    } catch (error) {
+        logger.error('Record email open error:', error);
+    }
+};
+
+/**
+ * Records a click and returns the original link to redirect to. A failure to
+ * publish the event never stops the customer from reaching the link.
+ */
+export const recordClick = async (token: string, userAgent?: string): Promise<ApiResponse<{ url: string }>> => {
+    const payload = decodeToken(token);
+    if (!payload || !payload.u || !isTrackableUrl(payload.u)) {
+        return {
+            success: false,
+            error: 'Invalid tracking link'
+        };
+    }
+
+    try {
+        await publishEmailClicked({
+            messageId: payload.m,
+            customerId: payload.c,
+            emailType: payload.t,
+            url: payload.u,
+            userAgent,
+            occurredAt: new Date().toISOString()
+        });
+    } catch (error) {
+        logger.error('Record email click error:', error);
+    }
+
+    return {
+        success: true,
+        data: { url: payload.u }
+    };
+};
@@ -0,0 +1,35 @@
+import { createHmac } from 'crypto';
+import { signPayload } from './webhookService';
+
+describe('signPayload', () => {
+    const secret = 'whsec_test';
+    const body = JSON.stringify({ type: 'customer_signup', customerId: 'c-1' });
+
+    it('signs the timestamp and body with HMAC-SHA256', () => {
+        const expected = createHmac('sha256', secret).update(`1760000000.${body}`).digest('hex');
+
+        expect(signPayload(secret, body, 1760000000)).toBe(`t=1760000000,v1=${expected}`);
+    });
+
+    it('matches a known signature', () => {
+        expect(signPayload('secret', '{}', 1)).toBe('t=1,v1=1122767b193110cfec322b6f199b599edbf608ed087f2d27afb0b97d99523908');
+    });
+
+    it('changes with the secret, the body and the timestamp', () => {
+        const signature = signPayload(secret, body, 1760000000);
+
+        expect(signPayload('another-secret', body, 1760000000)).not.toBe(signature);
+        expect(signPayload(secret, `${body} `, 1760000000)).not.toBe(signature);
+        expect(signPayload(secret, body, 1760000001)).not.toBe(signature);
+    });
+
+    it('stamps the current time in seconds by default', () => {
+        const before = Math.floor(Date.now() / 1000);
+        const [timestamp] = signPayload(secret, body).split(',');
+        const after = Math.floor(Date.now() / 1000);
+
+        const seconds = parseInt(timestamp.slice('t='.length), 10);
+        expect(seconds).toBeGreaterThanOrEqual(before);
+        expect(seconds).toBeLessThanOrEqual(after);
+    });
+});
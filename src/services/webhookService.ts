@@ -0,0 +1,457 @@
+import { createHmac, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { logger, topics, defaultGroupId } from '../config/kafka';
+import { subscribeToEvents } from './eventService';
+import { registerJobHandler, scheduleJob, cancelJob, cancelJobs } from './scheduler';
+import { webhookRepository, webhookDeliveryRepository } from '../repositories/index';
+import { webhookValidator, WEBHOOK_EVENT_TYPES } from '../validation/index';
+import {
+    ApiResponse,
+    Event,
+    ScheduledJob,
+    WebhookAttempt,
+    WebhookDelivery,
+    WebhookDeliveryStatus,
+    WebhookHealth,
+    WebhookSubscription,
+    WebhookSubscriptionRequest,
+    WebhookSummary
+} from '../types';
+
+const maxAttempts: number = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10);
+const retryDelay: number = parseInt(process.env.WEBHOOK_RETRY_DELAY_MS || '30000', 10);
+const requestTimeout: number = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10);
+
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const WEBHOOK_DELIVERY_JOB = 'webhook_delivery';
+
+// health looks at this many of the latest attempts; a run of failures this long makes the endpoint failing
+const HEALTH_WINDOW = 50;
+const FAILING_AFTER = 3;
+
+const MAX_DELIVERY_LIMIT = 500;
+
+// subscribers get events in a group of their own, next to any other consumer
+const WEBHOOK_GROUP_ID = `${defaultGroupId}-webhooks`;
+
+// scheduler jobs belong to a customer; retries are filed under their subscription instead
+const jobOwner = (subscriptionId: string): string => `webhook:${subscriptionId}`;
+
+const retryJobId = (deliveryId: string): string => `${WEBHOOK_DELIVERY_JOB}:${deliveryId}`;
+
+// doubles per attempt; counted from when the previous attempt timed out, so attempts never overlap
+const getRetryAt = (attempt: number, now: number): Date => {
+    return new Date(now + requestTimeout + Math.min(retryDelay * Math.pow(2, attempt - 1), MAX_RETRY_DELAY_MS));
+};
+
+/**
+ * The `X-Webhook-Signature` header: `t=<unix seconds>,v1=<hex HMAC-SHA256>`
+ * over `<t>.<body>`. Subscribers recompute it with their secret and should
+ * reject stale timestamps to stop replays.
+ */
+export const signPayload = (secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string => {
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+};
+
+const post = async (subscription: WebhookSubscription, delivery: WebhookDelivery): Promise<WebhookAttempt & { retryable: boolean }> => {
+    const body = JSON.stringify(delivery.event);
+    const attemptedAt = new Date();
+
+    try {
+        const response = await fetch(subscription.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'acoustic-customer-journey-webhooks',
+                'X-Webhook-Id': delivery.id,
+                'X-Webhook-Event': delivery.eventType,
+                'X-Webhook-Signature': signPayload(subscription.secret, body)
+            },
+            body,
+            signal: AbortSignal.timeout(requestTimeout)
+        });
+        const durationMs = Date.now() - attemptedAt.getTime();
+
+        if (response.ok) {
+            return { attemptedAt: attemptedAt.toISOString(), durationMs, statusCode: response.status, retryable: false };
+        }
+
+        return {
+            attemptedAt: attemptedAt.toISOString(),
+            durationMs,
+            statusCode: response.status,
+            error: `Endpoint responded with ${response.status}: ${(await response.text()).slice(0, 500)}`,
+            // other client errors will not go away by trying again
+            retryable: response.status === 408 || response.status === 429 || response.status >= 500
+        };
+    } catch (error) {
+        return {
+            attemptedAt: attemptedAt.toISOString(),
+            durationMs: Date.now() - attemptedAt.getTime(),
+            error: (error as Error).message || String(error),
+            retryable: true
+        };
+    }
+};
+
+/**
+ * Makes the next attempt at a pending delivery. The retry is scheduled before
+ * the request goes out, so a crash mid-attempt still leaves it in the
+ * scheduler; it is cancelled once the delivery succeeds or fails for good.
+ */
+const attemptDelivery = async (deliveryId: string): Promise<void> => {
+    const delivery = await webhookDeliveryRepository.findById(deliveryId);
+    if (!delivery || delivery.status !== 'pending') {
+        return;
+    }
+
+    const subscription = await webhookRepository.findById(delivery.subscriptionId);
+    if (!subscription || !subscription.enabled) {
+        await webhookDeliveryRepository.save({
+            ...delivery,
+            status: 'failed',
+            nextAttemptAt: undefined,
+            completedAt: new Date().toISOString()
+        });
+        logger.warn(`Webhook delivery ${delivery.id} abandoned: subscription ${delivery.subscriptionId} is ${subscription ? 'disabled' : 'deleted'}`);
+        return;
+    }
+
+    const attemptNumber = delivery.attempts.length + 1;
+    const retryAt = attemptNumber < maxAttempts ? getRetryAt(attemptNumber, Date.now()) : undefined;
+    if (retryAt) {
+        await scheduleJob({
+            id: retryJobId(delivery.id),
+            type: WEBHOOK_DELIVERY_JOB,
+            customerId: jobOwner(subscription.id),
+            runAt: retryAt,
+            payload: { deliveryId: delivery.id }
+        });
+    }
+
+    const { retryable, ...attempt } = await post(subscription, delivery);
+    const succeeded = !attempt.error;
+    const status: WebhookDeliveryStatus = succeeded ? 'succeeded' : retryable && retryAt ? 'pending' : 'failed';
+
+    await webhookDeliveryRepository.save({
+        ...delivery,
+        status,
+        attempts: [...delivery.attempts, attempt],
+        nextAttemptAt: status === 'pending' ? retryAt?.toISOString() : undefined,
+        ...(status !== 'pending' ? { completedAt: new Date().toISOString() } : {})
+    });
+
+    if (status !== 'pending' && retryAt) {
+        await cancelJob(retryJobId(delivery.id));
+    }
+
+    if (succeeded) {
+        logger.info(`🪝 Delivered ${delivery.eventType} to webhook ${subscription.id} (attempt ${attemptNumber})`);
+    } else if (status === 'pending') {
+        logger.warn(`🪝 Webhook ${subscription.id} delivery of ${delivery.eventType} failed (attempt ${attemptNumber} of ${maxAttempts}), retrying at ${retryAt?.toISOString()}: ${attempt.error}`);
+    } else {
+        logger.error(`🪝 Webhook ${subscription.id} delivery of ${delivery.eventType} failed for good after ${attemptNumber} attempt(s): ${attempt.error}`);
+    }
+};
+
+// requests run in the background so a slow endpoint holds up neither the consumer nor the scheduler
+const startAttempt = (deliveryId: string): void => {
+    attemptDelivery(deliveryId).catch(error => logger.error(`Webhook delivery ${deliveryId} error:`, error));
+};
+
+const runDeliveryRetry = async (job: ScheduledJob): Promise<void> => {
+    startAttempt(job.payload.deliveryId);
+};
+
+/**
+ * Queues an event for every enabled subscription to its type. A redelivered
+ * event maps onto the delivery already created for it.
+ */
+const handleEvent = async (topic: string, event: Event): Promise<void> => {
+    if (!WEBHOOK_EVENT_TYPES.includes(event.type)) {
+        return;
+    }
+
+    const subscriptions = (await webhookRepository.findAll())
+        .filter(subscription => subscription.enabled && subscription.events.includes(event.type));
+
+    for (const subscription of subscriptions) {
+        const delivery: WebhookDelivery = {
+            id: `${subscription.id}:${event.id}`,
+            subscriptionId: subscription.id,
+            eventId: event.id,
+            eventType: event.type,
+            event,
+            status: 'pending',
+            attempts: [],
+            createdAt: new Date().toISOString()
+        };
+
+        if (await webhookDeliveryRepository.create(delivery)) {
+            startAttempt(delivery.id);
+        }
+    }
+};
+
+export const initialize = async (): Promise<void> => {
+    registerJobHandler(WEBHOOK_DELIVERY_JOB, runDeliveryRetry);
+    await subscribeToEvents([
+        topics.CUSTOMER_EVENTS,
+        topics.WORKFLOW_TRIGGERS,
+        topics.EMAIL_NOTIFICATIONS
+    ], handleEvent, { groupId: WEBHOOK_GROUP_ID });
+    logger.info('Webhook delivery initialized');
+};
+
+/**
+ * Derived from the delivery log: failing after a run of failed attempts or a
+ * delivery that ran out of attempts, degraded after any failed latest attempt.
+ */
+const getHealth = (deliveries: WebhookDelivery[]): WebhookHealth => {
+    const attempts = deliveries
+        .flatMap(delivery => delivery.attempts)
+        .sort((a, b) => b.attemptedAt.localeCompare(a.attemptedAt))
+        .slice(0, HEALTH_WINDOW);
+
+    const firstSuccess = attempts.findIndex(attempt => !attempt.error);
+    const consecutiveFailures = firstSuccess === -1 ? attempts.length : firstSuccess;
+    const lastFailure = attempts.find(attempt => attempt.error);
+    const latestDelivery = deliveries.find(delivery => delivery.status !== 'pending');
+
+    let status: WebhookHealth['status'] = 'healthy';
+    if (attempts.length === 0) {
+        status = 'unknown';
+    } else if (consecutiveFailures >= FAILING_AFTER || latestDelivery?.status === 'failed') {
+        status = 'failing';
+    } else if (consecutiveFailures > 0) {
+        status = 'degraded';
+    }
+
+    return {
+        status,
+        consecutiveFailures,
+        successRate: attempts.length > 0 ? attempts.filter(attempt => !attempt.error).length / attempts.length : null,
+        pendingDeliveries: deliveries.filter(delivery => delivery.status === 'pending').length,
+        lastSuccessAt: firstSuccess === -1 ? undefined : attempts[firstSuccess].attemptedAt,
+        lastFailureAt: lastFailure?.attemptedAt,
+        lastError: lastFailure?.error
+    };
+};
+
+const toSummary = async (subscription: WebhookSubscription): Promise<WebhookSummary> => {
+    const { secret, ...rest } = subscription;
+    return {
+        ...rest,
+        health: getHealth(await webhookDeliveryRepository.findBySubscriptionId(subscription.id))
+    };
+};
+
+export const listWebhooks = async (): Promise<ApiResponse<{ count: number; webhooks: WebhookSummary[] }>> => {
+    try {
+        const webhooks: WebhookSummary[] = [];
+        for (const subscription of await webhookRepository.findAll()) {
+            webhooks.push(await toSummary(subscription));
+        }
+
+        return {
+            success: true,
+            data: {
+                count: webhooks.length,
+                webhooks
+            }
+        };
+    } catch (error) {
+        logger.error('List webhooks error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while listing webhooks'
+        };
+    }
+};
+
+export const getWebhook = async (webhookId: string): Promise<ApiResponse<WebhookSummary>> => {
+    try {
+        const subscription = await webhookRepository.findById(webhookId);
+        if (!subscription) {
+            return {
+                success: false,
+                error: 'Webhook not found'
+            };
+        }
+
+        return {
+            success: true,
+            data: await toSummary(subscription)
+        };
+    } catch (error) {
+        logger.error('Get webhook error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while retrieving webhook'
+        };
+    }
+};
+
+/**
+ * Registers an endpoint. The signing secret is generated unless one is
+ * given, and this is the only response that includes it.
+ */
+export const createWebhook = async (request: WebhookSubscriptionRequest): Promise<ApiResponse<WebhookSubscription>> => {
+    try {
+        const validation = webhookValidator.validateSubscription(request);
+        if (!validation.isValid) {
+            return {
+                success: false,
+                error: validation.error
+            };
+        }
+
+        const now = new Date().toISOString();
+        const subscription: WebhookSubscription = {
+            id: uuidv4(),
+            url: request.url,
+            events: request.events,
+            description: request.description,
+            enabled: request.enabled !== false,
+            secret: request.secret || `whsec_${randomBytes(24).toString('hex')}`,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        await webhookRepository.save(subscription);
+
+        logger.info(`Created webhook ${subscription.id} for ${subscription.events.join(', ')}`);
+        return {
+            success: true,
+            message: 'Webhook created; store the secret, it is not shown again',
+            data: subscription
+        };
+    } catch (error) {
+        logger.error('Create webhook error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while creating webhook'
+        };
+    }
+};
+
+/**
+ * Replaces the URL, events, description and enabled flag. The secret is kept
+ * unless a new one is given. Pending retries go to the new URL.
+ */
+export const updateWebhook = async (webhookId: string, request: WebhookSubscriptionRequest): Promise<ApiResponse<WebhookSummary>> => {
+    try {
+        const validation = webhookValidator.validateSubscription(request);
+        if (!validation.isValid) {
+            return {
+                success: false,
+                error: validation.error
+            };
+        }
+
+        const existing = await webhookRepository.findById(webhookId);
+        if (!existing) {
+            return {
+                success: false,
+                error: 'Webhook not found'
+            };
+        }
+
+        const subscription: WebhookSubscription = {
+            ...existing,
+            url: request.url,
+            events: request.events,
+            description: request.description,
+            enabled: request.enabled !== false,
+            secret: request.secret || existing.secret,
+            updatedAt: new Date().toISOString()
+        };
+        await webhookRepository.save(subscription);
+
+        logger.info(`Updated webhook ${webhookId}`);
+        return {
+            success: true,
+            message: 'Webhook updated',
+            data: await toSummary(subscription)
+        };
+    } catch (error) {
+        logger.error('Update webhook error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while updating webhook'
+        };
+    }
+};
+
+// also drops the delivery log and any pending retries
+export const deleteWebhook = async (webhookId: string): Promise<ApiResponse<{ id: string }>> => {
+    try {
+        if (!await webhookRepository.delete(webhookId)) {
+            return {
+                success: false,
+                error: 'Webhook not found'
+            };
+        }
+
+        await cancelJobs(jobOwner(webhookId), WEBHOOK_DELIVERY_JOB);
+        await webhookDeliveryRepository.deleteBySubscriptionId(webhookId);
+
+        logger.info(`Deleted webhook ${webhookId}`);
+        return {
+            success: true,
+            message: 'Webhook deleted',
+            data: { id: webhookId }
+        };
+    } catch (error) {
+        logger.error('Delete webhook error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while deleting webhook'
+        };
+    }
+};
+
+/**
+ * The delivery log, newest first, optionally narrowed to one status
+ */
+export const getWebhookDeliveries = async (webhookId: string, status?: string, limit: number = 100): Promise<ApiResponse<{ count: number; deliveries: WebhookDelivery[] }>> => {
+    try {
+        if (!await webhookRepository.findById(webhookId)) {
+            return {
+                success: false,
+                error: 'Webhook not found'
+            };
+        }
+        if (status && !['pending', 'succeeded', 'failed'].includes(status)) {
+            return {
+                success: false,
+                error: 'Status must be one of: pending, succeeded, failed'
+            };
+        }
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERY_LIMIT) {
+            return {
+                success: false,
+                error: `Limit must be an integer from 1 to ${MAX_DELIVERY_LIMIT}`
+            };
+        }
+
+        const deliveries = (await webhookDeliveryRepository.findBySubscriptionId(webhookId))
+            .filter(delivery => !status || delivery.status === status)
+            .slice(0, limit);
+
+        return {
+            success: true,
+            data: {
+                count: deliveries.length,
+                deliveries
+            }
+        };
+    } catch (error) {
+        logger.error('Get webhook deliveries error:', error);
+        return {
+            success: false,
+            error: 'Internal server error while retrieving webhook deliveries'
+        };
+    }
+};
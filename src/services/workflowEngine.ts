@@ -1,58 +1,120 @@
-import { logger } from '../config/kafka';
-import { subscribeToEvents, publishWorkflowStep, publishCustomerInactive } from './eventService';
-import emailService from './emailService';
+import { logger, topics } from '../config/kafka';
+import { subscribeToEvents, publishWorkflowStep, publishStepCompleted, publishCustomerInactive } from './eventService';
+import { seedTemplates } from './templateService';
+import { recordConversion } from './conversionService';
+import { recordStepEntered, recordStepCompleted } from './funnelService';
+import { isCustomerInSegment, matchesSegment } from './segmentService';
+import { assignVariant, recordExposure } from './experimentService';
+import { checkFrequencyCap, reserveSend } from './frequencyCapService';
+import { getReachableChannels, sendThroughChannels } from './channelService';
+import { eraseCustomerData } from './privacyService';
+import { withCustomerLock } from './customerLock';
+import { reloadJourneys, watchJourneys, getActiveJourneys, getJourney } from './journeyRegistry';
+import { registerJobHandler, scheduleJob, getJob, cancelJob, cancelJobs, getPendingJobs, runJobNow, start as startScheduler } from './scheduler';
+import { nextAllowedSendTime, isValidTimezone } from '../utils/sendWindow';
+import { customerRepository, workflowStateRepository, customerEventRepository, stepLedgerRepository, sendDecisionRepository, erasureRepository, StepExecutionKey } from '../repositories/index';
 import Customer from '../models/customer';
 import { CustomerData } from '../types';
-import { Event, WorkflowStep, WorkflowStatus, ProductVisit } from '../types';
-
-// In-memory storage for demo
-const customers: Map<string, Customer> = new Map();
-const activeWorkflows: Map<string, any> = new Map();
-const timers: Map<string, NodeJS.Timeout> = new Map();
-
-const workflowSteps: Record<string, WorkflowStep> = {
-    STEP_1_WELCOME: {
-        id: 1,
-        name: 'Send Welcome Email',
-        description: 'Send welcome email immediately after signup',
-        trigger: 'CUSTOMER_SIGNUP',
-        action: 'SEND_WELCOME_EMAIL',
-        delay: 0
-    },
-    STEP_2_DISCOUNT: {
-        id: 2,
-        name: 'Send Discount Code',
-        description: 'Send discount code after product page visit',
-        trigger: 'PRODUCT_PAGE_VISIT',
-        action: 'SEND_DISCOUNT_EMAIL',
-        delay: 0
-    },
-    STEP_3_REMINDER: {
-        id: 3,
-        name: 'Send Reminder Email',
-        description: 'Send reminder if no activity after 7 days',
-        trigger: 'CUSTOMER_INACTIVE',
-        action: 'SEND_REMINDER_EMAIL',
-        delay: 7 * 24 * 60 * 60 * 1000 // 7 days (in demo, we'll use 30 seconds)
+import { ChannelName, Event, JourneyDefinition, WorkflowStep, StepExperiment, WorkflowStatus, ProductVisit, PurchaseCompleted, ScheduledJob, TrackedEvent, IdentifyData } from '../types';
+
+// scheduler job types owned by the engine
+const INACTIVITY_CHECK_JOB = 'inactivity_check';
+const DELAYED_STEP_JOB = 'delayed_step';
+const WAIT_TIMEOUT_JOB = 'wait_timeout';
+
+// send_email steps, and send_message steps without a channel list, go out by email
+const EMAIL_CHANNEL: ChannelName = 'email';
+
+// steps with this trigger fire after `delay` ms without customer activity
+const INACTIVITY_TRIGGER = 'CUSTOMER_INACTIVE';
+
+const demoMode: boolean = process.env.DEMO_MODE === 'true' || process.env.NODE_ENV !== 'production';
+const demoReminderDelay: number = parseInt(process.env.WORKFLOW_REMINDER_DELAY_MS || '30000', 10);
+const demoWaitTimeout: number = parseInt(process.env.WORKFLOW_WAIT_TIMEOUT_MS || '30000', 10);
+
+const resolveDefaultTimezone = (): string => {
+    const timezone = process.env.DEFAULT_TIMEZONE || 'UTC';
+    if (!isValidTimezone(timezone)) {
+        logger.warn(`DEFAULT_TIMEZONE "${timezone}" is not a valid time zone; using UTC`);
+        return 'UTC';
     }
+    return timezone;
 };
 
-const demoMode: boolean = process.env.DEMO_MODE === 'true' || process.env.NODE_ENV !== 'production';
+// send windows of customers without a time zone of their own are read in this zone
+const defaultTimezone: string = resolveDefaultTimezone();
+
+const getStepDelay = (step: WorkflowStep): number => {
+    if (demoMode && step.trigger === INACTIVITY_TRIGGER) {
+        return demoReminderDelay;
+    }
+    return step.delay;
+};
+
+const getWaitTimeout = (timeout: number): number => {
+    return demoMode ? demoWaitTimeout : timeout;
+};
+
+// the edge a completed step leaves by; undefined ends the path
+const getNextStepId = (step: WorkflowStep, outcome: string): number | undefined => {
+    switch (step.action) {
+        case 'condition':
+            return outcome === 'true' ? step.ifTrue : step.ifFalse;
+        case 'wait_for_event':
+            return outcome === 'event' ? step.onEvent : step.onTimeout;
+        default:
+            return step.next;
+    }
+};
+
+// repeatable steps run again on every trigger; the others only until they complete
+const isSendStep = (step: WorkflowStep): boolean => {
+    return step.action === 'send_email' || step.action === 'send_message';
+};
+
+// the channels a send step tries, in order
+const getStepChannels = (step: WorkflowStep): ChannelName[] => {
+    return step.action === 'send_message' && step.channels ? step.channels : [EMAIL_CHANNEL];
+};
 
-const initializeWorkflowConfig = (): void => {
-    const reminderDelay = parseInt(process.env.WORKFLOW_REMINDER_DELAY_MS || '30000', 10);
-    if (demoMode) {
-        workflowSteps.STEP_3_REMINDER.delay = reminderDelay;
+const isStepPending = (customer: Customer, journeyId: string, step: WorkflowStep): boolean => {
+    return !!step.repeatable || !customer.isStepCompleted(journeyId, step.id);
+};
+
+const jobId = (type: string, customerId: string, journeyId: string, stepId: number): string => {
+    return `${type}:${customerId}:${journeyId}:${stepId}`;
+};
+
+// callers that go on to save the customer hold their lock; see withCustomerLock
+const loadCustomer = async (customerId: string): Promise<Customer | undefined> => {
+    const profile = await customerRepository.findById(customerId);
+    if (!profile) {
+        return undefined;
     }
+
+    const workflowState = await workflowStateRepository.findByCustomerId(customerId);
+    return new Customer({ ...profile, workflowState });
+};
+
+const saveCustomer = async (customer: Customer): Promise<void> => {
+    await customerRepository.save(customer.toProfile());
+    await workflowStateRepository.save(customer.id, customer.workflowState);
 };
 
 export const initialize = async (): Promise<void> => {
     logger.info('Initializing Workflow Engine...');
-    initializeWorkflowConfig();
+    await seedTemplates();
+    await reloadJourneys();
+    watchJourneys();
+
+    registerJobHandler(INACTIVITY_CHECK_JOB, runInactivityCheck);
+    registerJobHandler(DELAYED_STEP_JOB, runDelayedStep);
+    registerJobHandler(WAIT_TIMEOUT_JOB, runWaitTimeout);
+    await startScheduler();
 
     await subscribeToEvents([
-        'customer-events',
-        'workflow-triggers'
+        topics.CUSTOMER_EVENTS,
+        topics.WORKFLOW_TRIGGERS
     ], handleEvent);
 
     logger.info('Workflow Engine initialized successfully');
@@ -62,43 +124,131 @@ export const handleEvent = async (topic: string, event: Event, headers: Record<s
     try {
         logger.info(`Processing workflow event: ${event.type} for customer ${event.data.customerId}`);
 
-        switch (event.type) {
-            case 'CUSTOMER_SIGNUP':
-                await handleCustomerSignup(event.data);
-                break;
-            case 'PRODUCT_PAGE_VISIT':
-                await handleProductPageVisit(event.data);
-                break;
-            case 'CUSTOMER_INACTIVE':
-                await handleCustomerInactive(event.data);
-                break;
-            case 'WORKFLOW_TRIGGER':
-            case 'WORKFLOW_STEP':
-                await executeWorkflowStep(event.data);
-                break;
-            default:
-                logger.warn(`Unknown event type: ${event.type}`);
+        const customerId: string | undefined = getEventCustomerId(event);
+        if (customerId) {
+            await withCustomerLock(customerId, () => applyEvent(topic, event));
+        } else {
+            await applyEvent(topic, event);
         }
     } catch (error) {
         logger.error('Error processing workflow event:', error);
+        // rethrow so the event service can retry or dead-letter the event
+        throw error;
+    }
+};
+
+// signups and imports carry the whole customer, every other event its ID
+const getEventCustomerId = (event: Event): string | undefined => {
+    return event.data.customerId || event.data.id;
+};
+
+const applyEvent = async (topic: string, event: Event): Promise<void> => {
+    // a late retry or a redriven dead letter must not bring an erased customer back
+    const customerId = getEventCustomerId(event);
+    if (event.type !== 'CUSTOMER_ERASED' && customerId && await erasureRepository.isErased(customerId)) {
+        logger.info(`Skipping ${event.type} for erased customer ${customerId}`);
+        return;
+    }
+
+    switch (event.type) {
+        case 'CUSTOMER_SIGNUP':
+            await handleCustomerSignup(event.data);
+            break;
+        case 'CUSTOMER_IMPORTED':
+            await handleCustomerImported(event.data);
+            break;
+        case 'PRODUCT_PAGE_VISIT':
+            await handleProductPageVisit(event.data);
+            break;
+        case 'CUSTOMER_INACTIVE':
+            await handleCustomerInactive(event.data);
+            break;
+        case 'PURCHASE_COMPLETED':
+            await handlePurchaseCompleted(event.data);
+            break;
+        case 'TRACK':
+            await handleTrackedEvent(event.data);
+            break;
+        case 'IDENTIFY':
+            await handleIdentify(event.data);
+            break;
+        case 'WORKFLOW_TRIGGER':
+        case 'WORKFLOW_STEP':
+            await executeWorkflowStep(event.data);
+            break;
+        case 'STEP_COMPLETED':
+            // published by this engine for other consumers
+            break;
+        case 'CUSTOMER_ERASED':
+            // the customer is already gone; this removes what earlier events wrote back
+            await eraseCustomerData(event.data.customerId);
+            return;
+        default:
+            logger.warn(`Unknown event type: ${event.type}`);
+    }
+
+    if (topic === topics.CUSTOMER_EVENTS) {
+        await recordCustomerEvent(event);
+    }
+};
+
+// kept for the customer's data export; events of unknown or erased customers are not
+const recordCustomerEvent = async (event: Event): Promise<void> => {
+    const customerId = getEventCustomerId(event);
+    if (!customerId || !await customerRepository.findById(customerId)) {
+        return;
     }
+
+    await customerEventRepository.append(customerId, {
+        eventId: event.id,
+        type: event.type,
+        timestamp: event.timestamp,
+        data: event.data
+    });
 };
 
 export const handleCustomerSignup = async (customerData: CustomerData): Promise<void> => {
-    const customer = new Customer(customerData);
-    customers.set(customer.id, customer);
+    // a redelivered signup must not reset the journey of an existing customer
+    const customer = await loadCustomer(customerData.id) || new Customer(customerData);
+    await saveCustomer(customer);
 
     logger.info(`New customer signup: ${customer.name} (${customer.email})`);
 
-    // step 1: trigger welcome email workflow
-    await triggerWorkflowStep(customer, workflowSteps.STEP_1_WELCOME);
+    await dispatchTrigger(customer, 'CUSTOMER_SIGNUP');
+
+    // schedule inactivity steps (e.g. the 7 day reminder)
+    await scheduleReminderCheck(customer);
+};
+
+/**
+ * Creates or updates an imported customer without starting any journey.
+ * Fields missing from the import keep their current values, and preferences
+ * are merged without lifting an opt-out.
+ */
+export const handleCustomerImported = async (customerData: CustomerData): Promise<void> => {
+    const existing = await loadCustomer(customerData.id);
+    if (!existing) {
+        await saveCustomer(new Customer(customerData));
+        logger.info(`Imported customer: ${customerData.name} (${customerData.email})`);
+        return;
+    }
 
-    // schedule reminder email for step 3 (after 7 days of inactivity)
-    scheduleReminderCheck(customer);
+    const { name, email, timezone, phone, pushTokens } = customerData;
+    existing.applyTraits({
+        name,
+        email,
+        ...(timezone ? { timezone } : {}),
+        ...(phone ? { phone } : {}),
+        ...(pushTokens ? { pushTokens } : {})
+    });
+    existing.mergePreferences(customerData.preferences || {});
+    await saveCustomer(existing);
+
+    logger.info(`Updated imported customer: ${existing.name} (${existing.email})`);
 };
 
 export const handleProductPageVisit = async (visitData: ProductVisit & { customerId: string }): Promise<void> => {
-    const customer = customers.get(visitData.customerId);
+    const customer = await loadCustomer(visitData.customerId);
     if (!customer) {
         logger.warn(`Customer not found for product visit: ${visitData.customerId}`);
         return;
@@ -112,45 +262,274 @@ export const handleProductPageVisit = async (visitData: ProductVisit & { custome
         category: visitData.category,
         visitedAt: visitData.visitedAt || new Date().toISOString()
     };
+    await saveCustomer(customer);
 
     logger.info(`Product page visit: ${customer.name} visited ${visitData.productName}`);
 
-    // Step 2: Trigger discount email if not already sent
-    if (!customer.isStepCompleted(2)) {
-        await triggerWorkflowStep(customer, workflowSteps.STEP_2_DISCOUNT, {
-            productData: customer.metadata.lastProductVisit
-        });
+    await resumeWaitingSteps(customer.id, 'PRODUCT_PAGE_VISIT');
+    await dispatchTrigger(customer, 'PRODUCT_PAGE_VISIT', {
+        productData: customer.metadata.lastProductVisit
+    });
+
+    // Reschedule reminder check since customer is active
+    await scheduleReminderCheck(customer);
+};
+
+export const handlePurchaseCompleted = async (purchase: PurchaseCompleted): Promise<void> => {
+    const customer = await loadCustomer(purchase.customerId);
+    if (!customer) {
+        logger.warn(`Customer not found for purchase: ${purchase.customerId}`);
+        return;
+    }
+
+    customer.updateLastActivity();
+    await saveCustomer(customer);
+
+    await recordConversion(customer, purchase);
+    await resumeWaitingSteps(customer.id, 'PURCHASE_COMPLETED');
+
+    // a purchase is activity, so the inactivity clock starts over
+    await scheduleReminderCheck(customer);
+};
+
+/**
+ * A tracked event is activity: it resumes steps waiting for it and starts the
+ * steps triggered by its name, which get the event's properties as template data
+ */
+export const handleTrackedEvent = async (trackedEvent: TrackedEvent): Promise<void> => {
+    const customer = await loadCustomer(trackedEvent.customerId);
+    if (!customer) {
+        logger.warn(`Customer not found for tracked event ${trackedEvent.event}: ${trackedEvent.customerId}`);
+        return;
+    }
+
+    customer.updateLastActivity();
+    await saveCustomer(customer);
+
+    logger.info(`Tracked event: ${customer.name} ${trackedEvent.event}`);
+
+    await resumeWaitingSteps(customer.id, trackedEvent.event);
+    await dispatchTrigger(customer, trackedEvent.event, {
+        eventProperties: trackedEvent.properties
+    });
+
+    await scheduleReminderCheck(customer);
+};
+
+export const handleIdentify = async (identifyData: IdentifyData): Promise<void> => {
+    const customer = await loadCustomer(identifyData.customerId);
+    if (!customer) {
+        logger.warn(`Customer not found for identify: ${identifyData.customerId}`);
+        return;
     }
 
-    // Cancel reminder timer since customer is active
-    cancelReminderTimer(customer.id);
+    customer.applyTraits(identifyData.traits);
+    await saveCustomer(customer);
 
-    // Reschedule reminder check
-    scheduleReminderCheck(customer);
+    logger.info(`Identified ${customer.name}: ${Object.keys(identifyData.traits).join(', ')}`);
 };
 
-export const handleCustomerInactive = async (customerData: { customerId: string }): Promise<void> => {
-    const customer = customers.get(customerData.customerId);
+export const handleCustomerInactive = async (customerData: { customerId: string; journeyId?: string }): Promise<void> => {
+    const customer = await loadCustomer(customerData.customerId);
     if (!customer) {
         logger.warn(`Customer not found for inactivity check: ${customerData.customerId}`);
         return;
     }
 
-    // Step 3: Send reminder email if not already sent
-    if (!customer.isStepCompleted(3)) {
-        await triggerWorkflowStep(customer, workflowSteps.STEP_3_REMINDER);
+    await dispatchTrigger(customer, INACTIVITY_TRIGGER, {}, customerData.journeyId);
+};
+
+/**
+ * Runs every not-yet-completed step whose trigger matches the event,
+ * across all active journeys (or only the given one).
+ */
+const dispatchTrigger = async (customer: Customer, trigger: string, additionalData: any = {}, journeyId?: string): Promise<void> => {
+    const journeys = getActiveJourneys().filter(journey => !journeyId || journey.id === journeyId);
+
+    for (const journey of journeys) {
+        const steps = journey.steps.filter(step => step.trigger === trigger && isStepPending(customer, journey.id, step));
+        if (steps.length === 0) {
+            continue;
+        }
+
+        // segment membership is checked whenever a step would start, so customers move in and out
+        if (journey.segment && !await isCustomerInSegment(journey.segment, customer.toJSON())) {
+            logger.info(`Customer ${customer.id} is not in segment ${journey.segment}; skipping journey ${journey.id}`);
+            continue;
+        }
+
+        for (const step of steps) {
+            // inactivity steps have already waited out their delay
+            await enterStep(customer.id, journey, step, additionalData, trigger === INACTIVITY_TRIGGER);
+        }
+    }
+};
+
+/**
+ * Moves a customer onto a step, making it their current node, then runs it
+ * or schedules it when the step has a delay
+ */
+const enterStep = async (customerId: string, journey: JourneyDefinition, step: WorkflowStep, additionalData: any = {}, delayElapsed: boolean = false): Promise<void> => {
+    // reloaded so an earlier step's changes are not overwritten
+    const customer = await loadCustomer(customerId);
+    if (!customer) {
+        return;
+    }
+
+    customer.setCurrentNode(journey.id, step.id);
+    await saveCustomer(customer);
+    await recordStepEntered(customer.id, journey.id, step.id);
+
+    if (step.delay > 0 && !delayElapsed) {
+        await scheduleDelayedStep(customer, journey, step, additionalData);
+    } else {
+        await runOrDeferStep(customer, journey, step, additionalData);
     }
 };
 
-export const triggerWorkflowStep = async (customer: Customer, step: WorkflowStep, additionalData: any = {}): Promise<void> => {
+// runs a step that is due, unless its message has to wait for the send window or the frequency caps
+const runOrDeferStep = async (customer: Customer, journey: JourneyDefinition, step: WorkflowStep, additionalData: any): Promise<void> => {
+    if (await deferToSendWindow(customer, journey, step, additionalData)) {
+        return;
+    }
+
+    const capDecision = await applyFrequencyCap(customer, journey, step, additionalData);
+    if (capDecision.decision === 'deferred') {
+        return;
+    }
+
+    const stepData = capDecision.decision === 'dropped'
+        ? { ...additionalData, frequencyCapped: true }
+        : { ...additionalData, ...(capDecision.channels ? { channels: capDecision.channels } : {}) };
+    const release = capDecision.decision === 'allowed' && capDecision.channels ? reserveSend(customer.id, capDecision.channels[0]) : undefined;
     try {
-        logger.info(`Triggering workflow step: ${step.name} for customer ${customer.name}`);
+        await triggerWorkflowStep(customer, journey, step, stepData);
+    } finally {
+        release?.();
+    }
+};
+
+/**
+ * Holds a send step back while the journey's send window is closed or its
+ * quiet hours are on for the customer. A deferred step is rescheduled as a
+ * delayed step at the next allowed slot, where the rules are checked again.
+ */
+const deferToSendWindow = async (customer: Customer, journey: JourneyDefinition, step: WorkflowStep, additionalData: any): Promise<boolean> => {
+    if (!isSendStep(step) || (!journey.sendWindow && !journey.quietHours)) {
+        return false;
+    }
+
+    const now = new Date();
+    const timezone = customer.timezone && isValidTimezone(customer.timezone) ? customer.timezone : defaultTimezone;
+    const slot = nextAllowedSendTime(now, timezone, journey.sendWindow, journey.quietHours);
+    if (!slot || slot.getTime() <= now.getTime()) {
+        return false;
+    }
+
+    logger.info(`🌙 Deferring step ${step.name} (${journey.id}) for ${customer.name} to ${slot.toISOString()} (${timezone})`);
+    await scheduleStep(customer, journey, step, additionalData, slot);
+    return true;
+};
+
+/**
+ * Holds a send step to the frequency caps. The step goes out on the first
+ * channel the customer can be reached on that is under its caps. When every
+ * such channel is capped, a high priority message is sent anyway, a normal
+ * one is deferred until a cap allows it and a low priority one is dropped;
+ * deferrals and drops are recorded as the customer's send decisions.
+ * `channels` is what the step should try, when the caps narrowed it down.
+ */
+const applyFrequencyCap = async (customer: Customer, journey: JourneyDefinition, step: WorkflowStep, additionalData: any): Promise<{ decision: 'allowed' | 'deferred' | 'dropped'; channels?: ChannelName[] }> => {
+    if (!isSendStep(step)) {
+        return { decision: 'allowed' };
+    }
+
+    const customerData = customer.toJSON();
+    const reachable = await getReachableChannels(customerData, step.template as string, getStepChannels(step));
+    // with no channel to send on the step is suppressed, which the caps have no say in
+    if (reachable.length === 0) {
+        return { decision: 'allowed' };
+    }
+
+    const capped: { channel: ChannelName; cap: string; retryAt: Date }[] = [];
+    for (const channel of reachable) {
+        const check = checkFrequencyCap(customerData, channel);
+        if (check.allowed) {
+            return { decision: 'allowed', channels: [channel] };
+        }
+        capped.push({ channel, cap: check.cap, retryAt: check.retryAt });
+    }
+
+    const blocked = capped.map(({ channel, cap }) => `${channel} ${cap}`).join(', ');
+    const priority = step.priority || 'normal';
+    if (priority === 'high') {
+        logger.info(`Frequency caps reached for ${customer.name} (${blocked}); sending high priority step ${step.name} (${journey.id}) anyway`);
+        return { decision: 'allowed', channels: reachable };
+    }
+
+    const retryAt = new Date(Math.min(...capped.map(check => check.retryAt.getTime())));
+    const decision = priority === 'low' ? 'dropped' : 'deferred';
+    await sendDecisionRepository.append(customer.id, {
+        journeyId: journey.id,
+        stepId: step.id,
+        channel: reachable[0],
+        decision,
+        reason: `frequency cap ${blocked}`,
+        decidedAt: new Date().toISOString(),
+        ...(decision === 'deferred' ? { deferredUntil: retryAt.toISOString() } : {})
+    });
+
+    if (decision === 'deferred') {
+        logger.info(`🚦 Frequency caps reached for ${customer.name} (${blocked}); deferring step ${step.name} (${journey.id}) to ${retryAt.toISOString()}`);
+        await scheduleStep(customer, journey, step, additionalData, retryAt);
+    } else {
+        logger.info(`🚦 Frequency caps reached for ${customer.name} (${blocked}); dropping low priority step ${step.name} (${journey.id})`);
+    }
+    return { decision };
+};
+
+/**
+ * Follows the edge a completed step leaves by. The path ends when there is
+ * no edge, the journey was disabled, or the next step already ran and is
+ * not repeatable.
+ */
+const advance = async (customer: Customer, journeyId: string, stepId: number, outcome: string, additionalData: any = {}): Promise<void> => {
+    const journey = getJourney(journeyId);
+    const step = journey?.steps.find(candidate => candidate.id === stepId);
+    const nextStepId = step ? getNextStepId(step, outcome) : undefined;
+    const next = journey?.steps.find(candidate => candidate.id === nextStepId);
+
+    if (journey?.enabled && next && isStepPending(customer, journeyId, next)) {
+        await enterStep(customer.id, journey, next, additionalData);
+        return;
+    }
+
+    if (next) {
+        logger.info(`Step ${next.name} (${journeyId}) will not run again for customer ${customer.id}; path ends`);
+    }
+    customer.endPath(journeyId);
+    await saveCustomer(customer);
+};
+
+export const triggerWorkflowStep = async (customer: Customer, journey: JourneyDefinition, step: WorkflowStep, additionalData: any = {}): Promise<void> => {
+    try {
+        logger.info(`Triggering workflow step: ${step.name} (${journey.id}) for customer ${customer.name}`);
 
         const workflowData = {
             customerId: customer.id,
+            journeyId: journey.id,
             stepId: step.id,
+            // every delivery of this trigger shares the occurrence, which is what the ledger dedupes on
+            occurrence: step.repeatable ? customer.getStepOccurrences(journey.id, step.id) + 1 : 1,
             stepName: step.name,
             action: step.action,
+            template: step.template,
+            channels: getStepChannels(step),
+            status: step.status,
+            condition: step.condition,
+            event: step.event,
+            timeout: step.timeout,
+            experiment: step.experiment,
             customer: customer.toJSON(),
             ...additionalData
         };
@@ -166,110 +545,382 @@ export const triggerWorkflowStep = async (customer: Customer, step: WorkflowStep
 
     } catch (error) {
         logger.error(`Failed to trigger workflow step ${step.name}:`, error);
+        throw error;
     }
 };
 
 export const executeWorkflowStep = async (workflowData: any): Promise<void> => {
-    const { customerId, stepId, action, customer, productData } = workflowData;
-    const customerObj = customers.get(customerId) || new Customer(customer);
+    const { customerId, journeyId, stepId, action, template, status, customer, productData, eventProperties } = workflowData;
+    const executionKey: StepExecutionKey = { customerId, journeyId, stepId, occurrence: workflowData.occurrence || 1 };
+
+    if (!await stepLedgerRepository.claim(executionKey)) {
+        logger.info(`Skipping duplicate workflow step: ${workflowData.stepName} (occurrence ${executionKey.occurrence}) for customer ${customerId}`);
+        return;
+    }
+
+    const customerObj = await loadCustomer(customerId) || new Customer(customer);
+    let outcome: string;
+    // once the message is out the step must not run again, whatever fails after it
+    let delivered = false;
 
     try {
         switch (action) {
-            case 'SEND_WELCOME_EMAIL':
-                await emailService.sendWelcomeEmail(customerObj.toJSON());
-                customerObj.updateWorkflowState({
-                    welcomeEmailSent: true,
-                    lastEmailSent: new Date().toISOString()
-                });
+            case 'send_email':
+            case 'send_message': {
+                // the drop was decided and recorded before the step ran
+                if (workflowData.frequencyCapped) {
+                    outcome = 'capped';
+                    break;
+                }
+
+                const channels: ChannelName[] = workflowData.channels || [EMAIL_CHANNEL];
+                const experiment: StepExperiment | undefined = workflowData.experiment;
+                const variant = experiment ? assignVariant(experiment, customerId) : undefined;
+                const result = await sendThroughChannels({
+                    template,
+                    customer: customerObj.toJSON(),
+                    data: productData || eventProperties,
+                    ...(experiment && variant ? { variant: { experimentId: experiment.id, variant } } : {})
+                }, channels);
+                // a suppressed send is a decision, not a failure: the step completes without a message
+                if (!result.success && !result.suppressed && result.error?.retryable !== false) {
+                    throw new Error(`${result.channel || EMAIL_CHANNEL} delivery failed [${result.error?.code}]: ${result.error?.message}`);
+                }
+                if (result.suppressed) {
+                    await sendDecisionRepository.append(customerId, {
+                        journeyId,
+                        stepId,
+                        channel: result.channel || channels[0],
+                        decision: 'suppressed',
+                        reason: result.suppressed,
+                        decidedAt: new Date().toISOString()
+                    });
+                }
+                if (result.success) {
+                    delivered = true;
+                    const sentAt = new Date().toISOString();
+                    const assignment = experiment && variant ? { experimentId: experiment.id, variant: variant.id } : undefined;
+                    customerObj.recordEmailSent({
+                        messageId: result.messageId,
+                        journeyId,
+                        stepId,
+                        template: variant?.template || template,
+                        sentAt,
+                        ...(result.channel && result.channel !== EMAIL_CHANNEL ? { channel: result.channel } : {}),
+                        ...(assignment ? { experiment: assignment } : {})
+                    });
+                    if (assignment && result.messageId) {
+                        await recordExposure({ ...assignment, messageId: result.messageId, customerId, journeyId, stepId, sentAt });
+                    }
+                }
+                if (!result.success && !result.suppressed) {
+                    // trying again cannot fix a rejected message or a broken configuration
+                    logger.error(`${result.channel || EMAIL_CHANNEL} delivery failed for good [${result.error?.code}]: ${result.error?.message}`);
+                }
+                outcome = result.success ? 'sent' : result.suppressed ? 'suppressed' : 'failed';
+                break;
+            }
+
+            case 'update_status':
+                customerObj.metadata.status = status;
+                outcome = 'updated';
+                break;
+
+            case 'wait':
+                // nothing to do; the step only exists to hold its delay
+                outcome = 'waited';
                 break;
 
-            case 'SEND_DISCOUNT_EMAIL':
-                await emailService.sendDiscountEmail(customerObj.toJSON(), productData);
-                customerObj.updateWorkflowState({
-                    discountCodeSent: true,
-                    lastEmailSent: new Date().toISOString()
-                });
+            case 'complete':
+                customerObj.metadata.completedJourneys = [
+                    ...(customerObj.metadata.completedJourneys || []),
+                    journeyId
+                ];
+                customerObj.stopWaiting(journeyId);
+                await cancelReminderTimer(customerId, journeyId);
+                await cancelJobs(customerId, WAIT_TIMEOUT_JOB, { journeyId });
+                outcome = 'completed';
                 break;
 
-            case 'SEND_REMINDER_EMAIL':
-                await emailService.sendReminderEmail(customerObj.toJSON());
-                customerObj.updateWorkflowState({
-                    reminderSent: true,
-                    lastEmailSent: new Date().toISOString()
-                });
+            case 'condition':
+                outcome = matchesSegment(workflowData.condition, customerObj.toJSON()) ? 'true' : 'false';
                 break;
 
+            case 'wait_for_event':
+                // the step completes later, when the event arrives or the timeout job runs
+                await startWaiting(customerObj, journeyId, stepId, workflowData);
+                await stepLedgerRepository.complete(executionKey);
+                logger.info(`⏳ Workflow step waiting for ${workflowData.event}: ${workflowData.stepName} for customer ${customerObj.name}`);
+                return;
+
             default:
                 throw new Error(`Unknown workflow action: ${action}`);
         }
 
-        customerObj.markStepCompleted(stepId);
-        customers.set(customerId, customerObj);
+        customerObj.markStepCompleted(journeyId, stepId, outcome);
+        await saveCustomer(customerObj);
+        await stepLedgerRepository.complete(executionKey);
+        await recordStepCompleted(customerId, journeyId, stepId);
 
-        logger.info(`✅ Workflow step completed: ${workflowData.stepName} for customer ${customerObj.name}`);
+        logger.info(`✅ Workflow step completed: ${workflowData.stepName} (${outcome}) for customer ${customerObj.name}`);
 
     } catch (error) {
-        logger.error(`❌ Workflow step failed: ${workflowData.stepName}`, error);
+        if (!delivered) {
+            await stepLedgerRepository.release(executionKey);
+            logger.error(`❌ Workflow step failed: ${workflowData.stepName}`, error);
+            throw error;
+        }
+
+        // the claim stays, so a retry cannot send the message a second time
+        outcome = 'sent';
+        logger.error(`Workflow step ${workflowData.stepName} sent its message but failed to record it:`, error);
+        await stepLedgerRepository.complete(executionKey)
+            .catch(completeError => logger.error('Complete step claim error:', completeError));
     }
+
+    // the step has completed, so a failed notification must not fail it
+    await publishStepCompleted({
+        customerId,
+        journeyId,
+        stepId,
+        stepName: workflowData.stepName,
+        action,
+        outcome,
+        completedAt: new Date().toISOString()
+    }).catch(error => logger.error('Publish step completed error:', error));
+
+    await advance(customerObj, journeyId, stepId, outcome, getCarriedData(workflowData));
+};
+
+// what a step passes on to the steps after it: the product visit or tracked event it started on
+const getCarriedData = (workflowData: any): Record<string, any> => {
+    return {
+        ...(workflowData.productData ? { productData: workflowData.productData } : {}),
+        ...(workflowData.eventProperties ? { eventProperties: workflowData.eventProperties } : {})
+    };
+};
+
+const startWaiting = async (customer: Customer, journeyId: string, stepId: number, workflowData: any): Promise<void> => {
+    const since = new Date();
+    const until = new Date(since.getTime() + getWaitTimeout(workflowData.timeout));
+    const data = getCarriedData(workflowData);
+
+    customer.startWaiting(journeyId, {
+        stepId,
+        event: workflowData.event,
+        since: since.toISOString(),
+        until: until.toISOString(),
+        ...(Object.keys(data).length > 0 ? { data } : {})
+    });
+    await saveCustomer(customer);
+
+    await scheduleJob({
+        id: jobId(WAIT_TIMEOUT_JOB, customer.id, journeyId, stepId),
+        type: WAIT_TIMEOUT_JOB,
+        customerId: customer.id,
+        runAt: until,
+        payload: { journeyId, stepId, ...(Object.keys(data).length > 0 ? { data } : {}) }
+    });
 };
 
-const scheduleReminderCheck = (customer: Customer): void => {
-    // cancel existing timer if any
-    cancelReminderTimer(customer.id);
+/**
+ * Completes a wait_for_event step with the way it ended and moves on
+ */
+const resolveWait = async (customerId: string, journeyId: string, stepId: number, outcome: 'event' | 'timeout'): Promise<boolean> => {
+    const customer = await loadCustomer(customerId);
+    const wait = customer?.getWaitState(journeyId);
+    if (!customer || !wait || wait.stepId !== stepId) {
+        return false;
+    }
 
-    const delay = workflowSteps.STEP_3_REMINDER.delay;
+    customer.stopWaiting(journeyId);
+    customer.markStepCompleted(journeyId, stepId, outcome);
+    await saveCustomer(customer);
+    await recordStepCompleted(customerId, journeyId, stepId);
 
-    logger.info(`Scheduling reminder check for ${customer.name} in ${demoMode ? '30 seconds' : '7 days'}`);
+    logger.info(`Wait step ${stepId} (${journeyId}) ended by ${outcome} for customer ${customer.name}`);
+    await advance(customer, journeyId, stepId, outcome, wait.data || {});
+    return true;
+};
 
-    const timer = setTimeout(async () => {
-        // check if customer is still inactive
-        const currentCustomer = customers.get(customer.id);
-        if (currentCustomer && !currentCustomer.isStepCompleted(3)) {
-            logger.info(`Customer ${currentCustomer.name} has been inactive, triggering reminder workflow`);
-            await publishCustomerInactive({ customerId: currentCustomer.id });
+/**
+ * Resumes every wait_for_event step the customer is parked on for this event
+ */
+const resumeWaitingSteps = async (customerId: string, eventType: string): Promise<void> => {
+    const customer = await loadCustomer(customerId);
+    if (!customer) {
+        return;
+    }
+
+    for (const journeyId of Object.keys(customer.workflowState.journeys)) {
+        const wait = customer.getWaitState(journeyId);
+        if (!wait || wait.event !== eventType) {
+            continue;
+        }
+
+        // the event and the timeout race for the job; only the one that removes it resumes the wait
+        if (await cancelJob(jobId(WAIT_TIMEOUT_JOB, customerId, journeyId, wait.stepId))) {
+            await resolveWait(customerId, journeyId, wait.stepId, 'event');
         }
-    }, delay);
+    }
+};
+
+const runWaitTimeout = async (job: ScheduledJob): Promise<void> => {
+    const { journeyId, stepId, data } = job.payload;
+
+    await withCustomerLock(job.customerId, async () => {
+        // a retry finds the wait already ended, when the path after it failed
+        if (!await resolveWait(job.customerId, journeyId, stepId, 'timeout') && job.attempts) {
+            await retryCurrentStep(job.customerId, journeyId, data || {});
+        }
+    });
+};
 
-    timers.set(customer.id, timer);
+/**
+ * Enters the customer's current step in a journey again. A retried job uses
+ * this when its own step was saved as completed and a later step on its path
+ * failed, which left the customer on that step.
+ */
+const retryCurrentStep = async (customerId: string, journeyId: string, additionalData: any): Promise<void> => {
+    const customer = await loadCustomer(customerId);
+    const journey = getJourney(journeyId);
+    const currentNode = customer?.workflowState.journeys[journeyId]?.currentNode;
+    const step = journey?.steps.find(candidate => candidate.id === currentNode);
+
+    if (customer && journey?.enabled && step && !customer.getWaitState(journeyId) && isStepPending(customer, journeyId, step)) {
+        logger.info(`Retrying step ${step.name} (${journeyId}) for customer ${customer.name}`);
+        await enterStep(customerId, journey, step, additionalData);
+    }
 };
 
-const cancelReminderTimer = (customerId: string): void => {
-    const timer = timers.get(customerId);
-    if (timer) {
-        clearTimeout(timer);
-        timers.delete(customerId);
-        logger.info(`Cancelled reminder timer for customer ${customerId}`);
+const scheduleDelayedStep = async (customer: Customer, journey: JourneyDefinition, step: WorkflowStep, additionalData: any): Promise<void> => {
+    const id = jobId(DELAYED_STEP_JOB, customer.id, journey.id, step.id);
+    if (await getJob(id)) {
+        return;
     }
+
+    const delay = getStepDelay(step);
+    logger.info(`Scheduling step ${step.name} (${journey.id}) for ${customer.name} in ${delay}ms`);
+
+    await scheduleStep(customer, journey, step, additionalData, new Date(Date.now() + delay));
 };
 
-export const getCustomer = (customerId: string): Customer | undefined => {
-    return customers.get(customerId);
+const scheduleStep = async (customer: Customer, journey: JourneyDefinition, step: WorkflowStep, additionalData: any, runAt: Date): Promise<void> => {
+    await scheduleJob({
+        id: jobId(DELAYED_STEP_JOB, customer.id, journey.id, step.id),
+        type: DELAYED_STEP_JOB,
+        customerId: customer.id,
+        runAt,
+        payload: { journeyId: journey.id, stepId: step.id, additionalData }
+    });
 };
 
-export const getAllCustomers = (): CustomerData[] => {
-    return Array.from(customers.values()).map(customer => customer.toJSON());
+const runDelayedStep = async (job: ScheduledJob): Promise<void> => {
+    const { journeyId, stepId, additionalData } = job.payload;
+
+    // the journey may have been edited or disabled while we waited
+    const journey = getJourney(journeyId);
+    const step = journey?.steps.find(candidate => candidate.id === stepId);
+
+    await withCustomerLock(job.customerId, async () => {
+        const customer = await loadCustomer(job.customerId);
+        if (journey?.enabled && step && customer && isStepPending(customer, journeyId, step)) {
+            await runOrDeferStep(customer, journey, step, additionalData);
+        } else if (job.attempts) {
+            await retryCurrentStep(job.customerId, journeyId, getCarriedData(additionalData || {}));
+        }
+    });
 };
 
-export const getWorkflowStatus = (customerId: string): WorkflowStatus | null => {
-    const customer = customers.get(customerId);
+const scheduleReminderCheck = async (customer: Customer): Promise<void> => {
+    // cancel existing checks if any
+    await cancelReminderTimer(customer.id);
+
+    for (const journey of getActiveJourneys()) {
+        const inactivitySteps = journey.steps.filter(step => step.trigger === INACTIVITY_TRIGGER && !customer.isStepCompleted(journey.id, step.id));
+
+        for (const step of inactivitySteps) {
+            const delay = getStepDelay(step);
+
+            logger.info(`Scheduling reminder check for ${customer.name} (${journey.id}) in ${delay}ms`);
+
+            await scheduleJob({
+                id: jobId(INACTIVITY_CHECK_JOB, customer.id, journey.id, step.id),
+                type: INACTIVITY_CHECK_JOB,
+                customerId: customer.id,
+                runAt: new Date(Date.now() + delay),
+                payload: { journeyId: journey.id, stepId: step.id }
+            });
+        }
+    }
+};
+
+const runInactivityCheck = async (job: ScheduledJob): Promise<void> => {
+    const { journeyId, stepId } = job.payload;
+
+    // check if customer is still inactive
+    const customer = await loadCustomer(job.customerId);
+    if (customer && !customer.isStepCompleted(journeyId, stepId)) {
+        logger.info(`Customer ${customer.name} has been inactive, triggering reminder workflow`);
+        await publishCustomerInactive({ customerId: customer.id, journeyId });
+    }
+};
+
+const cancelReminderTimer = async (customerId: string, journeyId?: string): Promise<void> => {
+    await cancelJobs(customerId, INACTIVITY_CHECK_JOB, journeyId ? { journeyId } : {});
+};
+
+const hasActiveReminder = async (customerId: string): Promise<boolean> => {
+    const reminders = await getPendingJobs(customerId, INACTIVITY_CHECK_JOB);
+    return reminders.length > 0;
+};
+
+export const getCustomer = async (customerId: string): Promise<Customer | undefined> => {
+    return loadCustomer(customerId);
+};
+
+export const getAllCustomers = async (): Promise<CustomerData[]> => {
+    const profiles = await customerRepository.findAll();
+    const loaded = await Promise.all(profiles.map(profile => loadCustomer(profile.id)));
+    return loaded
+        .filter((customer): customer is Customer => !!customer)
+        .map(customer => customer.toJSON());
+};
+
+export const getScheduledJobs = async (customerId: string): Promise<ScheduledJob[]> => {
+    return getPendingJobs(customerId);
+};
+
+export const getWorkflowStatus = async (customerId: string): Promise<WorkflowStatus | null> => {
+    const customer = await loadCustomer(customerId);
     if (!customer) {
         return null;
     }
 
     return {
         customer: customer.toJSON(),
-        workflow: {
-            steps: Object.values(workflowSteps).map(step => ({
-                id: step.id,
-                name: step.name,
-                description: step.description,
-                completed: customer.isStepCompleted(step.id),
-                completedAt: customer.isStepCompleted(step.id) ? customer.workflowState.lastEmailSent : null
-            })),
-            currentStep: customer.workflowState.currentStep,
-            completedSteps: customer.workflowState.completedSteps,
-            hasActiveReminder: timers.has(customerId)
-        }
+        journeys: getActiveJourneys().map(journey => {
+            const progress = customer.workflowState.journeys[journey.id];
+            return {
+                id: journey.id,
+                name: journey.name,
+                steps: journey.steps.map(step => ({
+                    id: step.id,
+                    name: step.name,
+                    description: step.description,
+                    completed: customer.isStepCompleted(journey.id, step.id),
+                    completedAt: progress?.stepCompletedAt[step.id] || null,
+                    outcome: progress?.stepOutcomes?.[step.id] || null
+                })),
+                currentStep: progress?.currentStep || 0,
+                completedSteps: progress?.completedSteps || [],
+                currentNode: progress?.currentNode ?? null,
+                waitingFor: progress?.waitingFor || null
+            };
+        }),
+        hasActiveReminder: await hasActiveReminder(customerId),
+        scheduledJobs: await getPendingJobs(customerId),
+        sendDecisions: await sendDecisionRepository.findByCustomerId(customerId)
     };
 };
 
@@ -277,11 +928,21 @@ export const getWorkflowStatus = (customerId: string): WorkflowStatus | null =>
 // this will be used to test the workflow engine
 // and to ensure that the workflow is working as expected
 export const simulateTimePassage = async (customerId: string): Promise<void> => {
-    const customer = customers.get(customerId);
-    if (customer && timers.has(customerId)) {
+    const customer = await loadCustomer(customerId);
+    if (!customer) {
+        return;
+    }
+
+    // inactivity checks and wait timeouts; delayed steps keep their schedule
+    const reminders = [
+        ...await getPendingJobs(customerId, INACTIVITY_CHECK_JOB),
+        ...await getPendingJobs(customerId, WAIT_TIMEOUT_JOB)
+    ];
+    if (reminders.length > 0) {
         logger.info(`🚀 Demo: Fast-forwarding time for customer ${customer.name}`);
-        cancelReminderTimer(customerId);
 
-        await publishCustomerInactive({ customerId });
+        for (const reminder of reminders) {
+            await runJobNow(reminder.id);
+        }
     }
 };
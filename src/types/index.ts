@@ -4,6 +4,14 @@ export interface CustomerData {
     name: string;
     signupDate?: string;
     lastActivity?: string;
+    // IANA time zone, e.g. Europe/Berlin
+    timezone?: string;
+    // E.164, e.g. +14155550100; needed for SMS
+    phone?: string;
+    // device tokens; needed for push
+    pushTokens?: string[];
+    // set through identify calls, e.g. { "plan": "pro" }
+    traits?: Record<string, any>;
     preferences: CustomerPreferences;
     workflowState?: WorkflowState;
     metadata?: CustomerMetadata;
@@ -12,16 +20,68 @@ export interface CustomerData {
 export interface CustomerPreferences {
     category?: string;
     notifications?: boolean;
+    // false opts the customer out of one channel
+    channels?: Partial<Record<ChannelName, boolean>>;
     [key: string]: any;
 }
 
 export interface WorkflowState {
+    journeys: Record<string, JourneyProgress>;
+    lastEmailSent: string | null;
+    // recent sends, oldest first and capped in length; used for conversion attribution
+    emailHistory?: SentEmailRecord[];
+}
+
+// a journey send that was held back or not made
+export interface SendDecision {
+    journeyId: string;
+    stepId: number;
+    channel: string;
+    decision: 'deferred' | 'dropped' | 'suppressed';
+    // the frequency cap that was hit, or the consent check that blocked the send
+    reason: string;
+    decidedAt: string;
+    deferredUntil?: string;
+}
+
+// at most `limit` sends within `windowMs`; `label` is the configured form, e.g. 2/24h
+export interface FrequencyCap {
+    limit: number;
+    windowMs: number;
+    label: string;
+}
+
+// despite the name, also holds SMS, push and webhook sends; `channel` is only set for those
+export interface SentEmailRecord {
+    messageId?: string;
+    journeyId: string;
+    stepId: number;
+    template: string;
+    channel?: ChannelName;
+    experiment?: ExperimentAssignment;
+    sentAt: string;
+}
+
+export interface JourneyProgress {
     currentStep: number;
     completedSteps: number[];
-    welcomeEmailSent: boolean;
-    discountCodeSent: boolean;
-    reminderSent: boolean;
-    lastEmailSent: string | null;
+    startedAt: string;
+    stepCompletedAt: Record<number, string>;
+    stepOccurrences: Record<number, number>;
+    // the step the customer is at in the journey graph; null once a path has ended
+    currentNode?: number | null;
+    // how each completed step turned out, e.g. a condition's branch
+    stepOutcomes?: Record<number, string>;
+    waitingFor?: WaitState;
+}
+
+export interface WaitState {
+    stepId: number;
+    event: string;
+    since: string;
+    until: string;
+    // carried to the step that follows the wait
+    data?: Record<string, any>;
 }
 
 export interface CustomerMetadata {
@@ -43,6 +103,31 @@ export interface Event {
     data: any;
 }
 
+export interface ProcessedEvent {
+    consumerGroup: string;
+    eventId: string;
+    processedAt: string;
+}
+
+export interface ConsumerStats {
+    processed: number;
+    duplicates: number;
+    failed: number;
+    retried: number;
+    deadLettered: number;
+}
+
+export interface DeadLetter {
+    id: string;
+    topic: string;
+    key: string;
+    value: string;
+    headers: Record<string, string>;
+    error: string;
+    attempts: number;
+    failedAt: string;
+}
+
 export type EventType =
     | 'CUSTOMER_SIGNUP'
     | 'PRODUCT_PAGE_VISIT'
@@ -50,7 +135,16 @@ export type EventType =
     | 'WORKFLOW_TRIGGER'
     | 'WORKFLOW_STEP'
     | 'EMAIL_REQUEST'
-    | 'EMAIL_SENT';
+    | 'EMAIL_SENT'
+    | 'EMAIL_OPENED'
+    | 'EMAIL_CLICKED'
+    | 'MESSAGE_SENT'
+    | 'PURCHASE_COMPLETED'
+    | 'STEP_COMPLETED'
+    | 'TRACK'
+    | 'IDENTIFY'
+    | 'CUSTOMER_IMPORTED'
+    | 'CUSTOMER_ERASED';
 
 export interface KafkaTopics {
     CUSTOMER_EVENTS: string;
@@ -58,37 +152,508 @@ export interface KafkaTopics {
     EMAIL_NOTIFICATIONS: string;
 }
 
+export type WorkflowAction = 'send_email' | 'send_message' | 'update_status' | 'wait' | 'complete' | 'condition' | 'wait_for_event';
+
 export interface WorkflowStep {
     id: number;
     name: string;
     description: string;
-    trigger: string;
-    action: string;
+    // steps without a trigger are only reached from another step
+    trigger?: string;
+    action: WorkflowAction;
     delay: number;
+    template?: string;
+    // send_message steps try these in order, skipping channels the customer cannot be reached on
+    channels?: ChannelName[];
+    status?: string;
+    repeatable?: boolean;
+    // what happens to a message over the frequency caps: high is sent anyway, normal is deferred, low is dropped
+    priority?: StepPriority;
+    // the step entered once this one completes
+    next?: number;
+    // condition steps branch on these rules
+    condition?: SegmentRule;
+    ifTrue?: number;
+    ifFalse?: number;
+    // wait_for_event steps resume on the event or after the timeout, whichever comes first
+    event?: string;
+    timeout?: number;
+    onEvent?: number;
+    onTimeout?: number;
+    // send steps can split customers between variants of the message
+    experiment?: StepExperiment;
+}
+
+export interface StepExperiment {
+    id: string;
+    // the first variant is the control the others are compared with
+    variants: ExperimentVariant[];
+}
+
+export interface ExperimentVariant {
+    id: string;
+    // relative share of customers; defaults to 1
+    weight?: number;
+    // overrides the template subject; may use template placeholders
+    subject?: string;
+    // sends a different template
+    template?: string;
+    // merged over the template data, e.g. { "percentage": 15 } for the discount email
+    data?: Record<string, any>;
+}
+
+// the experiment variant an email was sent under
+export interface ExperimentAssignment {
+    experimentId: string;
+    variant: string;
+}
+
+export interface ExperimentExposure extends ExperimentAssignment {
+    messageId: string;
+    customerId: string;
+    journeyId: string;
+    stepId: number;
+    sentAt: string;
+    openedAt?: string;
+    clickedAt?: string;
+    convertedAt?: string;
+    // attributed revenue per currency
+    revenue?: Record<string, number>;
+}
+
+export interface ExperimentSummary {
+    id: string;
+    journeyId: string;
+    stepId: number;
+    stepName: string;
+    variants: ExperimentVariant[];
+}
+
+export interface ProportionTest {
+    zScore: number | null;
+    pValue: number | null;
+    significant: boolean;
+}
+
+export interface VariantResults {
+    variant: string;
+    sends: number;
+    opens: number;
+    clicks: number;
+    conversions: number;
+    openRate: number | null;
+    clickRate: number | null;
+    conversionRate: number | null;
+    revenue: Record<string, number>;
+    // two-proportion z-tests against the control; null for the control itself
+    significance: {
+        openRate: ProportionTest;
+        clickRate: ProportionTest;
+        conversionRate: ProportionTest;
+    } | null;
+}
+
+export interface ExperimentResults {
+    experimentId: string;
+    journeyId: string;
+    stepId: number;
+    control: string;
+    confidenceLevel: number;
+    variants: VariantResults[];
+}
+
+export interface JourneyDefinition {
+    id: string;
+    name: string;
+    description?: string;
+    enabled: boolean;
+    // only customers in this segment are enrolled
+    segment?: string;
+    // emails are only sent inside the window and outside quiet hours, in the customer's time zone
+    sendWindow?: SendWindow;
+    quietHours?: TimeWindow;
+    steps: WorkflowStep[];
+}
+
+export type StepPriority = 'high' | 'normal' | 'low';
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+// local wall-clock times as HH:mm; an end before the start wraps past midnight
+export interface TimeWindow {
+    start: string;
+    end: string;
+}
+
+export interface SendWindow extends TimeWindow {
+    days?: Weekday[];
+}
+
+export type SegmentOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'nin' | 'contains' | 'exists';
+
+export interface SegmentCondition {
+    field: string;
+    op: SegmentOperator;
+    value?: any;
+}
+
+export type SegmentRule =
+    | { and: SegmentRule[] }
+    | { or: SegmentRule[] }
+    | { not: SegmentRule }
+    | SegmentCondition;
+
+export interface Segment {
+    id: string;
+    name: string;
+    description?: string;
+    rules: SegmentRule;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface SegmentRequest {
+    id?: string;
+    name: string;
+    description?: string;
+    rules: SegmentRule;
+}
+
+export interface SegmentMembership {
+    segmentId: string;
+    evaluatedAt: string;
+    count: number;
+    customerIds: string[];
+}
+
+export type BroadcastStatus = 'running' | 'completed' | 'failed';
+
+export interface Broadcast {
+    id: string;
+    segmentId: string;
+    template: string;
+    data?: Record<string, any>;
+    status: BroadcastStatus;
+    recipients: number;
+    sent: number;
+    suppressed: number;
+    // recipients skipped because a frequency cap was reached
+    capped: number;
+    failed: number;
+    createdAt: string;
+    completedAt?: string;
+    error?: string;
+}
+
+export interface BroadcastRequest {
+    segmentId: string;
+    template: string;
+    data?: Record<string, any>;
+}
+
+export type CustomerImportFormat = 'csv' | 'ndjson';
+
+export type CustomerImportStatus = 'running' | 'completed' | 'failed';
+
+export interface CustomerImportRowError {
+    // line in the uploaded file, counting the CSV header
+    line: number;
+    email?: string;
+    error: string;
+}
+
+export interface CustomerImport {
+    id: string;
+    format: CustomerImportFormat;
+    // imported customers start no journeys
+    suppressTriggers: boolean;
+    status: CustomerImportStatus;
+    // rows read so far; the file is read while it is imported
+    rows: number;
+    processed: number;
+    created: number;
+    updated: number;
+    failed: number;
+    // the first errors only; `failed` counts them all
+    errors: CustomerImportRowError[];
+    createdAt: string;
+    completedAt?: string;
+    error?: string;
+}
+
+export interface WebhookSubscription {
+    id: string;
+    url: string;
+    events: EventType[];
+    description?: string;
+    enabled: boolean;
+    // deliveries are signed with it; only returned when the subscription is created
+    secret: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface WebhookSubscriptionRequest {
+    url: string;
+    events: EventType[];
+    description?: string;
+    enabled?: boolean;
+    secret?: string;
+}
+
+export type WebhookHealthStatus = 'healthy' | 'degraded' | 'failing' | 'unknown';
+
+export interface WebhookHealth {
+    status: WebhookHealthStatus;
+    consecutiveFailures: number;
+    // share of the recent attempts that succeeded; null before the first attempt
+    successRate: number | null;
+    pendingDeliveries: number;
+    lastSuccessAt?: string;
+    lastFailureAt?: string;
+    lastError?: string;
+}
+
+export type WebhookSummary = Omit<WebhookSubscription, 'secret'> & { health: WebhookHealth };
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookAttempt {
+    attemptedAt: string;
+    durationMs: number;
+    statusCode?: number;
+    error?: string;
+}
+
+export interface WebhookDelivery {
+    // the subscription and event IDs, so a redelivered event is not sent twice
+    id: string;
+    subscriptionId: string;
+    eventId: string;
+    eventType: EventType;
+    event: Event;
+    status: WebhookDeliveryStatus;
+    attempts: WebhookAttempt[];
+    nextAttemptAt?: string;
+    createdAt: string;
+    completedAt?: string;
 }
 
 export interface EmailTemplate {
+    name: string;
     subject: string;
-    template: (customer: CustomerData, data?: any) => string;
+    description?: string;
+    html: string;
+    text?: string;
+    // optional parts for the other channels; a template without one cannot be sent there
+    sms?: string;
+    push?: PushTemplate;
+    webhook?: Record<string, any>;
+    defaults?: Record<string, any>;
+}
+
+// Handlebars, like the email parts
+export interface PushTemplate {
+    title: string;
+    body: string;
+    url?: string;
+}
+
+export type ChannelName = 'email' | 'sms' | 'push' | 'webhook';
+
+export interface SmsData {
+    to: string;
+    body: string;
+    type: string;
+    customerId: string;
+    messageId: string;
+}
+
+export interface PushData {
+    to: string[];
+    title: string;
+    body: string;
+    url?: string;
+    type: string;
+    customerId: string;
+    messageId: string;
+}
+
+export interface WebhookData {
+    url: string;
+    payload: Record<string, any>;
+    type: string;
+    customerId: string;
+    messageId: string;
+}
+
+export interface TemplateVersion extends EmailTemplate {
+    version: number;
+    createdAt: string;
+}
+
+export interface ManagedTemplate {
+    id: string;
+    publishedVersion: number | null;
+    versions: TemplateVersion[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface TemplateSummary {
+    id: string;
+    subject: string;
+    description?: string;
+    publishedVersion: number | null;
+    latestVersion: number;
+    updatedAt: string;
+}
+
+export interface TemplateUploadRequest {
+    name?: string;
+    subject: string;
+    description?: string;
+    html: string;
+    text?: string;
+    sms?: string;
+    push?: PushTemplate;
+    webhook?: Record<string, any>;
+    defaults?: Record<string, any>;
+    publish?: boolean;
+}
+
+export interface TemplatePreviewRequest {
+    customerId?: string;
+    customer?: CustomerData;
+    version?: number;
+    data?: Record<string, any>;
+}
+
+export interface RenderedEmail {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+// a preview also shows the parts the template has for the other channels
+export interface TemplatePreview extends RenderedEmail {
+    version: number;
+    sms?: string;
+    push?: PushTemplate;
+    webhook?: Record<string, any>;
 }
 
 export interface EmailData {
     to: string;
     subject: string;
     html: string;
+    text?: string;
     type: string;
     customerId: string;
+    // generated per send; ties engagement events back to this email
+    messageId?: string;
+    headers?: Record<string, string>;
+    experiment?: ExperimentAssignment;
     metadata?: any;
 }
 
+export interface EmailEngagement {
+    messageId: string;
+    customerId: string;
+    emailType: string;
+    url?: string;
+    userAgent?: string;
+    occurredAt: string;
+}
+
+export type SuppressionReason = 'unsubscribed' | 'bounced' | 'complained' | 'manual';
+
+export interface SuppressionEntry {
+    email: string;
+    reason: SuppressionReason;
+    customerId?: string;
+    source?: string;
+    createdAt: string;
+}
+
+export interface SuppressionRequest {
+    email: string;
+    reason?: SuppressionReason;
+}
+
+export interface ConsentDecision {
+    allowed: boolean;
+    reason?: string;
+}
+
+export type DiscountCodeStatus = 'active' | 'redeemed' | 'expired';
+
+export interface DiscountCode {
+    code: string;
+    customerId: string;
+    percentage: number;
+    productId?: string;
+    productName?: string;
+    productCategory?: string;
+    issuedAt: string;
+    expiresAt: string;
+    status: DiscountCodeStatus;
+    redeemedAt?: string;
+    orderId?: string;
+}
+
+export interface DiscountRedemption {
+    code: string;
+    customerId: string;
+    orderId?: string;
+    redeemedAt: string;
+}
+
+export interface DiscountRedemptionRequest {
+    customerId: string;
+    orderId?: string;
+}
+
+export type StepExecutionStatus = 'claimed' | 'completed';
+
+export interface StepExecution {
+    key: string;
+    customerId: string;
+    journeyId: string;
+    stepId: number;
+    occurrence: number;
+    status: StepExecutionStatus;
+    claimedAt: string;
+    completedAt: string | null;
+}
+
+export interface ScheduledJob {
+    id: string;
+    type: string;
+    customerId: string;
+    runAt: string;
+    createdAt: string;
+    payload: any;
+    // failed runs so far; a failed job is rescheduled with a backoff
+    attempts?: number;
+}
+
 export interface WorkflowStatus {
     customer: CustomerData;
-    workflow: {
-        steps: WorkflowStepStatus[];
-        currentStep: number;
-        completedSteps: number[];
-        hasActiveReminder: boolean;
-    };
+    journeys: JourneyStatus[];
+    hasActiveReminder: boolean;
+    scheduledJobs: ScheduledJob[];
+    sendDecisions: SendDecision[];
+}
+
+export interface JourneyStatus {
+    id: string;
+    name: string;
+    steps: WorkflowStepStatus[];
+    currentStep: number;
+    completedSteps: number[];
+    currentNode: number | null;
+    waitingFor: WaitState | null;
 }
 
 export interface WorkflowStepStatus {
@@ -97,6 +662,7 @@ export interface WorkflowStepStatus {
     description: string;
     completed: boolean;
     completedAt: string | null;
+    outcome: string | null;
 }
 
 export interface ApiResponse<T = any> {
@@ -109,9 +675,202 @@ export interface ApiResponse<T = any> {
 export interface CustomerSignupRequest {
     name: string;
     email: string;
+    timezone?: string;
+    phone?: string;
+    pushTokens?: string[];
     preferences?: CustomerPreferences;
 }
 
+export type EventPropertyType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+export interface EventPropertySchema {
+    type: EventPropertyType;
+    required?: boolean;
+    // the only values allowed, for string and number properties
+    enum?: (string | number)[];
+}
+
+// what a tracked event's properties must look like
+export interface EventSchema {
+    name: string;
+    description?: string;
+    properties: Record<string, EventPropertySchema>;
+    // whether properties not listed are accepted
+    additionalProperties: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface EventSchemaRequest {
+    name?: string;
+    description?: string;
+    properties?: Record<string, EventPropertySchema>;
+    additionalProperties?: boolean;
+}
+
+export interface TrackEventRequest {
+    customerId: string;
+    event: string;
+    properties?: Record<string, any>;
+    // when the event happened; defaults to when it was received
+    timestamp?: string;
+}
+
+export interface TrackRequest {
+    batch: TrackEventRequest[];
+}
+
+// the data of a TRACK event
+export interface TrackedEvent {
+    customerId: string;
+    event: string;
+    properties: Record<string, any>;
+    occurredAt: string;
+    receivedAt: string;
+}
+
+export interface TrackResult {
+    accepted: number;
+    rejected: number;
+    // positions in the batch
+    errors: { index: number; error: string }[];
+}
+
+// a customer event the workflow engine processed, kept for the customer's data export
+export interface CustomerEventRecord {
+    eventId: string;
+    type: EventType;
+    timestamp: string;
+    data: Record<string, any>;
+}
+
+// everything stored about one customer
+export interface CustomerExport {
+    exportedAt: string;
+    profile: Omit<CustomerData, 'preferences' | 'metadata' | 'workflowState'>;
+    preferences: CustomerPreferences;
+    metadata: CustomerMetadata;
+    workflowState: Omit<WorkflowState, 'emailHistory'> | null;
+    sentMessages: SentEmailRecord[];
+    events: CustomerEventRecord[];
+    purchases: Conversion[];
+    discountCodes: DiscountCode[];
+    sendDecisions: SendDecision[];
+    scheduledJobs: ScheduledJob[];
+    suppression: SuppressionEntry | null;
+}
+
+export interface CustomerErasure {
+    customerId: string;
+    erasedAt: string;
+}
+
+export interface IdentifyRequest {
+    customerId: string;
+    // name, email, phone, timezone and pushTokens update the profile; anything else is a trait, and null removes it
+    traits: Record<string, any>;
+    timestamp?: string;
+}
+
+// the data of an IDENTIFY event
+export interface IdentifyData {
+    customerId: string;
+    traits: Record<string, any>;
+    identifiedAt: string;
+}
+
+export interface PurchaseRequest {
+    orderId: string;
+    orderValue: number;
+    currency?: string;
+    discountCode?: string;
+}
+
+export interface PurchaseCompleted {
+    customerId: string;
+    orderId: string;
+    orderValue: number;
+    currency: string;
+    discountCode?: string;
+    purchasedAt: string;
+}
+
+// taken when a purchase request is accepted, before its conversion is recorded from the event
+export interface OrderClaim {
+    orderId: string;
+    customerId: string;
+    claimedAt: string;
+}
+
+export interface Conversion extends PurchaseCompleted {
+    // the last email sent within the attribution window, if any
+    attribution: SentEmailRecord | null;
+    recordedAt: string;
+}
+
+export interface FunnelStepProgress {
+    enteredAt: string;
+    completedAt?: string;
+}
+
+// one customer's first pass through each step of a journey
+export interface FunnelProgress {
+    journeyId: string;
+    customerId: string;
+    enteredAt: string;
+    steps: Record<number, FunnelStepProgress>;
+}
+
+export interface FunnelQuery {
+    from?: string;
+    to?: string;
+    // an attribute:value filter or the ID of a saved segment
+    segment?: string;
+}
+
+export interface DurationStats {
+    count: number;
+    averageMs: number | null;
+    medianMs: number | null;
+}
+
+export interface FunnelStep {
+    stepId: number;
+    name: string;
+    entered: number;
+    completed: number;
+    inProgress: number;
+    // completed this step but entered none of the steps it leads to
+    droppedOff: number | null;
+    conversionRate: number;
+    timeInStep: DurationStats;
+    timeFromPreviousStep: DurationStats | null;
+}
+
+export interface JourneyFunnel {
+    journeyId: string;
+    journeyName: string;
+    filters: FunnelQuery;
+    customers: number;
+    steps: FunnelStep[];
+}
+
+export interface StepRevenue {
+    journeyId: string;
+    stepId: number;
+    stepName?: string;
+    template: string;
+    conversions: number;
+    revenue: Record<string, number>;
+}
+
+export interface RevenueReport {
+    attributionWindowMs: number;
+    totals: { conversions: number; revenue: Record<string, number> };
+    steps: StepRevenue[];
+    unattributed: { conversions: number; revenue: Record<string, number> };
+}
+
 export interface ProductVisitRequest {
     productId: string;
     productName: string;
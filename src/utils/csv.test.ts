@@ -0,0 +1,62 @@
+import { CsvRecord, readCsvRecords } from './csv';
+
+async function* linesOf(text: string): AsyncGenerator<string> {
+    yield* text.split('\n');
+}
+
+const read = async (text: string): Promise<CsvRecord[]> => {
+    const records: CsvRecord[] = [];
+    for await (const record of readCsvRecords(linesOf(text))) {
+        records.push(record);
+    }
+    return records;
+};
+
+describe('readCsvRecords', () => {
+    it('splits plain records on commas and keeps empty fields', async () => {
+        expect(await read('id,email,name\nc-1,a@example.com,\n')).toEqual([
+            { line: 1, fields: ['id', 'email', 'name'] },
+            { line: 2, fields: ['c-1', 'a@example.com', ''] }
+        ]);
+    });
+
+    it('reads commas and doubled quotes inside quoted fields', async () => {
+        expect(await read('"Smith, Jane","say ""hi""",""')).toEqual([
+            { line: 1, fields: ['Smith, Jane', 'say "hi"', ''] }
+        ]);
+    });
+
+    it('joins a quoted field across line breaks and numbers the record by its first line', async () => {
+        expect(await read('id,note\nc-1,"first\nsecond"\nc-2,plain')).toEqual([
+            { line: 1, fields: ['id', 'note'] },
+            { line: 2, fields: ['c-1', 'first\nsecond'] },
+            { line: 4, fields: ['c-2', 'plain'] }
+        ]);
+    });
+
+    it('strips CRLF line endings but keeps blank lines inside quotes', async () => {
+        expect(await read('a,"b\r\n\r\nc"\r\nd,e\r\n')).toEqual([
+            { line: 1, fields: ['a', 'b\n\nc'] },
+            { line: 4, fields: ['d', 'e'] }
+        ]);
+    });
+
+    it('skips blank lines between records', async () => {
+        expect(await read('a\n\n  \nb')).toEqual([
+            { line: 1, fields: ['a'] },
+            { line: 4, fields: ['b'] }
+        ]);
+    });
+
+    it('keeps quotes that do not open a field as text', async () => {
+        expect(await read('5" screen,it"s')).toEqual([
+            { line: 1, fields: ['5" screen', 'it"s'] }
+        ]);
+    });
+
+    it('rejects an unterminated quoted field', async () => {
+        await expect(read('id,note\nc-1,"never closed\nmore')).rejects.toThrow(
+            'Unterminated quoted field in the record starting on line 2'
+        );
+    });
+});
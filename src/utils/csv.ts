@@ -0,0 +1,65 @@
+export interface CsvRecord {
+    // line the record starts on, from 1
+    line: number;
+    fields: string[];
+}
+
+/**
+ * Reads RFC 4180 records from a stream of lines. Quoted fields may hold
+ * commas, doubled quotes and line breaks, so a record can span several
+ * lines. Blank lines are skipped.
+ */
+export async function* readCsvRecords(lines: AsyncIterable<string>): AsyncGenerator<CsvRecord> {
+    let lineNumber = 0;
+    let fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    let startLine = 0;
+
+    for await (const raw of lines) {
+        lineNumber++;
+        const line = raw.endsWith('\r') ? raw.slice(0, -1) : raw;
+
+        if (!quoted) {
+            if (line.trim() === '') {
+                continue;
+            }
+            startLine = lineNumber;
+        } else {
+            // the line break was inside quotes, so it belongs to the field
+            field += '\n';
+        }
+
+        for (let i = 0; i < line.length; i++) {
+            const char = line[i];
+            if (quoted) {
+                if (char === '"' && line[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    field += char;
+                }
+            } else if (char === '"' && field === '') {
+                quoted = true;
+            } else if (char === ',') {
+                fields.push(field);
+                field = '';
+            } else {
+                field += char;
+            }
+        }
+
+        if (!quoted) {
+            fields.push(field);
+            yield { line: startLine, fields };
+            fields = [];
+            field = '';
+        }
+    }
+
+    if (quoted) {
+        throw new Error(`Unterminated quoted field in the record starting on line ${startLine}`);
+    }
+}
@@ -0,0 +1,30 @@
+const ENTITIES: Record<string, string> = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#x27;': "'",
+    '&#39;': "'",
+    '&#x60;': '`',
+    '&#x3D;': '=',
+    '&nbsp;': ' '
+};
+
+/**
+ * Derives a readable plain-text version of an email's HTML body
+ */
+export const htmlToText = (html: string): string => {
+    return html
+        .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<a\s[^>]*href="([^"#][^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)')
+        .replace(/<li[^>]*>/gi, '- ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|h[1-6]|li|ul|ol|tr)>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&[#\w]+;/g, entity => ENTITIES[entity] || entity)
+        .split('\n')
+        .map(line => line.trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+};
@@ -0,0 +1,64 @@
+import { MinHeap } from './minHeap';
+
+describe('MinHeap', () => {
+    it('pops values lowest priority first', () => {
+        const heap = new MinHeap<string>();
+        [5, 1, 4, 2, 3].forEach(priority => heap.push(priority, `job-${priority}`));
+
+        const popped: string[] = [];
+        while (heap.size > 0) {
+            popped.push(heap.pop()!.value);
+        }
+
+        expect(popped).toEqual(['job-1', 'job-2', 'job-3', 'job-4', 'job-5']);
+    });
+
+    it('keeps the order across interleaved pushes and pops', () => {
+        const heap = new MinHeap<number>();
+        const priorities = [42, 7, 19, 3, 88, 7, 61, 0, 25, 13];
+        const popped: number[] = [];
+
+        priorities.forEach((priority, index) => {
+            heap.push(priority, priority);
+            if (index % 3 === 2) {
+                popped.push(heap.pop()!.priority);
+            }
+        });
+        while (heap.size > 0) {
+            popped.push(heap.pop()!.priority);
+        }
+
+        expect(popped).toHaveLength(priorities.length);
+        expect(popped.slice(0, 3)).toEqual([7, 3, 0]);
+        expect(popped.slice(3)).toEqual([...popped.slice(3)].sort((a, b) => a - b));
+    });
+
+    it('keeps every value of equal priority', () => {
+        const heap = new MinHeap<string>();
+        heap.push(1, 'a');
+        heap.push(1, 'b');
+        heap.push(1, 'c');
+
+        const values = [heap.pop()!.value, heap.pop()!.value, heap.pop()!.value];
+        expect(values.sort()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('peeks without removing', () => {
+        const heap = new MinHeap<string>();
+        heap.push(2, 'later');
+        heap.push(1, 'sooner');
+
+        expect(heap.peek()).toEqual({ priority: 1, value: 'sooner' });
+        expect(heap.size).toBe(2);
+    });
+
+    it('is empty after clear', () => {
+        const heap = new MinHeap<string>();
+        heap.push(1, 'a');
+        heap.clear();
+
+        expect(heap.size).toBe(0);
+        expect(heap.peek()).toBeUndefined();
+        expect(heap.pop()).toBeUndefined();
+    });
+});
@@ -0,0 +1,71 @@
+/**
+ * Binary min-heap ordered by a numeric priority (lowest first)
+ */
+export class MinHeap<T> {
+    private items: Array<{ priority: number; value: T }> = [];
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    push(priority: number, value: T): void {
+        this.items.push({ priority, value });
+        this.siftUp(this.items.length - 1);
+    }
+
+    peek(): { priority: number; value: T } | undefined {
+        return this.items[0];
+    }
+
+    pop(): { priority: number; value: T } | undefined {
+        const top = this.items[0];
+        const last = this.items.pop();
+
+        if (top && last && this.items.length > 0) {
+            this.items[0] = last;
+            this.siftDown(0);
+        }
+        return top;
+    }
+
+    clear(): void {
+        this.items = [];
+    }
+
+    private siftUp(index: number): void {
+        while (index > 0) {
+            const parent = Math.floor((index - 1) / 2);
+            if (this.items[parent].priority <= this.items[index].priority) {
+                return;
+            }
+            this.swap(parent, index);
+            index = parent;
+        }
+    }
+
+    private siftDown(index: number): void {
+        const length = this.items.length;
+
+        while (true) {
+            const left = index * 2 + 1;
+            const right = left + 1;
+            let smallest = index;
+
+            if (left < length && this.items[left].priority < this.items[smallest].priority) {
+                smallest = left;
+            }
+            if (right < length && this.items[right].priority < this.items[smallest].priority) {
+                smallest = right;
+            }
+            if (smallest === index) {
+                return;
+            }
+            this.swap(smallest, index);
+            index = smallest;
+        }
+    }
+
+    private swap(a: number, b: number): void {
+        [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    }
+}
@@ -0,0 +1,75 @@
+import { isValidTimezone, nextAllowedSendTime } from './sendWindow';
+import { SendWindow, TimeWindow } from '../types';
+
+// 2026-03-09 is a Monday
+const at = (iso: string): Date => new Date(iso);
+const officeHours: SendWindow = { start: '09:00', end: '17:00' };
+const weekdays: SendWindow = { ...officeHours, days: ['mon', 'tue', 'wed', 'thu', 'fri'] };
+const overnight: TimeWindow = { start: '22:00', end: '07:00' };
+
+describe('nextAllowedSendTime', () => {
+    it('sends right away inside the window', () => {
+        const from = at('2026-03-09T10:15:30.000Z');
+
+        expect(nextAllowedSendTime(from, 'UTC', officeHours)).toEqual(from);
+    });
+
+    it('waits for the window to open, at the start of the minute', () => {
+        expect(nextAllowedSendTime(at('2026-03-09T07:30:45.500Z'), 'UTC', officeHours)).toEqual(at('2026-03-09T09:00:00.000Z'));
+    });
+
+    it('moves a send after the window to the next day', () => {
+        expect(nextAllowedSendTime(at('2026-03-09T17:00:00.000Z'), 'UTC', officeHours)).toEqual(at('2026-03-10T09:00:00.000Z'));
+    });
+
+    it('skips days outside the window', () => {
+        // Friday evening to Monday morning
+        expect(nextAllowedSendTime(at('2026-03-13T18:00:00.000Z'), 'UTC', weekdays)).toEqual(at('2026-03-16T09:00:00.000Z'));
+    });
+
+    it('waits out quiet hours that span midnight', () => {
+        expect(nextAllowedSendTime(at('2026-03-09T23:15:00.000Z'), 'UTC', undefined, overnight)).toEqual(at('2026-03-10T07:00:00.000Z'));
+        expect(nextAllowedSendTime(at('2026-03-10T03:00:00.000Z'), 'UTC', undefined, overnight)).toEqual(at('2026-03-10T07:00:00.000Z'));
+        expect(nextAllowedSendTime(at('2026-03-10T21:59:00.000Z'), 'UTC', undefined, overnight)).toEqual(at('2026-03-10T21:59:00.000Z'));
+    });
+
+    it('applies quiet hours inside the send window', () => {
+        const lunch: TimeWindow = { start: '12:00', end: '13:30' };
+
+        expect(nextAllowedSendTime(at('2026-03-09T12:10:00.000Z'), 'UTC', officeHours, lunch)).toEqual(at('2026-03-09T13:30:00.000Z'));
+    });
+
+    it('uses the customer\'s local time', () => {
+        // 08:30 in Berlin (UTC+1) is before the window opens at 09:00 local
+        expect(nextAllowedSendTime(at('2026-03-09T07:30:00.000Z'), 'Europe/Berlin', officeHours)).toEqual(at('2026-03-09T08:00:00.000Z'));
+        // 04:30 in New York (UTC-4 after the DST change) is inside quiet hours
+        expect(nextAllowedSendTime(at('2026-03-09T08:30:00.000Z'), 'America/New_York', undefined, overnight)).toEqual(at('2026-03-09T11:00:00.000Z'));
+    });
+
+    it('follows the local clock across a daylight saving change', () => {
+        // Saturday 15:00 EST; clocks go forward on Sunday, so 09:00 EDT is 13:00 UTC
+        expect(nextAllowedSendTime(at('2026-03-07T20:00:00.000Z'), 'America/New_York', { start: '09:00', end: '12:00' }))
+            .toEqual(at('2026-03-08T13:00:00.000Z'));
+        // Saturday 15:00 EDT; clocks go back on Sunday, so 09:00 EST is 14:00 UTC
+        expect(nextAllowedSendTime(at('2026-10-31T19:00:00.000Z'), 'America/New_York', { start: '09:00', end: '12:00' }))
+            .toEqual(at('2026-11-01T14:00:00.000Z'));
+    });
+
+    it('opens a window whose start is skipped by the clocks going forward an hour later', () => {
+        // 02:30 does not exist in New York on 2026-03-08; 03:30 EDT is 07:30 UTC
+        expect(nextAllowedSendTime(at('2026-03-07T20:00:00.000Z'), 'America/New_York', { start: '02:30', end: '04:00' }))
+            .toEqual(at('2026-03-08T07:30:00.000Z'));
+    });
+
+    it('is undefined when the rules never allow a send', () => {
+        expect(nextAllowedSendTime(at('2026-03-09T10:00:00.000Z'), 'UTC', { start: '23:00', end: '06:00' }, overnight)).toBeUndefined();
+    });
+});
+
+describe('isValidTimezone', () => {
+    it('accepts IANA time zones and rejects anything else', () => {
+        expect(isValidTimezone('Europe/Berlin')).toBe(true);
+        expect(isValidTimezone('UTC')).toBe(true);
+        expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+    });
+});
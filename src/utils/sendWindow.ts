@@ -0,0 +1,117 @@
+import { SendWindow, TimeWindow, Weekday } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+
+// the next slot is at most a week and a DST shift away; the rest is slack
+const MAX_BOUNDARY_STEPS = 32;
+
+const WEEKDAYS: Record<string, Weekday> = {
+    Mon: 'mon', Tue: 'tue', Wed: 'wed', Thu: 'thu', Fri: 'fri', Sat: 'sat', Sun: 'sun'
+};
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            weekday: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+            hourCycle: 'h23'
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+export const isValidTimezone = (timeZone: string): boolean => {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const toMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+const localTime = (date: Date, timeZone: string): { weekday: Weekday; minutes: number } => {
+    const parts: Record<string, string> = {};
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+        parts[part.type] = part.value;
+    }
+    return {
+        weekday: WEEKDAYS[parts.weekday],
+        minutes: Number(parts.hour) * 60 + Number(parts.minute)
+    };
+};
+
+const inWindow = (minutes: number, window: TimeWindow): boolean => {
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+    return start < end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end;
+};
+
+const isAllowed = (date: Date, timeZone: string, sendWindow?: SendWindow, quietHours?: TimeWindow): boolean => {
+    const { weekday, minutes } = localTime(date, timeZone);
+
+    if (sendWindow) {
+        if (!inWindow(minutes, sendWindow)) {
+            return false;
+        }
+        if (sendWindow.days && !sendWindow.days.includes(weekday)) {
+            return false;
+        }
+    }
+    return !quietHours || !inWindow(minutes, quietHours);
+};
+
+/**
+ * Jumping a number of minutes ahead lands off the local boundary when a
+ * daylight saving change lies in between; this moves the jump back onto the
+ * boundary, unless that local time does not exist on the day.
+ */
+const landOnBoundary = (jump: Date, boundary: number, after: Date, timeZone: string): Date => {
+    const drift = (localTime(jump, timeZone).minutes - boundary + MINUTES_PER_DAY * 1.5) % MINUTES_PER_DAY - MINUTES_PER_DAY / 2;
+    if (drift === 0) {
+        return jump;
+    }
+
+    const corrected = new Date(jump.getTime() - drift * MINUTE_MS);
+    return corrected > after && localTime(corrected, timeZone).minutes === boundary ? corrected : jump;
+};
+
+/**
+ * The earliest time at or after `from` that falls inside the send window and
+ * outside quiet hours in the given time zone. Sends only become allowed when a
+ * window opens or quiet hours end, so the search jumps between those local
+ * times instead of scanning minute by minute. Undefined when the rules never
+ * allow a send, e.g. a window that lies entirely within quiet hours.
+ */
+export const nextAllowedSendTime = (from: Date, timeZone: string, sendWindow?: SendWindow, quietHours?: TimeWindow): Date | undefined => {
+    const boundaries = [sendWindow?.start, quietHours?.end]
+        .filter((time): time is string => !!time)
+        .map(toMinutes);
+
+    let candidate = from;
+    for (let i = 0; i < MAX_BOUNDARY_STEPS; i++) {
+        if (isAllowed(candidate, timeZone, sendWindow, quietHours)) {
+            return candidate;
+        }
+
+        const { minutes } = localTime(candidate, timeZone);
+        const untilBoundary = (boundary: number): number => (boundary - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+        const boundary = boundaries.reduce((nearest, next) => untilBoundary(next) < untilBoundary(nearest) ? next : nearest);
+        const startOfMinute = Math.floor(candidate.getTime() / MINUTE_MS) * MINUTE_MS;
+        candidate = landOnBoundary(new Date(startOfMinute + untilBoundary(boundary) * MINUTE_MS), boundary, candidate, timeZone);
+    }
+    return undefined;
+};
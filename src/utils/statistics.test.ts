@@ -0,0 +1,44 @@
+import { normalCdf, twoProportionZTest } from './statistics';
+
+describe('normalCdf', () => {
+    it('matches the standard normal table', () => {
+        expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+        expect(normalCdf(1.96)).toBeCloseTo(0.975, 4);
+        expect(normalCdf(-1.96)).toBeCloseTo(0.025, 4);
+        expect(normalCdf(3)).toBeCloseTo(0.99865, 4);
+    });
+});
+
+describe('twoProportionZTest', () => {
+    it('computes the z-score and two-sided p-value', () => {
+        // 10% against 13% on 1000 trials each
+        const { zScore, pValue } = twoProportionZTest(100, 1000, 130, 1000);
+
+        expect(zScore).toBeCloseTo(2.1028, 3);
+        expect(pValue).toBeCloseTo(0.0355, 3);
+    });
+
+    it('gives a negative z-score and the same p-value when B does worse', () => {
+        const better = twoProportionZTest(100, 1000, 130, 1000);
+        const worse = twoProportionZTest(130, 1000, 100, 1000);
+
+        expect(worse.zScore).toBeCloseTo(-better.zScore!, 10);
+        expect(worse.pValue).toBeCloseTo(better.pValue!, 10);
+    });
+
+    it('finds no difference between equal rates', () => {
+        const { zScore, pValue } = twoProportionZTest(50, 500, 50, 500);
+
+        expect(zScore).toBe(0);
+        expect(pValue).toBeCloseTo(1, 6);
+    });
+
+    it('is undefined for an empty group or a pooled rate of 0 or 1', () => {
+        const undefinedResult = { zScore: null, pValue: null };
+
+        expect(twoProportionZTest(0, 0, 5, 10)).toEqual(undefinedResult);
+        expect(twoProportionZTest(5, 10, 0, 0)).toEqual(undefinedResult);
+        expect(twoProportionZTest(0, 10, 0, 20)).toEqual(undefinedResult);
+        expect(twoProportionZTest(10, 10, 20, 20)).toEqual(undefinedResult);
+    });
+});
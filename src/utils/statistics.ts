@@ -0,0 +1,35 @@
+// Abramowitz and Stegun 7.1.26; accurate to about 1.5e-7, plenty for p-values
+const erf = (x: number): number => {
+    const sign = x < 0 ? -1 : 1;
+    const t = 1 / (1 + 0.3275911 * Math.abs(x));
+    const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+    return sign * y;
+};
+
+export const normalCdf = (z: number): number => {
+    return 0.5 * (1 + erf(z / Math.SQRT2));
+};
+
+/**
+ * Two-sided two-proportion z-test of B against A. Returns nulls when either
+ * group is empty or the pooled rate is 0 or 1, where the test is undefined.
+ */
+export const twoProportionZTest = (
+    successesA: number,
+    trialsA: number,
+    successesB: number,
+    trialsB: number
+): { zScore: number | null; pValue: number | null } => {
+    if (trialsA === 0 || trialsB === 0) {
+        return { zScore: null, pValue: null };
+    }
+
+    const pooled = (successesA + successesB) / (trialsA + trialsB);
+    const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB));
+    if (standardError === 0) {
+        return { zScore: null, pValue: null };
+    }
+
+    const zScore = (successesB / trialsB - successesA / trialsA) / standardError;
+    return { zScore, pValue: 2 * (1 - normalCdf(Math.abs(zScore))) };
+};
@@ -1,6 +1,7 @@
 import Joi from 'joi';
 import { BaseValidator, ValidationResult } from './baseValidator';
-import { CustomerSignupRequest, ProductVisitRequest, CustomerPreferences } from '../types';
+import { isValidTimezone } from '../utils/sendWindow';
+import { CustomerSignupRequest, ProductVisitRequest, CustomerPreferences, DiscountRedemptionRequest, SuppressionRequest, PurchaseRequest, IdentifyRequest } from '../types';
 
 export class CustomerValidator extends BaseValidator {
 
@@ -16,9 +17,28 @@ export class CustomerValidator extends BaseValidator {
             'string.email': 'Invalid email format',
             'any.required': 'Email is required'
         }),
+        timezone: Joi.string().max(64).custom((value, helpers) => {
+            return isValidTimezone(value) ? value : helpers.error('any.invalid');
+        }).optional().messages({
+            'any.invalid': 'Timezone must be an IANA time zone, e.g. Europe/Berlin',
+            'string.max': 'Timezone must be an IANA time zone, e.g. Europe/Berlin'
+        }),
+        phone: Joi.string().pattern(/^\+[1-9]\d{6,14}$/).optional().messages({
+            'string.pattern.base': 'Phone must be in E.164 format, e.g. +14155550123'
+        }),
+        pushTokens: Joi.array().items(Joi.string().min(1).max(4096)).max(10).unique().optional().messages({
+            'array.max': 'At most 10 push tokens are allowed',
+            'array.unique': 'Push tokens must not repeat'
+        }),
         preferences: Joi.object<CustomerPreferences>({
             category: Joi.string().optional(),
-            notifications: Joi.boolean().optional()
+            notifications: Joi.boolean().optional(),
+            channels: Joi.object({
+                email: Joi.boolean(),
+                sms: Joi.boolean(),
+                push: Joi.boolean(),
+                webhook: Joi.boolean()
+            }).optional()
         }).optional().unknown(true)
     });
 
@@ -43,6 +63,84 @@ export class CustomerValidator extends BaseValidator {
         'any.required': 'Customer ID is required'
     });
 
+    private discountCodeSchema = Joi.string().pattern(/^[A-Z0-9-]{6,40}$/).required().messages({
+        'string.pattern.base': 'Invalid discount code format',
+        'any.required': 'Discount code is required'
+    });
+
+    private discountRedemptionSchema = Joi.object<DiscountRedemptionRequest>({
+        customerId: Joi.string().uuid().required().messages({
+            'string.guid': 'Invalid customer ID format',
+            'any.required': 'Customer ID is required'
+        }),
+        orderId: Joi.string().max(100).optional().messages({
+            'string.max': 'Order ID must not exceed 100 characters'
+        })
+    });
+
+    private purchaseSchema = Joi.object<PurchaseRequest>({
+        orderId: Joi.string().max(100).required().messages({
+            'string.empty': 'Order ID is required',
+            'string.max': 'Order ID must not exceed 100 characters',
+            'any.required': 'Order ID is required'
+        }),
+        orderValue: Joi.number().min(0).precision(2).required().messages({
+            'number.base': 'Order value must be a valid number',
+            'number.min': 'Order value must not be negative',
+            'any.required': 'Order value is required'
+        }),
+        currency: Joi.string().pattern(/^[A-Z]{3}$/).optional().messages({
+            'string.pattern.base': 'Invalid currency: must be a 3-letter ISO 4217 code'
+        }),
+        discountCode: Joi.string().max(40).optional().messages({
+            'string.max': 'Discount code must not exceed 40 characters'
+        })
+    });
+
+    private suppressionSchema = Joi.object<SuppressionRequest>({
+        email: Joi.string().email().required().messages({
+            'string.empty': 'Email is required',
+            'string.email': 'Invalid email format',
+            'any.required': 'Email is required'
+        }),
+        reason: Joi.string().valid('unsubscribed', 'bounced', 'complained', 'manual').optional().messages({
+            'any.only': 'Invalid suppression reason: must be unsubscribed, bounced, complained or manual'
+        })
+    });
+
+    // profile fields keep their signup rules; the optional ones can be cleared with null
+    private identifySchema = Joi.object<IdentifyRequest>({
+        customerId: Joi.string().uuid().required().messages({
+            'string.guid': 'Invalid customer ID format',
+            'any.required': 'Customer ID is required'
+        }),
+        traits: Joi.object({
+            name: this.customerSignupSchema.extract('name').optional(),
+            email: this.customerSignupSchema.extract('email').optional(),
+            timezone: this.customerSignupSchema.extract('timezone').allow(null),
+            phone: this.customerSignupSchema.extract('phone').allow(null),
+            pushTokens: this.customerSignupSchema.extract('pushTokens').allow(null)
+        }).pattern(Joi.string().max(100), Joi.any()).min(1).max(100).required().messages({
+            'object.base': 'Traits must be an object',
+            'object.min': 'Traits must set at least one trait',
+            'object.max': 'At most 100 traits can be set at once',
+            'any.required': 'Traits are required'
+        }),
+        timestamp: Joi.string().isoDate().optional().messages({
+            'string.isoDate': 'Timestamp must be an ISO date'
+        })
+    });
+
+    private importOptionsSchema = Joi.object({
+        format: Joi.string().valid('csv', 'ndjson').required().messages({
+            'any.only': 'Import format must be csv or ndjson',
+            'any.required': 'Import format is required: send text/csv or application/x-ndjson, or set ?format='
+        }),
+        suppressTriggers: Joi.string().valid('true', 'false').optional().messages({
+            'any.only': 'suppressTriggers must be true or false'
+        })
+    });
+
     private preferencesSchema = Joi.object<CustomerPreferences>({
         category: Joi.string().max(50).optional().messages({
             'string.max': 'Category preference must not exceed 50 characters'
@@ -68,6 +166,31 @@ export class CustomerValidator extends BaseValidator {
         return { isValid: true };
     }
 
+    validateDiscountRedemption(code: string, data: DiscountRedemptionRequest): ValidationResult {
+        const { error } = this.discountCodeSchema.validate(code);
+        if (error) {
+            return { isValid: false, error: error.details[0].message };
+        }
+
+        return this.validateWithJoi(data, this.discountRedemptionSchema);
+    }
+
+    validatePurchase(data: PurchaseRequest): ValidationResult {
+        return this.validateWithJoi(data, this.purchaseSchema);
+    }
+
+    validateIdentify(data: IdentifyRequest): ValidationResult {
+        return this.validateWithJoi(data, this.identifySchema);
+    }
+
+    validateImportOptions(options: { format?: string; suppressTriggers?: string }): ValidationResult {
+        return this.validateWithJoi(options, this.importOptionsSchema);
+    }
+
+    validateSuppression(data: SuppressionRequest): ValidationResult {
+        return this.validateWithJoi(data, this.suppressionSchema);
+    }
+
     validatePreferences(preferences: CustomerPreferences): ValidationResult {
         if (!preferences) {
             return { isValid: true };
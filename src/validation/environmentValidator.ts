@@ -152,6 +152,17 @@ export class EnvironmentValidator extends BaseValidator {
                 then: Joi.required(),
                 otherwise: Joi.optional()
             }),
+            apiSecret: Joi.string().min(1).when('provider', {
+                is: 'ses',
+                then: Joi.required(),
+                otherwise: Joi.optional()
+            }),
+            domain: Joi.string().min(1).when('provider', {
+                is: 'mailgun',
+                then: Joi.required(),
+                otherwise: Joi.optional()
+            }),
+            region: Joi.string().min(1).optional(),
             fromEmail: Joi.string().email().required(),
             smtpConfig: Joi.object().when('provider', {
                 is: 'smtp',
@@ -0,0 +1,160 @@
+import Joi from 'joi';
+import { BaseValidator, ValidationResult } from './baseValidator';
+import { EventPropertySchema, EventSchema, EventSchemaRequest, TrackEventRequest, TrackRequest } from '../types';
+
+// e.g. "Order Shipped" or cart_abandoned
+export const EVENT_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9 _.:-]{0,99}$/;
+
+// tracked events share the trigger namespace with these, so they cannot be registered
+const RESERVED_EVENT_NAMES = [
+    'CUSTOMER_SIGNUP',
+    'PRODUCT_PAGE_VISIT',
+    'CUSTOMER_INACTIVE',
+    'PURCHASE_COMPLETED',
+    'WORKFLOW_TRIGGER',
+    'WORKFLOW_STEP',
+    'STEP_COMPLETED',
+    'EMAIL_REQUEST',
+    'EMAIL_SENT',
+    'EMAIL_OPENED',
+    'EMAIL_CLICKED',
+    'MESSAGE_SENT',
+    'TRACK',
+    'IDENTIFY',
+    'CUSTOMER_IMPORTED',
+    'CUSTOMER_ERASED'
+];
+
+const MAX_PROPERTIES = 100;
+
+export const MAX_BATCH_SIZE = 100;
+
+/**
+ * Whether a name can be used for a tracked event, which is any well-formed
+ * name that is not a built-in event
+ */
+export const isCustomEventName = (name: string): boolean => {
+    return EVENT_NAME_PATTERN.test(name) && !RESERVED_EVENT_NAMES.includes(name);
+};
+
+const eventName = Joi.string().pattern(EVENT_NAME_PATTERN).messages({
+    'string.pattern.base': 'Event name must start with a letter and contain only letters, numbers, spaces and _ . : - (at most 100 characters)'
+});
+
+const propertySchema = Joi.object<EventPropertySchema>({
+    type: Joi.string().valid('string', 'number', 'boolean', 'object', 'array').required().messages({
+        'any.only': 'Property type must be one of: string, number, boolean, object, array',
+        'any.required': 'Property type is required'
+    }),
+    required: Joi.boolean().optional(),
+    enum: Joi.when('type', {
+        is: Joi.valid('string', 'number'),
+        then: Joi.array().items(Joi.string(), Joi.number()).min(1).unique().optional(),
+        otherwise: Joi.forbidden()
+    }).messages({
+        'any.unknown': 'Property enum is only allowed for string and number properties'
+    })
+});
+
+const toJoi = (property: EventPropertySchema): Joi.Schema => {
+    let schema: Joi.Schema;
+    switch (property.type) {
+        case 'string':
+            schema = property.enum ? Joi.string() : Joi.string().allow('');
+            break;
+        case 'number':
+            schema = Joi.number();
+            break;
+        case 'boolean':
+            schema = Joi.boolean().strict();
+            break;
+        case 'array':
+            schema = Joi.array();
+            break;
+        default:
+            schema = Joi.object().unknown(true);
+    }
+
+    if (property.enum) {
+        schema = schema.valid(...property.enum);
+    }
+    return property.required ? schema.required() : schema.optional();
+};
+
+export class EventSchemaValidator extends BaseValidator {
+
+    private schemaDefinition = Joi.object<EventSchemaRequest>({
+        name: eventName.invalid(...RESERVED_EVENT_NAMES).required().messages({
+            'any.invalid': 'Event name is reserved for a built-in event',
+            'any.required': 'Event name is required'
+        }),
+        description: Joi.string().max(500).optional().messages({
+            'string.max': 'Description must not exceed 500 characters'
+        }),
+        properties: Joi.object().pattern(Joi.string().max(100), propertySchema).max(MAX_PROPERTIES).required().messages({
+            'object.max': `At most ${MAX_PROPERTIES} properties are allowed`,
+            'any.required': 'Properties are required'
+        }),
+        additionalProperties: Joi.boolean().optional()
+    });
+
+    private trackEventSchema = Joi.object<TrackEventRequest>({
+        customerId: Joi.string().uuid().required().messages({
+            'string.guid': 'Invalid customer ID format',
+            'any.required': 'Customer ID is required'
+        }),
+        event: eventName.invalid(...RESERVED_EVENT_NAMES).required().messages({
+            'any.invalid': 'Event name is reserved for a built-in event; use the dedicated endpoint',
+            'any.required': 'Event name is required'
+        }),
+        properties: Joi.object().unknown(true).optional().messages({
+            'object.base': 'Properties must be an object'
+        }),
+        timestamp: Joi.string().isoDate().optional().messages({
+            'string.isoDate': 'Timestamp must be an ISO date'
+        })
+    });
+
+    /**
+     * Validates an event schema registration
+     */
+    validateEventSchema(schema: EventSchemaRequest): ValidationResult {
+        return this.validateWithJoi(schema, this.schemaDefinition);
+    }
+
+    private batchSchema = Joi.object<TrackRequest>({
+        batch: Joi.array().items(Joi.any()).min(1).max(MAX_BATCH_SIZE).required().messages({
+            'array.base': 'Batch must be an array of events',
+            'array.min': 'Batch must contain at least one event',
+            'array.max': `Batch must not contain more than ${MAX_BATCH_SIZE} events`,
+            'any.required': 'Batch is required'
+        })
+    });
+
+    /**
+     * Validates the envelope of a batch; each event is validated on its own
+     */
+    validateBatch(request: TrackRequest): ValidationResult {
+        return this.validateWithJoi(request, this.batchSchema);
+    }
+
+    /**
+     * Validates one tracked event, without looking at its properties
+     */
+    validateTrackEvent(event: TrackEventRequest): ValidationResult {
+        return this.validateWithJoi(event, this.trackEventSchema);
+    }
+
+    /**
+     * Validates a tracked event's properties against its registered schema
+     */
+    validateProperties(schema: EventSchema, properties: Record<string, any>): ValidationResult {
+        const keys: Record<string, Joi.Schema> = {};
+        for (const [name, property] of Object.entries(schema.properties)) {
+            keys[name] = toJoi(property);
+        }
+        return this.validateWithJoi(properties, Joi.object(keys).unknown(schema.additionalProperties));
+    }
+}
+
+export default new EventSchemaValidator();
@@ -1,10 +1,16 @@
 // Export all validators and their classes
 export { BaseValidator, ValidationResult } from './baseValidator';
 export { CustomerValidator } from './customerValidator';
-export { WorkflowValidator } from './workflowValidator';
+export { WorkflowValidator, BUILT_IN_TRIGGERS, WAIT_EVENTS } from './workflowValidator';
+export { SegmentValidator, DERIVED_SEGMENT_FIELDS } from './segmentValidator';
+export { WebhookValidator, WEBHOOK_EVENT_TYPES } from './webhookValidator';
+export { EventSchemaValidator, EVENT_NAME_PATTERN, isCustomEventName } from './eventSchemaValidator';
 export { EnvironmentValidator, EnvironmentConfig } from './environmentValidator';
 
 // Export default instances
 export { default as customerValidator } from './customerValidator';
 export { default as workflowValidator } from './workflowValidator';
+export { default as segmentValidator } from './segmentValidator';
+export { default as webhookValidator } from './webhookValidator';
+export { default as eventSchemaValidator } from './eventSchemaValidator';
 export { default as environmentValidator } from './environmentValidator';
@@ -0,0 +1,120 @@
+import Joi from 'joi';
+import { BaseValidator, ValidationResult } from './baseValidator';
+import { BroadcastRequest, SegmentRequest } from '../types';
+
+// values computed from the customer when a segment is evaluated
+export const DERIVED_SEGMENT_FIELDS = [
+    'daysSinceSignup',
+    'daysSinceLastActivity',
+    'daysSinceLastProductVisit',
+    'daysSinceLastEmail',
+    'emailsSent',
+    'templatesReceived'
+];
+
+const PROFILE_FIELDS = ['id', 'email', 'name', 'signupDate', 'lastActivity', 'timezone', 'phone', 'pushTokens'];
+
+const fieldSchema = Joi.alternatives().try(
+    Joi.string().valid(...PROFILE_FIELDS, ...DERIVED_SEGMENT_FIELDS),
+    Joi.string().pattern(/^(preferences|metadata|workflowState|traits)(\.[A-Za-z0-9_-]+)+$/)
+).required().messages({
+    'string.pattern.base': `Segment field must be one of ${[...PROFILE_FIELDS, ...DERIVED_SEGMENT_FIELDS].join(', ')} or a path under preferences, metadata, workflowState or traits`,
+    'alternatives.match': `Segment field must be one of ${[...PROFILE_FIELDS, ...DERIVED_SEGMENT_FIELDS].join(', ')} or a path under preferences, metadata, workflowState or traits`,
+    'any.required': 'Segment condition field is required'
+});
+
+const conditionSchema = Joi.object({
+    field: fieldSchema,
+    op: Joi.string().valid('eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'contains', 'exists').required().messages({
+        'any.only': 'Segment operator must be one of: eq, neq, gt, gte, lt, lte, in, nin, contains, exists',
+        'any.required': 'Segment condition operator is required'
+    }),
+    value: Joi.when('op', {
+        switch: [
+            { is: 'exists', then: Joi.boolean().optional() },
+            { is: Joi.valid('in', 'nin'), then: Joi.array().items(Joi.string(), Joi.number(), Joi.boolean()).min(1).required() },
+            {
+                is: Joi.valid('gt', 'gte', 'lt', 'lte'),
+                then: Joi.alternatives().try(Joi.number(), Joi.string().isoDate()).required().messages({
+                    'alternatives.types': 'Segment condition value must be a number or ISO date for gt, gte, lt and lte',
+                    'alternatives.match': 'Segment condition value must be a number or ISO date for gt, gte, lt and lte',
+                    'string.isoDate': 'Segment condition value must be a number or ISO date for gt, gte, lt and lte'
+                })
+            }
+        ],
+        otherwise: Joi.alternatives().try(Joi.string(), Joi.number(), Joi.boolean()).required().messages({
+            'alternatives.types': 'Segment condition value must be a string, number or boolean'
+        })
+    }).messages({
+        'any.required': 'Segment condition value is required for this operator',
+        'array.base': 'Segment condition value must be a list for in and nin',
+        'array.min': 'Segment condition value must not be an empty list'
+    })
+});
+
+// and/or/not nest other rules; anything with a `field` is a condition.
+// Shared with journey condition steps.
+export const segmentRuleSchema = Joi.alternatives().conditional(Joi.object({ field: Joi.exist() }).unknown(), {
+    then: conditionSchema,
+    otherwise: Joi.object({
+        and: Joi.array().items(Joi.link('#segmentRule')).min(1).max(50),
+        or: Joi.array().items(Joi.link('#segmentRule')).min(1).max(50),
+        not: Joi.link('#segmentRule')
+    }).xor('and', 'or', 'not').messages({
+        'object.missing': 'Segment rule must be a condition or have exactly one of and, or, not',
+        'object.xor': 'Segment rule must have exactly one of and, or, not',
+        'object.base': 'Segment rule must be an object',
+        'array.min': 'Segment rule groups must not be empty'
+    })
+}).id('segmentRule');
+
+export class SegmentValidator extends BaseValidator {
+
+    private segmentSchema = Joi.object<SegmentRequest>({
+        id: Joi.string().pattern(/^[a-z0-9][a-z0-9-]*$/).max(100).required().messages({
+            'string.pattern.base': 'Segment ID can only contain lowercase letters, numbers and hyphens',
+            'string.max': 'Segment ID must not exceed 100 characters',
+            'any.required': 'Segment ID is required'
+        }),
+        name: Joi.string().min(2).max(100).required().messages({
+            'string.empty': 'Segment name is required',
+            'string.min': 'Segment name must be at least 2 characters long',
+            'string.max': 'Segment name must not exceed 100 characters',
+            'any.required': 'Segment name is required'
+        }),
+        description: Joi.string().max(500).optional().messages({
+            'string.max': 'Description must not exceed 500 characters'
+        }),
+        rules: segmentRuleSchema.required().messages({
+            'any.required': 'Segment rules are required'
+        })
+    });
+
+    private broadcastSchema = Joi.object<BroadcastRequest>({
+        segmentId: Joi.string().required().messages({
+            'string.empty': 'Segment ID is required',
+            'any.required': 'Segment ID is required'
+        }),
+        template: Joi.string().min(1).max(100).required().messages({
+            'string.empty': 'Template is required',
+            'any.required': 'Template is required'
+        }),
+        data: Joi.object().optional()
+    });
+
+    /**
+     * Validates a segment definition and its rule tree
+     */
+    validateSegment(segment: SegmentRequest): ValidationResult {
+        return this.validateWithJoi(segment, this.segmentSchema);
+    }
+
+    /**
+     * Validates a broadcast of a template to a segment
+     */
+    validateBroadcast(broadcast: BroadcastRequest): ValidationResult {
+        return this.validateWithJoi(broadcast, this.broadcastSchema);
+    }
+}
+
+export default new SegmentValidator();
@@ -0,0 +1,55 @@
+import Joi from 'joi';
+import { BaseValidator, ValidationResult } from './baseValidator';
+import { EventType, WebhookSubscriptionRequest } from '../types';
+
+// events subscribers can receive; workflow triggers and email requests are internal commands
+export const WEBHOOK_EVENT_TYPES: EventType[] = [
+    'CUSTOMER_SIGNUP',
+    'CUSTOMER_IMPORTED',
+    'CUSTOMER_ERASED',
+    'PRODUCT_PAGE_VISIT',
+    'CUSTOMER_INACTIVE',
+    'PURCHASE_COMPLETED',
+    'TRACK',
+    'IDENTIFY',
+    'STEP_COMPLETED',
+    'EMAIL_SENT',
+    'EMAIL_OPENED',
+    'EMAIL_CLICKED',
+    'MESSAGE_SENT'
+];
+
+export class WebhookValidator extends BaseValidator {
+
+    private subscriptionSchema = Joi.object<WebhookSubscriptionRequest>({
+        url: Joi.string().uri({ scheme: ['http', 'https'] }).max(2048).required().messages({
+            'string.uri': 'URL must be an http or https URL',
+            'string.uriCustomScheme': 'URL must be an http or https URL',
+            'string.max': 'URL must not exceed 2048 characters',
+            'any.required': 'URL is required'
+        }),
+        events: Joi.array().items(Joi.string().valid(...WEBHOOK_EVENT_TYPES)).min(1).unique().required().messages({
+            'any.only': `Events must be some of: ${WEBHOOK_EVENT_TYPES.join(', ')}`,
+            'array.min': 'Events must list at least one event type',
+            'array.unique': 'Events must not repeat',
+            'any.required': 'Events are required'
+        }),
+        description: Joi.string().max(500).optional().messages({
+            'string.max': 'Description must not exceed 500 characters'
+        }),
+        enabled: Joi.boolean().optional(),
+        secret: Joi.string().min(16).max(256).optional().messages({
+            'string.min': 'Secret must be at least 16 characters long',
+            'string.max': 'Secret must not exceed 256 characters'
+        })
+    });
+
+    /**
+     * Validates a webhook subscription
+     */
+    validateSubscription(subscription: WebhookSubscriptionRequest): ValidationResult {
+        return this.validateWithJoi(subscription, this.subscriptionSchema);
+    }
+}
+
+export default new WebhookValidator();
@@ -1,6 +1,74 @@
 import Joi from 'joi';
 import { BaseValidator, ValidationResult } from './baseValidator';
-import { WorkflowStep, Event, EventType } from '../types';
+import { segmentRuleSchema } from './segmentValidator';
+import { isCustomEventName } from './eventSchemaValidator';
+import { nextAllowedSendTime } from '../utils/sendWindow';
+import { WorkflowStep, JourneyDefinition, Event, EventType, ChannelName } from '../types';
+
+// built-in customer events a step can start on; tracked event names can be used as well
+export const BUILT_IN_TRIGGERS = ['CUSTOMER_SIGNUP', 'PRODUCT_PAGE_VISIT', 'CUSTOMER_INACTIVE'];
+
+// built-in customer events the workflow engine receives, and so can wait for, besides tracked events
+export const WAIT_EVENTS = ['PRODUCT_PAGE_VISIT', 'PURCHASE_COMPLETED'];
+
+const eventNameOf = (builtIn: string[]) => Joi.string().custom((value, helpers) => {
+    return builtIn.includes(value) || isCustomEventName(value) ? value : helpers.error('any.invalid');
+});
+
+// actions that send the step's template to the customer
+const SEND_ACTIONS = ['send_email', 'send_message'];
+
+const CHANNELS: ChannelName[] = ['email', 'sms', 'push', 'webhook'];
+
+const experimentSlug = (label: string) => Joi.string().pattern(/^[a-z0-9][a-z0-9-]*$/).max(100).required().messages({
+    'string.pattern.base': `${label} can only contain lowercase letters, numbers and hyphens`,
+    'string.max': `${label} must not exceed 100 characters`,
+    'any.required': `${label} is required`
+});
+
+// the first variant is the control the others are measured against
+const experimentSchema = Joi.object({
+    id: experimentSlug('Experiment ID'),
+    variants: Joi.array().items(Joi.object({
+        id: experimentSlug('Variant ID'),
+        weight: Joi.number().positive().optional().messages({
+            'number.base': 'Variant weight must be a number',
+            'number.positive': 'Variant weight must be positive'
+        }),
+        subject: Joi.string().min(1).max(200).optional().messages({
+            'string.empty': 'Variant subject must not be empty',
+            'string.max': 'Variant subject must not exceed 200 characters'
+        }),
+        template: Joi.string().min(1).max(100).optional().messages({
+            'string.empty': 'Variant template must not be empty'
+        }),
+        data: Joi.object().optional()
+    })).min(2).max(10).unique('id').required().messages({
+        'array.min': 'Experiment must define at least two variants',
+        'array.max': 'Experiment must not define more than 10 variants',
+        'array.unique': 'Variant IDs must be unique within an experiment',
+        'any.required': 'Experiment variants are required'
+    })
+});
+
+const clockTime = (label: string) => Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).required().messages({
+    'string.pattern.base': `${label} must be a time as HH:mm`,
+    'any.required': `${label} is required`
+});
+
+const timeWindowKeys = (label: string) => ({
+    start: clockTime(`${label} start`),
+    end: clockTime(`${label} end`).invalid(Joi.ref('start')).messages({
+        'any.invalid': `${label} start and end must differ`
+    })
+});
+
+const stepReference = (label: string) => Joi.number().integer().positive().messages({
+    'number.base': `${label} must be a step ID`,
+    'number.integer': `${label} must be a step ID`,
+    'number.positive': `${label} must be a step ID`,
+    'any.unknown': `${label} is not allowed for this action`
+});
 
 export class WorkflowValidator extends BaseValidator {
 
@@ -21,20 +89,133 @@ export class WorkflowValidator extends BaseValidator {
         description: Joi.string().max(500).optional().messages({
             'string.max': 'Description must not exceed 500 characters'
         }),
-        trigger: Joi.string().valid('signup', 'product_visit', 'time_based', 'manual').required().messages({
-            'any.only': 'Trigger must be one of: signup, product_visit, time_based, manual',
-            'any.required': 'Trigger is required'
+        // optional: steps without a trigger are only reached from another step
+        trigger: eventNameOf(BUILT_IN_TRIGGERS).optional().messages({
+            'any.invalid': `Trigger must be one of: ${BUILT_IN_TRIGGERS.join(', ')}, or a tracked event name`
         }),
-        action: Joi.string().valid('send_email', 'update_status', 'wait', 'complete').required().messages({
-            'any.only': 'Action must be one of: send_email, update_status, wait, complete',
+        action: Joi.string().valid('send_email', 'send_message', 'update_status', 'wait', 'complete', 'condition', 'wait_for_event').required().messages({
+            'any.only': 'Action must be one of: send_email, send_message, update_status, wait, complete, condition, wait_for_event',
             'any.required': 'Action is required'
         }),
-        delay: Joi.number().integer().min(0).max(86400).required().messages({
+        delay: Joi.number().integer().min(0).required().messages({
             'number.base': 'Delay must be a valid number',
             'number.integer': 'Delay must be an integer',
-            'number.min': 'Delay must be at least 0 seconds',
-            'number.max': 'Delay must not exceed 24 hours (86400 seconds)',
+            'number.min': 'Delay must be at least 0 milliseconds',
             'any.required': 'Delay is required'
+        }),
+        template: Joi.string().min(1).max(100).when('action', {
+            is: Joi.valid(...SEND_ACTIONS),
+            then: Joi.required(),
+            otherwise: Joi.optional()
+        }).messages({
+            'string.empty': 'Template must not be empty',
+            'any.required': 'Template is required for send_email and send_message steps'
+        }),
+        channels: Joi.array().items(Joi.string().valid(...CHANNELS)).min(1).unique().when('action', {
+            is: 'send_message',
+            then: Joi.optional(),
+            otherwise: Joi.forbidden()
+        }).messages({
+            'any.only': `Channels must be some of: ${CHANNELS.join(', ')}`,
+            'array.min': 'Channels must list at least one channel',
+            'array.unique': 'Channels must not repeat',
+            'any.unknown': 'Channels are only allowed for send_message steps'
+        }),
+        status: Joi.string().min(1).max(50).when('action', {
+            is: 'update_status',
+            then: Joi.required(),
+            otherwise: Joi.optional()
+        }).messages({
+            'string.empty': 'Status must not be empty',
+            'any.required': 'Status is required for update_status steps'
+        }),
+        repeatable: Joi.boolean().optional(),
+        priority: Joi.string().valid('high', 'normal', 'low').when('action', {
+            is: Joi.valid(...SEND_ACTIONS),
+            then: Joi.optional(),
+            otherwise: Joi.forbidden()
+        }).messages({
+            'any.only': 'Priority must be one of: high, normal, low',
+            'any.unknown': 'Priority is only allowed for send_email and send_message steps'
+        }),
+        next: stepReference('next').when('action', {
+            is: Joi.valid('condition', 'wait_for_event'),
+            then: Joi.forbidden(),
+            otherwise: Joi.optional()
+        }),
+        condition: Joi.when('action', {
+            is: 'condition',
+            then: segmentRuleSchema.required(),
+            otherwise: Joi.forbidden()
+        }).messages({
+            'any.required': 'Condition rules are required for condition steps',
+            'any.unknown': 'Condition rules are only allowed for condition steps'
+        }),
+        ifTrue: stepReference('ifTrue').when('action', { is: 'condition', then: Joi.optional(), otherwise: Joi.forbidden() }),
+        ifFalse: stepReference('ifFalse').when('action', { is: 'condition', then: Joi.optional(), otherwise: Joi.forbidden() }),
+        event: eventNameOf(WAIT_EVENTS).when('action', {
+            is: 'wait_for_event',
+            then: Joi.required(),
+            otherwise: Joi.forbidden()
+        }).messages({
+            'any.invalid': `Event must be one of: ${WAIT_EVENTS.join(', ')}, or a tracked event name`,
+            'any.required': 'Event is required for wait_for_event steps',
+            'any.unknown': 'Event is only allowed for wait_for_event steps'
+        }),
+        timeout: Joi.number().integer().min(1).when('action', {
+            is: 'wait_for_event',
+            then: Joi.required(),
+            otherwise: Joi.forbidden()
+        }).messages({
+            'number.base': 'Timeout must be a valid number',
+            'number.integer': 'Timeout must be an integer',
+            'number.min': 'Timeout must be at least 1 millisecond',
+            'any.required': 'Timeout is required for wait_for_event steps',
+            'any.unknown': 'Timeout is only allowed for wait_for_event steps'
+        }),
+        onEvent: stepReference('onEvent').when('action', { is: 'wait_for_event', then: Joi.optional(), otherwise: Joi.forbidden() }),
+        onTimeout: stepReference('onTimeout').when('action', { is: 'wait_for_event', then: Joi.optional(), otherwise: Joi.forbidden() }),
+        experiment: Joi.when('action', {
+            is: Joi.valid(...SEND_ACTIONS),
+            then: experimentSchema.optional(),
+            otherwise: Joi.forbidden()
+        }).messages({
+            'any.unknown': 'Experiments are only allowed for send_email and send_message steps'
+        })
+    });
+
+    private journeySchema = Joi.object<JourneyDefinition>({
+        id: Joi.string().pattern(/^[a-z0-9][a-z0-9-]*$/).max(100).required().messages({
+            'string.pattern.base': 'Journey ID can only contain lowercase letters, numbers and hyphens',
+            'string.max': 'Journey ID must not exceed 100 characters',
+            'any.required': 'Journey ID is required'
+        }),
+        name: Joi.string().min(2).max(100).required().messages({
+            'string.empty': 'Journey name is required',
+            'string.min': 'Journey name must be at least 2 characters long',
+            'string.max': 'Journey name must not exceed 100 characters',
+            'any.required': 'Journey name is required'
+        }),
+        description: Joi.string().max(500).optional().messages({
+            'string.max': 'Description must not exceed 500 characters'
+        }),
+        enabled: Joi.boolean().default(true),
+        segment: Joi.string().pattern(/^[a-z0-9][a-z0-9-]*$/).max(100).optional().messages({
+            'string.pattern.base': 'Journey segment must be a segment ID'
+        }),
+        sendWindow: Joi.object({
+            ...timeWindowKeys('Send window'),
+            days: Joi.array().items(Joi.string().valid('mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun')).min(1).unique().optional().messages({
+                'any.only': 'Send window days must be mon, tue, wed, thu, fri, sat or sun',
+                'array.min': 'Send window days must not be empty',
+                'array.unique': 'Send window days must not repeat'
+            })
+        }).optional(),
+        quietHours: Joi.object(timeWindowKeys('Quiet hours')).optional(),
+        steps: Joi.array().items(this.workflowStepSchema).min(1).unique('id').required().messages({
+            'array.min': 'Journey must define at least one step',
+            'array.unique': 'Step IDs must be unique within a journey',
+            'any.required': 'Journey steps are required'
         })
     });
 
@@ -50,7 +231,16 @@ export class WorkflowValidator extends BaseValidator {
             'WORKFLOW_TRIGGER',
             'WORKFLOW_STEP',
             'EMAIL_REQUEST',
-            'EMAIL_SENT'
+            'EMAIL_SENT',
+            'EMAIL_OPENED',
+            'EMAIL_CLICKED',
+            'MESSAGE_SENT',
+            'PURCHASE_COMPLETED',
+            'STEP_COMPLETED',
+            'TRACK',
+            'IDENTIFY',
+            'CUSTOMER_IMPORTED',
+            'CUSTOMER_ERASED'
         ).required().messages({
             'any.only': 'Invalid event type',
             'any.required': 'Event type is required'
@@ -73,7 +263,16 @@ export class WorkflowValidator extends BaseValidator {
         'WORKFLOW_TRIGGER',
         'WORKFLOW_STEP',
         'EMAIL_REQUEST',
-        'EMAIL_SENT'
+        'EMAIL_SENT',
+        'EMAIL_OPENED',
+        'EMAIL_CLICKED',
+        'MESSAGE_SENT',
+        'PURCHASE_COMPLETED',
+        'STEP_COMPLETED',
+        'TRACK',
+        'IDENTIFY',
+        'CUSTOMER_IMPORTED',
+        'CUSTOMER_ERASED'
     ).required().messages({
         'any.only': 'Invalid event type',
         'any.required': 'Event type is required'
@@ -86,6 +285,52 @@ export class WorkflowValidator extends BaseValidator {
         return this.validateWithJoi(step, this.workflowStepSchema);
     }
 
+    /**
+     * Validates a journey definition and all of its steps using Joi
+     */
+    validateJourney(journey: JourneyDefinition): ValidationResult {
+        const result = this.validateWithJoi(journey, this.journeySchema);
+        if (!result.isValid) {
+            return result;
+        }
+
+        // the rules are the same in every time zone, so checking one is enough
+        if ((journey.sendWindow || journey.quietHours) && !nextAllowedSendTime(new Date(), 'UTC', journey.sendWindow, journey.quietHours)) {
+            return { isValid: false, error: 'Send window must leave time outside quiet hours' };
+        }
+
+        return this.validateJourneyGraph(journey);
+    }
+
+    /**
+     * Checks that every edge between steps points at a step of the same
+     * journey and that the journey has at least one triggered entry step
+     */
+    private validateJourneyGraph(journey: JourneyDefinition): ValidationResult {
+        const stepIds = new Set(journey.steps.map(step => step.id));
+        const errors: string[] = [];
+
+        if (!journey.steps.some(step => step.trigger)) {
+            errors.push('Journey must have at least one step with a trigger');
+        }
+
+        for (const step of journey.steps) {
+            for (const edge of ['next', 'ifTrue', 'ifFalse', 'onEvent', 'onTimeout'] as const) {
+                const target = step[edge];
+                if (target === undefined) {
+                    continue;
+                }
+                if (!stepIds.has(target)) {
+                    errors.push(`Step ${step.id} ${edge} references unknown step ${target}`);
+                } else if (target === step.id) {
+                    errors.push(`Step ${step.id} ${edge} must not reference itself`);
+                }
+            }
+        }
+
+        return errors.length > 0 ? { isValid: false, error: errors.join(', ') } : { isValid: true };
+    }
+
     /**
      * Validates an event using Joi
      */
@@ -129,32 +374,135 @@ export class WorkflowValidator extends BaseValidator {
      */
     validateEmailTemplate(template: any): ValidationResult {
         const schema = Joi.object({
+            name: Joi.string().pattern(/^[a-z0-9][a-z0-9-]*$/).max(100).required().messages({
+                'string.pattern.base': 'Template name can only contain lowercase letters, numbers and hyphens',
+                'string.max': 'Template name must not exceed 100 characters',
+                'any.required': 'Template name is required'
+            }),
             subject: Joi.string().min(1).max(200).required().messages({
                 'string.empty': 'Email subject is required',
                 'string.min': 'Email subject must not be empty',
                 'string.max': 'Email subject must not exceed 200 characters',
                 'any.required': 'Email subject is required'
             }),
-            template: Joi.function().required().messages({
-                'function.base': 'Template must be a function',
-                'any.required': 'Template function is required'
-            })
+            description: Joi.string().max(500).optional().messages({
+                'string.max': 'Description must not exceed 500 characters'
+            }),
+            html: Joi.string().min(1).required().messages({
+                'string.empty': 'HTML body is required',
+                'any.required': 'HTML body is required'
+            }),
+            text: Joi.string().min(1).optional().messages({
+                'string.empty': 'Plain-text body must not be empty'
+            }),
+            sms: Joi.string().min(1).max(1600).optional().messages({
+                'string.empty': 'SMS body must not be empty',
+                'string.max': 'SMS body must not exceed 1600 characters'
+            }),
+            push: Joi.object({
+                title: Joi.string().min(1).max(100).required(),
+                body: Joi.string().min(1).max(500).required(),
+                url: Joi.string().min(1).max(2000).optional()
+            }).optional().messages({
+                'any.required': 'Push part needs a title and a body',
+                'string.empty': 'Push title and body must not be empty',
+                'string.max': 'Push title must not exceed 100 characters and body 500'
+            }),
+            webhook: Joi.object().min(1).optional().messages({
+                'object.base': 'Webhook part must be a JSON object',
+                'object.min': 'Webhook part must not be empty'
+            }),
+            defaults: Joi.object().optional()
         }).required();
 
         return this.validateWithJoi(template, schema);
     }
 
+    /**
+     * Validates a template preview request; the sample customer only needs what templates render
+     */
+    validateTemplatePreview(request: any): ValidationResult {
+        const schema = Joi.object({
+            customerId: Joi.string().uuid().optional().messages({
+                'string.guid': 'Invalid customer ID format'
+            }),
+            customer: Joi.object({
+                id: Joi.string().optional(),
+                name: Joi.string().min(1).max(100).required().messages({
+                    'any.required': 'Sample customer name is required'
+                }),
+                email: Joi.string().email().required().messages({
+                    'string.email': 'Invalid sample customer email format',
+                    'any.required': 'Sample customer email is required'
+                }),
+                preferences: Joi.object().optional(),
+                metadata: Joi.object().optional()
+            }).unknown(true).optional(),
+            version: Joi.number().integer().positive().optional().messages({
+                'number.base': 'Version must be a valid number',
+                'number.positive': 'Version must be positive'
+            }),
+            data: Joi.object().optional()
+        }).xor('customerId', 'customer').messages({
+            'object.missing': 'Either customerId or a sample customer is required',
+            'object.xor': 'Provide either customerId or a sample customer, not both'
+        });
+
+        return this.validateWithJoi(request, schema);
+    }
+
+    /**
+     * Validates funnel filters: an ISO date range and an optional `attribute:value` or saved segment
+     */
+    validateFunnelQuery(query: any): ValidationResult {
+        const schema = Joi.object({
+            from: Joi.date().iso().optional().messages({
+                'date.format': 'Invalid from date: must be an ISO 8601 date'
+            }),
+            to: Joi.date().iso().optional().when('from', {
+                is: Joi.exist(),
+                then: Joi.date().min(Joi.ref('from'))
+            }).messages({
+                'date.format': 'Invalid to date: must be an ISO 8601 date',
+                'date.min': 'Invalid date range: to must not be before from'
+            }),
+            segment: Joi.string().pattern(/^([A-Za-z0-9_.]+:.+|[a-z0-9][a-z0-9-]*)$/).optional().messages({
+                'string.pattern.base': 'Invalid segment filter: expected attribute:value, e.g. preferences.category:electronics, or a segment ID'
+            })
+        });
+
+        return this.validateWithJoi(query, schema);
+    }
+
     /**
      * Validates workflow status data
      */
     validateWorkflowStatus(status: any): ValidationResult {
         const schema = Joi.object({
-            currentStep: Joi.number().integer().min(0).required(),
-            completedSteps: Joi.array().items(Joi.number().integer().min(0)).required(),
-            welcomeEmailSent: Joi.boolean().required(),
-            discountCodeSent: Joi.boolean().required(),
-            reminderSent: Joi.boolean().required(),
-            lastEmailSent: Joi.date().iso().allow(null).required()
+            journeys: Joi.object().pattern(Joi.string(), Joi.object({
+                currentStep: Joi.number().integer().min(0).required(),
+                completedSteps: Joi.array().items(Joi.number().integer().min(0)).required(),
+                startedAt: Joi.date().iso().required(),
+                stepCompletedAt: Joi.object().pattern(Joi.string(), Joi.date().iso()).required(),
+                stepOccurrences: Joi.object().pattern(Joi.string(), Joi.number().integer().min(0)).required(),
+                currentNode: Joi.number().integer().positive().allow(null).optional(),
+                stepOutcomes: Joi.object().pattern(Joi.string(), Joi.string()).optional(),
+                waitingFor: Joi.object({
+                    stepId: Joi.number().integer().positive().required(),
+                    event: Joi.string().required(),
+                    since: Joi.date().iso().required(),
+                    until: Joi.date().iso().required(),
+                    data: Joi.object().optional()
+                }).optional()
+            })).required(),
+            lastEmailSent: Joi.date().iso().allow(null).required(),
+            emailHistory: Joi.array().items(Joi.object({
+                messageId: Joi.string().optional(),
+                journeyId: Joi.string().required(),
+                stepId: Joi.number().integer().min(0).required(),
+                template: Joi.string().required(),
+                sentAt: Joi.date().iso().required()
+            })).optional()
         }).required();
 
         return this.validateWithJoi(status, schema);